@@ -12,6 +12,12 @@ import { Sales } from './pages/Sales';
 import { Installments } from './pages/Installments';
 import { CashFlow } from './pages/CashFlow';
 import { SalesHistory } from './pages/SalesHistory';
+import { Settings } from './pages/Settings';
+import { Receivables } from './pages/Receivables';
+import { Collections } from './pages/Collections';
+import { CashRegisters } from './pages/CashRegisters';
+import { OpenRegisters } from './pages/OpenRegisters';
+import { ClientStatement } from './pages/ClientStatement';
 
 function App() {
   return (
@@ -25,13 +31,21 @@ function App() {
             <Route element={<Layout />}>
               <Route index element={<Dashboard />} />
               <Route path="clients" element={<Clients />} />
+              <Route path="clients/:id" element={<ClientStatement />} />
               <Route path="products" element={<Products />} />
               <Route path="stock" element={<Stock />} />
               <Route path="sales" element={<Sales />} />
               <Route path="installments" element={<Installments />} />
               <Route path="installments" element={<Installments />} />
+              <Route path="receivables" element={<Receivables />} />
+              <Route path="collections" element={<Collections />} />
               <Route path="cash-flow" element={<CashFlow />} />
+              <Route path="cash-registers" element={<CashRegisters />} />
               <Route path="sales-history" element={<SalesHistory />} />
+              <Route element={<ProtectedRoute allowedRoles={['admin']} />}>
+                <Route path="open-registers" element={<OpenRegisters />} />
+                <Route path="settings" element={<Settings />} />
+              </Route>
             </Route>
           </Route>
 
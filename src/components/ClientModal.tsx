@@ -8,6 +8,7 @@ interface Client {
     phone: string;
     email: string;
     address: string;
+    credit_limit: number | null; // Null = no limit
 }
 
 interface ClientModalProps {
@@ -23,7 +24,9 @@ export const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, onSuc
         phone: '',
         email: '',
         address: '',
+        credit_limit: null,
     });
+    const [openBalance, setOpenBalance] = useState<number | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -31,7 +34,14 @@ export const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, onSuc
         if (client) {
             setFormData(client);
         } else {
-            setFormData({ name: '', phone: '', email: '', address: '' });
+            setFormData({ name: '', phone: '', email: '', address: '', credit_limit: null });
+        }
+        setOpenBalance(null);
+        if (client?.id && isOpen) {
+            supabase
+                .rpc('client_credit_status', { p_client_id: client.id })
+                .maybeSingle()
+                .then(({ data }) => setOpenBalance((data as { open_balance: number } | null)?.open_balance ?? null));
         }
     }, [client, isOpen]);
 
@@ -132,6 +142,25 @@ export const ClientModal: React.FC<ClientModalProps> = ({ isOpen, onClose, onSuc
                                 />
                             </div>
 
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Limite de crédito (R$)</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={formData.credit_limit ?? ''}
+                                    onChange={(e) => setFormData({ ...formData, credit_limit: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                                    placeholder="Sem limite"
+                                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                                />
+                                {openBalance !== null && (
+                                    <p className="text-xs text-gray-500 mt-1">
+                                        Em aberto em parcelas: R$ {openBalance.toFixed(2)}
+                                        {formData.credit_limit !== null && ` - disponível R$ ${Math.max(0, formData.credit_limit - openBalance).toFixed(2)}`}
+                                    </p>
+                                )}
+                            </div>
+
                             <div className="mt-5 sm:mt-6 flex justify-end gap-3">
                                 <button
                                     type="button"
@@ -10,9 +10,14 @@ import {
     Menu,
     X,
     Boxes,
+    MessageCircle,
     CreditCard,
     DollarSign,
-    History as HistoryIcon
+    Archive,
+    MonitorCheck,
+    History as HistoryIcon,
+    PieChart,
+    Settings
 } from 'lucide-react';
 import { clsx } from 'clsx';
 
@@ -29,11 +34,16 @@ export const Layout: React.FC = () => {
         { name: 'Dashboard', href: '/', icon: LayoutDashboard, roles: ['admin', 'user'] },
         { name: 'Vendas', href: '/sales', icon: ShoppingCart, roles: ['admin', 'user'] },
         { name: 'Parcelas', href: '/installments', icon: CreditCard, roles: ['admin', 'user'] },
+        { name: 'Recebíveis', href: '/receivables', icon: PieChart, roles: ['admin', 'user'] },
+        { name: 'Cobrança', href: '/collections', icon: MessageCircle, roles: ['admin', 'user'] },
         { name: 'Clientes', href: '/clients', icon: Users, roles: ['admin', 'user'] },
         { name: 'Produtos', href: '/products', icon: Package, roles: ['admin', 'user'] },
         { name: 'Estoque', href: '/stock', icon: Boxes, roles: ['admin', 'user'] },
         { name: 'Caixa', href: '/cash-flow', icon: DollarSign, roles: ['admin', 'user'] },
+        { name: 'Histórico de Caixas', href: '/cash-registers', icon: Archive, roles: ['admin', 'user'] },
+        { name: 'Caixas Abertos', href: '/open-registers', icon: MonitorCheck, roles: ['admin'] },
         { name: 'Histórico', href: '/sales-history', icon: HistoryIcon, roles: ['admin', 'user'] },
+        { name: 'Configurações', href: '/settings', icon: Settings, roles: ['admin'] },
     ];
 
     const filteredNavigation = navigation.filter(item => item.roles.includes(role || 'user'));
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { getRpcErrorMessage } from '../lib/rpcErrors';
 
 interface Product {
     id?: string;
@@ -47,23 +48,32 @@ export const ProductModal: React.FC<ProductModalProps> = ({ isOpen, onClose, onS
         setLoading(true);
         setError(null);
 
+        // Only the catalog fields: stock changes through the stock functions, never from this form
+        const payload = {
+            name: formData.name,
+            code: formData.code,
+            price: formData.price,
+            category: formData.category,
+            unit: formData.unit
+        };
+
         try {
             if (product?.id) {
                 const { error } = await supabase
                     .from('products')
-                    .update(formData)
+                    .update(payload)
                     .eq('id', product.id);
                 if (error) throw error;
             } else {
                 const { error } = await supabase
                     .from('products')
-                    .insert([formData]);
+                    .insert([payload]);
                 if (error) throw error;
             }
             onSuccess();
             onClose();
         } catch (err: any) {
-            setError(err.message);
+            setError(getRpcErrorMessage(err, 'Erro ao salvar produto'));
         } finally {
             setLoading(false);
         }
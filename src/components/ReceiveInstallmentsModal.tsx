@@ -0,0 +1,275 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getRpcErrorMessage } from '../lib/rpcErrors';
+import { formatCurrency, subtractMoney, sumMoney } from '../lib/money';
+import { calculateLateCharges, type LateFeeSettings } from '../lib/lateFees';
+import { printInstallmentReceipt } from '../lib/installmentReceipt';
+
+interface OpenInstallment {
+    id: string;
+    sale_id: string | null;
+    renegotiation_id: string | null;
+    installment_number: number;
+    due_date: string;
+    amount: number;
+    principal_paid: number;
+    status: string;
+}
+
+interface ReceiveInstallmentsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSuccess: () => void;
+    clientName: string;
+    installments: OpenInstallment[];
+    lateFeeSettings: LateFeeSettings | null;
+}
+
+export const ReceiveInstallmentsModal: React.FC<ReceiveInstallmentsModalProps> = ({
+    isOpen,
+    onClose,
+    onSuccess,
+    clientName,
+    installments,
+    lateFeeSettings
+}) => {
+    const { role } = useAuth();
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [paymentDate, setPaymentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+    const [paymentMethod, setPaymentMethod] = useState('money');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            // Start with the overdue parcels, the usual reason for paying several at once
+            setSelectedIds(new Set(installments.filter(inst => inst.status === 'overdue').map(inst => inst.id)));
+            setPaymentDate(format(new Date(), 'yyyy-MM-dd'));
+            setPaymentMethod('money');
+            setError(null);
+        }
+    }, [isOpen, installments]);
+
+    if (!isOpen) return null;
+
+    const rows = installments.map(inst => {
+        const balance = subtractMoney(inst.amount, inst.principal_paid);
+        return { ...inst, balance, charges: calculateLateCharges(balance, inst.due_date, paymentDate, lateFeeSettings) };
+    });
+    const selected = rows.filter(row => selectedIds.has(row.id));
+    const principal = sumMoney(selected.map(row => row.balance));
+    const lateCharges = sumMoney(selected.map(row => sumMoney([row.charges.lateFee, row.charges.interest])));
+    const total = sumMoney([principal, lateCharges]);
+
+    const toggleInstallment = (id: string) => {
+        setSelectedIds(current => {
+            const next = new Set(current);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelectedIds(selected.length === rows.length ? new Set() : new Set(rows.map(row => row.id)));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+
+        try {
+            if (selected.length === 0) {
+                throw new Error('Selecione ao menos uma parcela');
+            }
+
+            // Keep the selected day with the current time
+            const now = new Date();
+            const [year, month, day] = paymentDate.split('-').map(Number);
+            const timestamp = new Date(year, month - 1, day, now.getHours(), now.getMinutes(), now.getSeconds()).toISOString();
+
+            // Every parcel is settled, with its own cash entry, in a single transaction
+            const { data, error } = await supabase.rpc('receive_installments', {
+                p_installment_ids: selected.map(row => row.id),
+                p_payment_method: paymentMethod,
+                p_paid_at: timestamp
+            });
+
+            if (error) throw error;
+
+            onSuccess();
+            onClose();
+
+            try {
+                await printInstallmentReceipt((data as { id: string }[]).map(payment => payment.id));
+            } catch (receiptError) {
+                console.error('Error printing receipt:', receiptError);
+                alert(getRpcErrorMessage(receiptError, 'Parcelas recebidas, mas houve um erro ao gerar o recibo'));
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : getRpcErrorMessage(err, 'Erro ao receber parcelas'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+            <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+                <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+                    <div className="absolute inset-0 bg-gray-500 opacity-75" onClick={onClose}></div>
+                </div>
+
+                <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+                <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+                    <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-lg leading-6 font-medium text-gray-900">
+                                Receber Parcelas - {clientName}
+                            </h3>
+                            <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+                                <X className="h-6 w-6" />
+                            </button>
+                        </div>
+
+                        {error && (
+                            <div className="mb-4 bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+                                {error}
+                            </div>
+                        )}
+
+                        <form onSubmit={handleSubmit} className="space-y-6">
+                            <div>
+                                <div className="flex justify-between items-center mb-2">
+                                    <label className="block text-sm font-medium text-gray-700">Parcelas em aberto</label>
+                                    <div className="flex gap-3 text-xs">
+                                        <button
+                                            type="button"
+                                            onClick={() => setSelectedIds(new Set(rows.filter(row => row.status === 'overdue').map(row => row.id)))}
+                                            className="text-red-600 hover:text-red-800"
+                                        >
+                                            Somente vencidas
+                                        </button>
+                                        <button type="button" onClick={toggleAll} className="text-blue-600 hover:text-blue-800">
+                                            {selected.length === rows.length ? 'Limpar seleção' : 'Selecionar todas'}
+                                        </button>
+                                    </div>
+                                </div>
+                                <div className="border rounded-lg overflow-hidden max-h-64 overflow-y-auto">
+                                    <table className="min-w-full divide-y divide-gray-200">
+                                        <thead className="bg-gray-100">
+                                            <tr>
+                                                <th className="px-4 py-2"></th>
+                                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Parcela</th>
+                                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Vencimento</th>
+                                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Saldo</th>
+                                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Multa/Juros</th>
+                                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Total</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-200">
+                                            {rows.map(row => (
+                                                <tr key={row.id} className={row.status === 'overdue' ? 'text-red-700' : ''}>
+                                                    <td className="px-4 py-2">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={selectedIds.has(row.id)}
+                                                            onChange={() => toggleInstallment(row.id)}
+                                                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                                        />
+                                                    </td>
+                                                    <td className="px-4 py-2 text-sm">
+                                                        {row.installment_number}ª
+                                                        <div className="text-xs text-gray-500">
+                                                            {row.sale_id ? `Venda #${row.sale_id.slice(0, 8)}` : row.renegotiation_id ? `Acordo #${row.renegotiation_id.slice(0, 8)}` : ''}
+                                                        </div>
+                                                    </td>
+                                                    <td className="px-4 py-2 text-sm">
+                                                        {format(new Date(`${row.due_date}T00:00:00`), 'dd/MM/yyyy')}
+                                                        {row.charges.daysLate > 0 && (
+                                                            <div className="text-xs">{row.charges.daysLate} dias de atraso</div>
+                                                        )}
+                                                    </td>
+                                                    <td className="px-4 py-2 text-sm text-right">{formatCurrency(row.balance)}</td>
+                                                    <td className="px-4 py-2 text-sm text-right">{formatCurrency(sumMoney([row.charges.lateFee, row.charges.interest]))}</td>
+                                                    <td className="px-4 py-2 text-sm text-right font-medium">{formatCurrency(row.charges.total)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">Data do Pagamento</label>
+                                    <input
+                                        type="date"
+                                        required
+                                        value={paymentDate}
+                                        max={format(new Date(), 'yyyy-MM-dd')}
+                                        disabled={role !== 'admin'}
+                                        onChange={e => setPaymentDate(e.target.value)}
+                                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 sm:text-sm disabled:bg-gray-100 disabled:text-gray-500"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">Forma de Pagamento</label>
+                                    <select
+                                        value={paymentMethod}
+                                        onChange={e => setPaymentMethod(e.target.value)}
+                                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 sm:text-sm"
+                                    >
+                                        <option value="money">Dinheiro</option>
+                                        <option value="pix">PIX</option>
+                                        <option value="debit">Débito</option>
+                                        <option value="credit">Crédito</option>
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div className="bg-gray-50 rounded-lg p-4 text-sm space-y-1">
+                                <div className="flex justify-between">
+                                    <span>{selected.length} parcela(s) selecionada(s)</span>
+                                    <span>{formatCurrency(principal)}</span>
+                                </div>
+                                {lateCharges > 0 && (
+                                    <div className="flex justify-between text-red-700">
+                                        <span>Multa e juros</span>
+                                        <span>+ {formatCurrency(lateCharges)}</span>
+                                    </div>
+                                )}
+                                <div className="flex justify-between font-bold border-t pt-1">
+                                    <span>Total a receber</span>
+                                    <span>{formatCurrency(total)}</span>
+                                </div>
+                            </div>
+
+                            <div className="mt-5 sm:mt-6 flex justify-end gap-3">
+                                <button
+                                    type="button"
+                                    onClick={onClose}
+                                    className="inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:text-sm"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={loading || selected.length === 0}
+                                    className="inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-green-600 text-base font-medium text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:text-sm disabled:opacity-50"
+                                >
+                                    {loading ? 'Salvando...' : `Receber ${formatCurrency(total)}`}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,336 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { getRpcErrorMessage } from '../lib/rpcErrors';
+import { formatCurrency, subtractMoney, sumMoney } from '../lib/money';
+import { calculateLateCharges, type LateFeeSettings } from '../lib/lateFees';
+import { generateInstallmentSchedule, scheduleIntervalLabels, type ScheduleInterval } from '../lib/installmentSchedule';
+import { generateAgreementPdf } from '../lib/renegotiationAgreement';
+
+interface OpenInstallment {
+    id: string;
+    installment_number: number;
+    due_date: string;
+    amount: number;
+    principal_paid: number;
+    status: string;
+}
+
+interface RenegotiationModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSuccess: () => void;
+    clientId: string;
+    clientName: string;
+    installments: OpenInstallment[];
+    lateFeeSettings: LateFeeSettings | null;
+}
+
+export const RenegotiationModal: React.FC<RenegotiationModalProps> = ({
+    isOpen,
+    onClose,
+    onSuccess,
+    clientId,
+    clientName,
+    installments,
+    lateFeeSettings
+}) => {
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [discount, setDiscount] = useState<number>(0);
+    const [addition, setAddition] = useState<number>(0);
+    const [count, setCount] = useState<number>(3);
+    const [firstDueDate, setFirstDueDate] = useState(format(addDays(new Date(), 30), 'yyyy-MM-dd'));
+    const [scheduleInterval, setScheduleInterval] = useState<ScheduleInterval>('monthly');
+    const [notes, setNotes] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            // Overdue parcels are the usual reason for a renegotiation
+            setSelectedIds(new Set(installments.filter(inst => inst.status === 'overdue').map(inst => inst.id)));
+            setDiscount(0);
+            setAddition(0);
+            setNotes('');
+            setError(null);
+        }
+    }, [isOpen, installments]);
+
+    if (!isOpen) return null;
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const getBalance = (inst: OpenInstallment) => subtractMoney(inst.amount, inst.principal_paid);
+    const selected = installments.filter(inst => selectedIds.has(inst.id));
+    const originalAmount = sumMoney(selected.map(getBalance));
+    // Late charges as of today, offered as the default addition
+    const suggestedCharges = sumMoney(selected.map(inst => {
+        const charges = calculateLateCharges(getBalance(inst), inst.due_date, today, lateFeeSettings);
+        return sumMoney([charges.lateFee, charges.interest]);
+    }));
+    const newAmount = subtractMoney(sumMoney([originalAmount, addition]), discount);
+    const schedule = generateInstallmentSchedule({
+        financedAmount: newAmount,
+        count,
+        firstDueDate,
+        interval: scheduleInterval
+    });
+
+    const toggleInstallment = (id: string) => {
+        setSelectedIds(current => {
+            const next = new Set(current);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+
+        try {
+            if (selected.length === 0) {
+                throw new Error('Selecione ao menos uma parcela');
+            }
+            if (newAmount <= 0) {
+                throw new Error('O desconto não pode ser maior que a dívida');
+            }
+
+            // Originals are marked as renegotiated and the new plan is created in one transaction
+            const { data, error } = await supabase.rpc('renegotiate_installments', {
+                p_client_id: clientId,
+                p_installment_ids: selected.map(inst => inst.id),
+                p_installments: schedule,
+                p_discount: discount,
+                p_addition: addition,
+                p_notes: notes
+            });
+
+            if (error) throw error;
+
+            generateAgreementPdf({
+                renegotiationId: data.id,
+                createdAt: data.created_at,
+                clientName,
+                originalInstallments: selected.map(inst => ({
+                    installment_number: inst.installment_number,
+                    due_date: inst.due_date,
+                    amount: getBalance(inst)
+                })),
+                originalAmount,
+                discount,
+                addition,
+                newAmount,
+                newInstallments: schedule,
+                notes
+            });
+
+            onSuccess();
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : getRpcErrorMessage(err, 'Erro ao renegociar parcelas'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+            <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+                <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+                    <div className="absolute inset-0 bg-gray-500 opacity-75" onClick={onClose}></div>
+                </div>
+
+                <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+                <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+                    <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-lg leading-6 font-medium text-gray-900">
+                                Renegociar Dívida - {clientName}
+                            </h3>
+                            <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+                                <X className="h-6 w-6" />
+                            </button>
+                        </div>
+
+                        {error && (
+                            <div className="mb-4 bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+                                {error}
+                            </div>
+                        )}
+
+                        <form onSubmit={handleSubmit} className="space-y-6">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">Parcelas em aberto</label>
+                                <div className="border rounded-lg overflow-hidden max-h-56 overflow-y-auto">
+                                    <table className="min-w-full divide-y divide-gray-200">
+                                        <thead className="bg-gray-100">
+                                            <tr>
+                                                <th className="px-4 py-2"></th>
+                                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Parcela</th>
+                                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Vencimento</th>
+                                                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500">Saldo</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-200">
+                                            {installments.map(inst => (
+                                                <tr key={inst.id} className={inst.status === 'overdue' ? 'text-red-700' : ''}>
+                                                    <td className="px-4 py-2">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={selectedIds.has(inst.id)}
+                                                            onChange={() => toggleInstallment(inst.id)}
+                                                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                                                        />
+                                                    </td>
+                                                    <td className="px-4 py-2 text-sm">{inst.installment_number}ª</td>
+                                                    <td className="px-4 py-2 text-sm">{format(new Date(`${inst.due_date}T00:00:00`), 'dd/MM/yyyy')}</td>
+                                                    <td className="px-4 py-2 text-sm text-right">{formatCurrency(getBalance(inst))}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">Desconto (R$)</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={discount || ''}
+                                        onChange={e => setDiscount(parseFloat(e.target.value) || 0)}
+                                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                                        placeholder="0.00"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">Juros / encargos (R$)</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={addition || ''}
+                                        onChange={e => setAddition(parseFloat(e.target.value) || 0)}
+                                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                                        placeholder="0.00"
+                                    />
+                                    {suggestedCharges > 0 && (
+                                        <button
+                                            type="button"
+                                            onClick={() => setAddition(suggestedCharges)}
+                                            className="text-xs text-blue-600 hover:text-blue-800 mt-1"
+                                        >
+                                            Aplicar multa e juros até hoje ({formatCurrency(suggestedCharges)})
+                                        </button>
+                                    )}
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">Parcelas</label>
+                                    <select
+                                        value={count}
+                                        onChange={e => setCount(parseInt(e.target.value))}
+                                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 sm:text-sm"
+                                    >
+                                        {[1, 2, 3, 4, 5, 6, 8, 10, 12].map(num => (
+                                            <option key={num} value={num}>{num}x</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">1º Vencimento</label>
+                                    <input
+                                        type="date"
+                                        required
+                                        value={firstDueDate}
+                                        onChange={e => setFirstDueDate(e.target.value)}
+                                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 sm:text-sm"
+                                    />
+                                </div>
+                                <div className="col-span-2">
+                                    <label className="block text-sm font-medium text-gray-700">Intervalo</label>
+                                    <select
+                                        value={scheduleInterval}
+                                        onChange={e => setScheduleInterval(e.target.value as ScheduleInterval)}
+                                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 sm:text-sm"
+                                    >
+                                        {(Object.keys(scheduleIntervalLabels) as ScheduleInterval[])
+                                            .filter(key => key !== 'days')
+                                            .map(key => (
+                                                <option key={key} value={key}>{scheduleIntervalLabels[key]}</option>
+                                            ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div className="bg-gray-50 rounded-lg p-4 text-sm space-y-1">
+                                <div className="flex justify-between">
+                                    <span>Dívida selecionada</span>
+                                    <span>{formatCurrency(originalAmount)}</span>
+                                </div>
+                                {discount > 0 && (
+                                    <div className="flex justify-between text-green-700">
+                                        <span>Desconto</span>
+                                        <span>- {formatCurrency(discount)}</span>
+                                    </div>
+                                )}
+                                {addition > 0 && (
+                                    <div className="flex justify-between text-red-700">
+                                        <span>Juros / encargos</span>
+                                        <span>+ {formatCurrency(addition)}</span>
+                                    </div>
+                                )}
+                                <div className="flex justify-between font-bold border-t pt-1">
+                                    <span>Novo total</span>
+                                    <span>{formatCurrency(Math.max(0, newAmount))}</span>
+                                </div>
+                                {schedule.length > 0 && (
+                                    <div className="pt-2 text-gray-600">
+                                        {schedule.map(parcel => (
+                                            <div key={parcel.installment_number} className="flex justify-between">
+                                                <span>{parcel.installment_number}ª - {format(new Date(`${parcel.due_date}T00:00:00`), 'dd/MM/yyyy')}</span>
+                                                <span>{formatCurrency(parcel.amount)}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Observações</label>
+                                <textarea
+                                    value={notes}
+                                    onChange={(e) => setNotes(e.target.value)}
+                                    rows={2}
+                                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                                />
+                            </div>
+
+                            <div className="mt-5 sm:mt-6 flex justify-end gap-3">
+                                <button
+                                    type="button"
+                                    onClick={onClose}
+                                    className="inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:text-sm"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={loading || selected.length === 0 || newAmount <= 0}
+                                    className="inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:text-sm disabled:opacity-50"
+                                >
+                                    {loading ? 'Salvando...' : 'Confirmar e Imprimir Acordo'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
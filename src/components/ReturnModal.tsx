@@ -0,0 +1,339 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { getRpcErrorMessage } from '../lib/rpcErrors';
+import { formatCurrency, multiplyMoney, sumMoney } from '../lib/money';
+import { calculateReturnBreakdown, type ReturnBalance } from '../lib/saleReturns';
+
+interface SaleItem {
+    id: string;
+    quantity: number;
+    returned_quantity: number;
+    unit_price: number;
+    product: {
+        name: string;
+    };
+}
+
+interface Sale {
+    id: string;
+    client: {
+        name: string;
+    };
+    sale_items: SaleItem[];
+}
+
+interface Product {
+    id: string;
+    name: string;
+    price: number;
+    stock_quantity: number;
+}
+
+interface ExchangeItem extends Product {
+    quantity: number;
+}
+
+interface ReturnModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSuccess: () => void;
+    sale: Sale;
+}
+
+export const ReturnModal: React.FC<ReturnModalProps> = ({ isOpen, onClose, onSuccess, sale }) => {
+    const [returnQuantities, setReturnQuantities] = useState<{ [saleItemId: string]: number }>({});
+    const [products, setProducts] = useState<Product[]>([]);
+    const [exchangeItems, setExchangeItems] = useState<ExchangeItem[]>([]);
+    const [exchangeProductId, setExchangeProductId] = useState('');
+    const [balance, setBalance] = useState<ReturnBalance>({ open_installments: 0, paid: 0 });
+    const [refundMethod, setRefundMethod] = useState<'cash' | 'store_credit'>('store_credit');
+    const [reason, setReason] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            fetchProducts();
+            fetchBalance(sale.id);
+        }
+    }, [isOpen, sale.id]);
+
+    const fetchProducts = async () => {
+        const { data } = await supabase
+            .from('products')
+            .select('id, name, price, stock_quantity')
+            .gt('stock_quantity', 0)
+            .order('name');
+        if (data) setProducts(data);
+    };
+
+    // Computed by the database, as process_return sees it (other registers' entries included)
+    const fetchBalance = async (saleId: string) => {
+        const { data } = await supabase
+            .rpc('sale_return_balance', { p_sale_id: saleId })
+            .maybeSingle();
+        setBalance((data as ReturnBalance | null) || { open_installments: 0, paid: 0 });
+    };
+
+    if (!isOpen) return null;
+
+    const returnedAmount = sumMoney(sale.sale_items.map(item => multiplyMoney(item.unit_price, returnQuantities[item.id] || 0)));
+    const exchangeAmount = sumMoney(exchangeItems.map(item => multiplyMoney(item.price, item.quantity)));
+    const { installmentsReduced, notRefunded, difference } = calculateReturnBreakdown(returnedAmount, exchangeAmount, balance);
+
+    const setReturnQuantity = (item: SaleItem, value: number) => {
+        const available = item.quantity - item.returned_quantity;
+        const quantity = Math.max(0, Math.min(available, isNaN(value) ? 0 : value));
+        setReturnQuantities(current => ({ ...current, [item.id]: quantity }));
+    };
+
+    const addExchangeItem = () => {
+        const product = products.find(p => p.id === exchangeProductId);
+        if (!product) return;
+
+        setExchangeItems(current => {
+            const existing = current.find(item => item.id === product.id);
+            if (existing) {
+                if (existing.quantity >= product.stock_quantity) return current;
+                return current.map(item =>
+                    item.id === product.id ? { ...item, quantity: item.quantity + 1 } : item
+                );
+            }
+            return [...current, { ...product, quantity: 1 }];
+        });
+        setExchangeProductId('');
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+
+        try {
+            const items = Object.entries(returnQuantities)
+                .filter(([, quantity]) => quantity > 0)
+                .map(([saleItemId, quantity]) => ({ sale_item_id: saleItemId, quantity }));
+
+            if (items.length === 0) {
+                throw new Error('Selecione ao menos um item para devolver');
+            }
+
+            // Stock, store credit / register and the exchange sale are handled in one transaction
+            const { error } = await supabase.rpc('process_return', {
+                p_sale_id: sale.id,
+                p_items: items,
+                p_refund_method: refundMethod,
+                p_exchange_items: exchangeItems.map(item => ({ product_id: item.id, quantity: item.quantity })),
+                p_reason: reason
+            });
+
+            if (error) throw error;
+            onSuccess();
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : getRpcErrorMessage(err, 'Erro ao registrar devolução'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+            <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+                <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+                    <div className="absolute inset-0 bg-gray-500 opacity-75" onClick={onClose}></div>
+                </div>
+
+                <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+                <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+                    <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-lg leading-6 font-medium text-gray-900">
+                                Troca / Devolução - {sale.client?.name || 'Cliente não identificado'}
+                            </h3>
+                            <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+                                <X className="h-6 w-6" />
+                            </button>
+                        </div>
+
+                        {error && (
+                            <div className="mb-4 bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+                                {error}
+                            </div>
+                        )}
+
+                        <form onSubmit={handleSubmit} className="space-y-6">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">Itens devolvidos</label>
+                                <div className="border rounded-lg overflow-hidden">
+                                    <table className="min-w-full divide-y divide-gray-200">
+                                        <thead className="bg-gray-100">
+                                            <tr>
+                                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Produto</th>
+                                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Vendido</th>
+                                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Já devolvido</th>
+                                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Devolver</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-200">
+                                            {sale.sale_items.map(item => (
+                                                <tr key={item.id}>
+                                                    <td className="px-4 py-2 text-sm text-gray-900">
+                                                        <div>{item.product?.name}</div>
+                                                        <div className="text-xs text-gray-500">{formatCurrency(item.unit_price)} un</div>
+                                                    </td>
+                                                    <td className="px-4 py-2 text-sm text-gray-900">{item.quantity}</td>
+                                                    <td className="px-4 py-2 text-sm text-gray-900">{item.returned_quantity}</td>
+                                                    <td className="px-4 py-2 text-sm text-gray-900">
+                                                        <input
+                                                            type="number"
+                                                            min="0"
+                                                            max={item.quantity - item.returned_quantity}
+                                                            disabled={item.quantity === item.returned_quantity}
+                                                            value={returnQuantities[item.id] || 0}
+                                                            onChange={(e) => setReturnQuantity(item, parseInt(e.target.value))}
+                                                            className="w-20 border border-gray-300 rounded-md py-1 px-2 disabled:bg-gray-100"
+                                                        />
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">Produtos levados em troca (opcional)</label>
+                                <div className="flex gap-2">
+                                    <select
+                                        value={exchangeProductId}
+                                        onChange={(e) => setExchangeProductId(e.target.value)}
+                                        className="flex-1 border border-gray-300 rounded-md py-2 px-3 sm:text-sm"
+                                    >
+                                        <option value="">Selecione um produto...</option>
+                                        {products.map(p => (
+                                            <option key={p.id} value={p.id}>{p.name} - {formatCurrency(p.price)}</option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        type="button"
+                                        onClick={addExchangeItem}
+                                        disabled={!exchangeProductId}
+                                        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                                    >
+                                        <Plus className="h-4 w-4" />
+                                    </button>
+                                </div>
+                                {exchangeItems.length > 0 && (
+                                    <ul className="mt-2 divide-y divide-gray-200 border rounded-lg">
+                                        {exchangeItems.map(item => (
+                                            <li key={item.id} className="flex justify-between items-center px-4 py-2 text-sm">
+                                                <span>{item.quantity}x {item.name}</span>
+                                                <div className="flex items-center gap-3">
+                                                    <span>{formatCurrency(multiplyMoney(item.price, item.quantity))}</span>
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => setExchangeItems(current => current.filter(i => i.id !== item.id))}
+                                                        className="text-red-500 hover:text-red-700"
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </button>
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+
+                            <div className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm">
+                                <div className="flex justify-between">
+                                    <span>Valor devolvido</span>
+                                    <span>{formatCurrency(returnedAmount)}</span>
+                                </div>
+                                {installmentsReduced > 0 && (
+                                    <div className="flex justify-between">
+                                        <span>Abatido das parcelas em aberto</span>
+                                        <span>- {formatCurrency(installmentsReduced)}</span>
+                                    </div>
+                                )}
+                                {notRefunded > 0 && (
+                                    <div className="flex justify-between">
+                                        <span>Não pago pelo cliente</span>
+                                        <span>- {formatCurrency(notRefunded)}</span>
+                                    </div>
+                                )}
+                                {exchangeAmount > 0 && (
+                                    <div className="flex justify-between">
+                                        <span>Valor da troca</span>
+                                        <span>- {formatCurrency(exchangeAmount)}</span>
+                                    </div>
+                                )}
+                                <div className="flex justify-between font-bold pt-1 border-t">
+                                    <span>{difference >= 0 ? 'A devolver ao cliente' : 'Cliente paga a diferença (dinheiro)'}</span>
+                                    <span>{formatCurrency(Math.abs(difference))}</span>
+                                </div>
+                            </div>
+
+                            {difference > 0 && (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-2">Forma de reembolso</label>
+                                    <div className="flex gap-4">
+                                        <label className="inline-flex items-center">
+                                            <input
+                                                type="radio"
+                                                className="form-radio text-blue-600"
+                                                name="refundMethod"
+                                                checked={refundMethod === 'store_credit'}
+                                                onChange={() => setRefundMethod('store_credit')}
+                                            />
+                                            <span className="ml-2">Crédito na loja</span>
+                                        </label>
+                                        <label className="inline-flex items-center">
+                                            <input
+                                                type="radio"
+                                                className="form-radio text-blue-600"
+                                                name="refundMethod"
+                                                checked={refundMethod === 'cash'}
+                                                onChange={() => setRefundMethod('cash')}
+                                            />
+                                            <span className="ml-2">Dinheiro (sai do caixa)</span>
+                                        </label>
+                                    </div>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700">Motivo</label>
+                                <textarea
+                                    value={reason}
+                                    onChange={(e) => setReason(e.target.value)}
+                                    rows={2}
+                                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                                />
+                            </div>
+
+                            <div className="mt-5 sm:mt-6 flex justify-end gap-3">
+                                <button
+                                    type="button"
+                                    onClick={onClose}
+                                    className="inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:text-sm"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={loading || returnedAmount === 0}
+                                    className="inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:text-sm disabled:opacity-50"
+                                >
+                                    {loading ? 'Salvando...' : 'Confirmar Devolução'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
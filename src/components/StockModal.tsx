@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { X } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { getRpcErrorMessage, isRpcError } from '../lib/rpcErrors';
 
 interface Product {
     id: string;
@@ -17,7 +18,7 @@ interface StockModalProps {
 
 export const StockModal: React.FC<StockModalProps> = ({ isOpen, onClose, onSuccess, product }) => {
     const [quantity, setQuantity] = useState(0);
-    const [type, setType] = useState<'add' | 'remove'>('add');
+    const [type, setType] = useState<'add' | 'remove' | 'count'>('add');
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -29,25 +30,26 @@ export const StockModal: React.FC<StockModalProps> = ({ isOpen, onClose, onSucce
         setError(null);
 
         try {
-            const newQuantity = type === 'add'
-                ? product.stock_quantity + quantity
-                : product.stock_quantity - quantity;
-
-            if (newQuantity < 0) {
-                throw new Error('O estoque não pode ficar negativo');
-            }
-
-            const { error } = await supabase
-                .from('products')
-                .update({ stock_quantity: newQuantity })
-                .eq('id', product.id);
+            // Relative change applied in the database, so concurrent sales are not overwritten and
+            // a removal is checked against the current balance, not the one loaded on this screen.
+            // An inventory count sets the counted quantity and records the difference.
+            const { error } = type === 'count'
+                ? await supabase.rpc('count_stock', {
+                    p_product_id: product.id,
+                    p_counted: quantity
+                })
+                : await supabase.rpc('adjust_stock', {
+                    p_product_id: product.id,
+                    p_delta: type === 'add' ? quantity : -quantity
+                });
 
             if (error) throw error;
             onSuccess();
             onClose();
             setQuantity(0);
-        } catch (err: any) {
-            setError(err.message);
+        } catch (err) {
+            setError(getRpcErrorMessage(err, 'Erro ao atualizar estoque'));
+            if (isRpcError(err, 'stock_conflict')) onSuccess(); // Refresh the list with the current balance
         } finally {
             setLoading(false);
         }
@@ -105,14 +107,27 @@ export const StockModal: React.FC<StockModalProps> = ({ isOpen, onClose, onSucce
                                         />
                                         <span className="ml-2">Saída</span>
                                     </label>
+                                    <label className="inline-flex items-center">
+                                        <input
+                                            type="radio"
+                                            className="form-radio text-gray-600"
+                                            name="type"
+                                            value="count"
+                                            checked={type === 'count'}
+                                            onChange={() => setType('count')}
+                                        />
+                                        <span className="ml-2">Inventário</span>
+                                    </label>
                                 </div>
                             </div>
 
                             <div>
-                                <label className="block text-sm font-medium text-gray-700">Quantidade</label>
+                                <label className="block text-sm font-medium text-gray-700">
+                                    {type === 'count' ? `Quantidade contada (sistema: ${product.stock_quantity})` : 'Quantidade'}
+                                </label>
                                 <input
                                     type="number"
-                                    min="1"
+                                    min={type === 'count' ? 0 : 1}
                                     required
                                     value={quantity}
                                     onChange={(e) => setQuantity(parseInt(e.target.value))}
@@ -0,0 +1,160 @@
+import jsPDF from 'jspdf';
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { formatCurrency, subtractMoney } from './money';
+import { buildPixPayload, isPixConfigured, type PixConfig } from './pix';
+
+export interface CarneSlip {
+    installment_number: number;
+    due_date: string; // yyyy-MM-dd
+    amount: number;
+}
+
+export interface CarneData {
+    clientName: string;
+    reference: string; // e.g. "Venda #1a2b3c4d"
+    referenceId: string; // Sale or renegotiation id, used in the PIX transaction id
+    totalInstallments: number;
+    installments: CarneSlip[];
+    storeName?: string;
+    pix?: PixConfig | null;
+}
+
+export interface CarneSettings {
+    storeName: string;
+    pix: PixConfig | null;
+}
+
+const SLIPS_PER_PAGE = 3;
+const SLIP_HEIGHT = 99; // A4 height / 3
+const STUB_WIDTH = 58;
+
+const formatDueDate = (value: string) => format(new Date(`${value}T00:00:00`), 'dd/MM/yyyy');
+
+export const fetchCarneSettings = async (): Promise<CarneSettings> => {
+    const { data } = await supabase
+        .from('store_settings')
+        .select('store_name, pix_key, pix_merchant_name, pix_merchant_city')
+        .maybeSingle();
+
+    const pix = {
+        key: data?.pix_key || '',
+        merchantName: data?.pix_merchant_name || '',
+        merchantCity: data?.pix_merchant_city || ''
+    };
+
+    return {
+        storeName: data?.store_name || '',
+        pix: isPixConfigured(pix) ? pix : null
+    };
+};
+
+/**
+ * Payment booklet (carnê): one detachable slip per parcel, three per A4 page.
+ * Each slip has a stub kept by the store and, when PIX is configured, a copy-and-paste code.
+ */
+export const generateCarnePdf = (data: CarneData) => {
+    const doc = new jsPDF();
+    const slips = [...data.installments].sort((a, b) => a.installment_number - b.installment_number);
+
+    slips.forEach((slip, index) => {
+        if (index > 0 && index % SLIPS_PER_PAGE === 0) doc.addPage();
+
+        const top = (index % SLIPS_PER_PAGE) * SLIP_HEIGHT;
+        const parcel = `${slip.installment_number}/${data.totalInstallments}`;
+
+        // Cut lines
+        doc.setLineDashPattern([2, 2], 0);
+        doc.setDrawColor(150);
+        if (index % SLIPS_PER_PAGE > 0) doc.line(5, top, 205, top);
+        doc.line(STUB_WIDTH + 5, top + 5, STUB_WIDTH + 5, top + SLIP_HEIGHT - 5);
+        doc.setLineDashPattern([], 0);
+        doc.setDrawColor(0);
+
+        // Stub (canhoto)
+        let y = top + 12;
+        doc.setFontSize(9);
+        doc.text('CANHOTO', 10, y);
+        doc.setFontSize(8);
+        doc.text(`Cliente: ${data.clientName}`.slice(0, 34), 10, y += 8);
+        doc.text(data.reference, 10, y += 6);
+        doc.text(`Parcela: ${parcel}`, 10, y += 6);
+        doc.text(`Vencimento: ${formatDueDate(slip.due_date)}`, 10, y += 6);
+        doc.text(`Valor: ${formatCurrency(slip.amount)}`, 10, y += 6);
+        doc.text('Pago em: ___/___/______', 10, y += 12);
+        doc.text('Visto: ______________', 10, y += 8);
+
+        // Slip
+        const left = STUB_WIDTH + 12;
+        y = top + 12;
+        doc.setFontSize(11);
+        doc.text(data.storeName || 'CARNÊ DE PAGAMENTO', left, y);
+        doc.setFontSize(8);
+        if (data.storeName) doc.text('Carnê de pagamento', left, y + 4);
+        doc.text(data.reference, 200, y, { align: 'right' });
+
+        y += 12;
+        doc.setFontSize(9);
+        doc.text(`Cliente: ${data.clientName}`, left, y);
+        doc.text(`Parcela: ${parcel}`, left, y += 7);
+        doc.text(`Vencimento: ${formatDueDate(slip.due_date)}`, left + 50, y);
+        doc.setFontSize(12);
+        doc.text(`Valor: ${formatCurrency(slip.amount)}`, left, y += 9);
+
+        doc.setFontSize(7);
+        doc.text('Após o vencimento, sujeito a multa e juros de mora.', left, y += 6);
+
+        if (data.pix) {
+            const payload = buildPixPayload(data.pix, {
+                amount: slip.amount,
+                txid: `${data.referenceId.replace(/-/g, '').slice(0, 20)}P${slip.installment_number}`
+            });
+            doc.setFontSize(8);
+            doc.text('PIX copia e cola:', left, y += 8);
+            doc.setFontSize(6);
+            doc.text(doc.splitTextToSize(payload, 200 - left), left, y += 4);
+        }
+    });
+
+    doc.save(`carne_${data.referenceId.slice(0, 8)}.pdf`);
+};
+
+interface PlanInstallment extends CarneSlip {
+    principal_paid?: number;
+    status?: string;
+}
+
+/**
+ * Prints the open parcels of a plan (a sale or a renegotiation) with the store settings.
+ * Partially paid parcels show their remaining balance. Returns false when nothing is open.
+ */
+export const printCarne = async (plan: {
+    clientName: string;
+    reference: string;
+    referenceId: string;
+    installments: PlanInstallment[];
+}) => {
+    const open = plan.installments.filter(inst => !inst.status || inst.status === 'pending' || inst.status === 'overdue');
+    if (open.length === 0) return false;
+
+    // Cancelled (returned) and renegotiated parcels are no longer part of the plan
+    const live = plan.installments.filter(inst => inst.status !== 'cancelled' && inst.status !== 'renegotiated');
+
+    const settings = await fetchCarneSettings();
+
+    generateCarnePdf({
+        clientName: plan.clientName,
+        reference: plan.reference,
+        referenceId: plan.referenceId,
+        totalInstallments: Math.max(...live.map(inst => inst.installment_number)),
+        installments: open.map(inst => ({
+            installment_number: inst.installment_number,
+            due_date: inst.due_date,
+            amount: subtractMoney(inst.amount, inst.principal_paid || 0)
+        })),
+        storeName: settings.storeName,
+        pix: settings.pix
+    });
+
+    return true;
+};
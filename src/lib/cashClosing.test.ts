@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getTransactionMethod, summarizeByMethod } from './cashClosing';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+describe('getTransactionMethod', () => {
+    it('counts movements made in cash as money', () => {
+        expect(getTransactionMethod({ type: 'withdrawal', amount: 50 })).toBe('money');
+        expect(getTransactionMethod({ type: 'return_refund', amount: -30, sale: { payment_method: 'pix' } })).toBe('money');
+        expect(getTransactionMethod({ type: 'sale', amount: 10, payment_method: 'exchange' })).toBe('money');
+    });
+
+    it('falls back on the sale method and groups card installments under credit', () => {
+        expect(getTransactionMethod({ type: 'sale', amount: 90, sale: { payment_method: 'credit_3x' } })).toBe('credit');
+        expect(getTransactionMethod({ type: 'sale', amount: 90, payment_method: 'debit', sale: { payment_method: 'multiple' } })).toBe('debit');
+    });
+
+    it('counts a cancellation under the method refunded', () => {
+        expect(getTransactionMethod({ type: 'sale_cancellation', amount: -80, payment_method: 'credit', sale: { payment_method: 'credit' } })).toBe('credit');
+        expect(getTransactionMethod({ type: 'sale_cancellation', amount: -80, payment_method: 'pix' })).toBe('pix');
+        // Older cancellations were refunded in cash whatever the sale method
+        expect(getTransactionMethod({ type: 'sale_cancellation', amount: -80, sale: { payment_method: 'pix' } })).toBe('money');
+    });
+});
+
+describe('summarizeByMethod', () => {
+    it('takes a cancelled card sale out of the card total, not out of the cash', () => {
+        expect(summarizeByMethod([
+            { type: 'opening', amount: 100 },
+            { type: 'sale', amount: 80, payment_method: 'credit' },
+            { type: 'sale', amount: 20, payment_method: 'money' },
+            { type: 'sale_cancellation', amount: -80, payment_method: 'credit' },
+            { type: 'withdrawal', amount: 50 },
+            { type: 'closing', amount: 70 }
+        ])).toEqual({ money: 70, credit: 0 });
+    });
+});
@@ -0,0 +1,195 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { formatCurrency, multiplyMoney, subtractMoney, sumMoney } from './money';
+
+export interface CashTransactionLike {
+    type: string;
+    amount: number;
+    payment_method?: string | null;
+    sale?: {
+        payment_method: string;
+    } | null;
+}
+
+export interface CashRegisterCount {
+    payment_method: string;
+    expected: number;
+    counted: number;
+    difference: number;
+}
+
+// Notes and coins in circulation, largest first
+export const cashDenominations = [200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.25, 0.1, 0.05];
+
+// Methods the operator declares when closing
+export const closingPaymentMethods = ['money', 'pix', 'debit', 'credit'];
+
+export const closingMethodLabels: Record<string, string> = {
+    money: 'Dinheiro',
+    pix: 'PIX',
+    debit: 'Débito',
+    credit: 'Crédito'
+};
+
+export const cashTransactionLabels: Record<string, string> = {
+    sale: 'Venda',
+    installment_payment: 'Recebimento',
+    opening: 'Abertura',
+    closing: 'Fechamento',
+    withdrawal: 'Sangria',
+    deposit: 'Suprimento',
+    sale_cancellation: 'Cancelamento',
+    return_refund: 'Devolução',
+    installment_reversal: 'Estorno'
+};
+
+// Movements always made in cash, whatever the method of the sale they refer to
+const cashOnlyTypes = ['opening', 'withdrawal', 'deposit', 'return_refund'];
+
+/**
+ * Payment method a transaction counts under. Mirrors public.cash_register_expected: opening,
+ * withdrawals, deposits, return refunds and exchange differences are cash; cancellations count
+ * under the method refunded (older ones, without a method, were paid out in cash); old sales
+ * only know the sale's method.
+ */
+export const getTransactionMethod = (transaction: CashTransactionLike) => {
+    if (cashOnlyTypes.includes(transaction.type)) return 'money';
+    const method = transaction.type === 'sale_cancellation'
+        ? transaction.payment_method || 'money'
+        : transaction.payment_method || transaction.sale?.payment_method || 'money';
+    if (method === 'exchange') return 'money';
+    return method.startsWith('credit_') ? 'credit' : method;
+};
+
+// Signed effect on the register: withdrawals are stored positive and subtracted
+export const getTransactionEffect = (transaction: CashTransactionLike) =>
+    transaction.type === 'withdrawal' ? subtractMoney(0, transaction.amount) : transaction.amount;
+
+export const summarizeByMethod = (transactions: CashTransactionLike[]) =>
+    transactions
+        .filter(t => t.type !== 'closing')
+        .reduce<Record<string, number>>((totals, t) => {
+            const method = getTransactionMethod(t);
+            totals[method] = sumMoney([totals[method] || 0, getTransactionEffect(t)]);
+            return totals;
+        }, {});
+
+export const sumDenominations = (counts: Record<string, number>) =>
+    sumMoney(Object.entries(counts).map(([value, quantity]) => multiplyMoney(Number(value), quantity)));
+
+/**
+ * Closing report (leitura Z): totals by transaction type, expected vs counted per payment
+ * method and the cash count by denomination.
+ */
+export const printClosingReport = async (registerId: string) => {
+    const [registerResult, countsResult, transactionsResult, { data: settings }] = await Promise.all([
+        supabase.from('cash_registers').select('*').eq('id', registerId).single(),
+        supabase.from('cash_register_counts').select('payment_method, expected, counted, difference').eq('register_id', registerId).order('payment_method'),
+        supabase
+            .from('cash_transactions')
+            .select('type, amount, payment_method, sale:sales (payment_method)')
+            .eq('register_id', registerId)
+            .overrideTypes<CashTransactionLike[], { merge: false }>(),
+        supabase.from('store_settings').select('store_name').maybeSingle()
+    ]);
+
+    if (registerResult.error) throw registerResult.error;
+    if (countsResult.error) throw countsResult.error;
+    if (transactionsResult.error) throw transactionsResult.error;
+
+    const register = registerResult.data;
+    const counts = (countsResult.data || []) as CashRegisterCount[];
+    const transactions = transactionsResult.data || [];
+
+    const { data: operator } = await supabase
+        .from('profiles')
+        .select('full_name, email')
+        .eq('id', register.user_id)
+        .maybeSingle();
+
+    const byType = Object.entries(transactions
+        .filter(t => t.type !== 'closing')
+        .reduce<Record<string, { count: number; total: number }>>((totals, t) => {
+            const current = totals[t.type] || { count: 0, total: 0 };
+            totals[t.type] = { count: current.count + 1, total: sumMoney([current.total, getTransactionEffect(t)]) };
+            return totals;
+        }, {}));
+
+    const doc = new jsPDF();
+    let y = 15;
+
+    doc.setFontSize(14);
+    doc.text('LEITURA Z - FECHAMENTO DE CAIXA', 105, y, { align: 'center' });
+    doc.setFontSize(10);
+    if (settings?.store_name) doc.text(settings.store_name, 105, y += 6, { align: 'center' });
+
+    doc.text(`Caixa nº ${register.id.slice(0, 8).toUpperCase()}`, 14, y += 10);
+    doc.text(`Operador: ${operator?.full_name || operator?.email || '-'}`, 14, y += 6);
+    doc.text(`Abertura: ${format(new Date(register.opened_at), 'dd/MM/yyyy HH:mm')}`, 14, y += 6);
+    doc.text(`Fechamento: ${register.closed_at ? format(new Date(register.closed_at), 'dd/MM/yyyy HH:mm') : '-'}`, 105, y);
+    if (register.force_closed) doc.text('Fechamento forçado pelo administrador: caixa não conferido', 14, y += 6);
+
+    autoTable(doc, {
+        head: [['Movimentação', 'Quantidade', 'Total']],
+        body: byType.map(([type, { count, total }]) => [cashTransactionLabels[type] || type, count, formatCurrency(total)]),
+        startY: y + 6,
+        styles: { fontSize: 9 },
+        didDrawPage: hook => { y = hook.cursor?.y ?? y; }
+    });
+
+    // Force-closed registers were never counted; only the expected amounts exist
+    const rows = counts.length > 0
+        ? counts
+        : Object.entries(summarizeByMethod(transactions)).map(([method, expected]) => ({ payment_method: method, expected, counted: null, difference: null }));
+
+    autoTable(doc, {
+        head: [['Forma de pagamento', 'Esperado', 'Contado', 'Diferença']],
+        body: rows.map(c => [
+            closingMethodLabels[c.payment_method] || c.payment_method,
+            formatCurrency(c.expected),
+            c.counted !== null ? formatCurrency(c.counted) : '-',
+            c.difference !== null ? formatCurrency(c.difference) : '-'
+        ]),
+        foot: [[
+            'Total',
+            formatCurrency(register.final_balance ?? 0),
+            register.counted_balance !== null ? formatCurrency(register.counted_balance) : '-',
+            register.closing_difference !== null ? formatCurrency(register.closing_difference) : '-'
+        ]],
+        startY: y + 8,
+        styles: { fontSize: 9 },
+        didDrawPage: hook => { y = hook.cursor?.y ?? y; }
+    });
+
+    const denominations = (register.denominations || {}) as Record<string, number>;
+    const counted = cashDenominations.filter(value => denominations[String(value)] > 0);
+    if (counted.length > 0) {
+        autoTable(doc, {
+            head: [['Cédula/Moeda', 'Quantidade', 'Total']],
+            body: counted.map(value => [
+                formatCurrency(value),
+                denominations[String(value)],
+                formatCurrency(multiplyMoney(value, denominations[String(value)]))
+            ]),
+            startY: y + 8,
+            styles: { fontSize: 9 },
+            didDrawPage: hook => { y = hook.cursor?.y ?? y; }
+        });
+    }
+
+    if (register.closing_notes) {
+        doc.setFontSize(9);
+        doc.text(doc.splitTextToSize(`Observações: ${register.closing_notes}`, 182), 14, y += 10);
+    }
+
+    y += 30;
+    doc.line(20, y, 90, y);
+    doc.line(120, y, 190, y);
+    doc.setFontSize(8);
+    doc.text('Operador', 55, y + 4, { align: 'center' });
+    doc.text('Conferente', 155, y + 4, { align: 'center' });
+
+    doc.save(`leitura_z_${register.id.slice(0, 8)}.pdf`);
+};
@@ -0,0 +1,85 @@
+import jsPDF from 'jspdf';
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { formatCurrency } from './money';
+
+interface VoucherTransaction {
+    id: string;
+    type: string;
+    amount: number;
+    reason: string | null;
+    destination: string | null;
+    supervisor_approved: boolean;
+    created_at: string;
+    register: {
+        user_id: string;
+    } | null;
+}
+
+export const cashDestinationLabels: Record<string, string> = {
+    bank_deposit: 'Depósito bancário',
+    safe: 'Cofre',
+    supplier_payment: 'Pagamento a fornecedor',
+    other: 'Outro'
+};
+
+/**
+ * Voucher (comprovante) for a withdrawal or deposit, kept in the envelope with the money.
+ * Signed by the operator and by whoever takes or hands over the cash.
+ */
+export const printCashMovementVoucher = async (transactionId: string) => {
+    const [{ data: transaction, error }, { data: settings }] = await Promise.all([
+        supabase
+            .from('cash_transactions')
+            .select('id, type, amount, reason, destination, supervisor_approved, created_at, register:cash_registers (user_id)')
+            .eq('id', transactionId)
+            .single()
+            .overrideTypes<VoucherTransaction, { merge: false }>(),
+        supabase
+            .from('store_settings')
+            .select('store_name')
+            .maybeSingle()
+    ]);
+
+    if (error) throw error;
+
+    const register = transaction.register;
+    const { data: operator } = register
+        ? await supabase.from('profiles').select('full_name, email').eq('id', register.user_id).maybeSingle()
+        : { data: null };
+
+    const isWithdrawal = transaction.type === 'withdrawal';
+    const doc = new jsPDF({ format: 'a6' });
+    let y = 12;
+
+    doc.setFontSize(11);
+    doc.text(settings?.store_name || 'COMPROVANTE', 52, y, { align: 'center' });
+    doc.setFontSize(10);
+    doc.text(isWithdrawal ? 'COMPROVANTE DE SANGRIA' : 'COMPROVANTE DE SUPRIMENTO', 52, y += 6, { align: 'center' });
+
+    doc.setFontSize(8);
+    doc.text(`Nº ${transaction.id.slice(0, 8).toUpperCase()}`, 8, y += 10);
+    doc.text(format(new Date(transaction.created_at), 'dd/MM/yyyy HH:mm'), 97, y, { align: 'right' });
+
+    doc.setFontSize(14);
+    doc.text(formatCurrency(transaction.amount), 52, y += 12, { align: 'center' });
+
+    doc.setFontSize(8);
+    doc.text(doc.splitTextToSize(`Motivo: ${transaction.reason || '-'}`, 89), 8, y += 10);
+    if (isWithdrawal) {
+        doc.text(`Destino: ${transaction.destination ? cashDestinationLabels[transaction.destination] : '-'}`, 8, y += 8);
+    }
+    doc.text(`Operador: ${operator?.full_name || operator?.email || '-'}`, 8, y += 5);
+    if (transaction.supervisor_approved) {
+        doc.text('Autorizado com PIN do supervisor', 8, y += 5);
+    }
+
+    y += 20;
+    doc.line(8, y, 48, y);
+    doc.line(56, y, 97, y);
+    doc.setFontSize(7);
+    doc.text('Operador', 28, y + 4, { align: 'center' });
+    doc.text(isWithdrawal ? 'Recebido por' : 'Entregue por', 76, y + 4, { align: 'center' });
+
+    doc.save(`${isWithdrawal ? 'sangria' : 'suprimento'}_${transaction.id.slice(0, 8)}.pdf`);
+};
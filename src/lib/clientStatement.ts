@@ -0,0 +1,194 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { formatCurrency, subtractMoney, sumMoney } from './money';
+
+export interface StatementSale {
+    id: string;
+    created_at: string;
+    total_amount: number;
+    status: 'completed' | 'cancelled';
+    cancelled_at: string | null;
+    payments: {
+        method: string;
+        amount: number;
+    }[];
+}
+
+export interface StatementInstallment {
+    id: string;
+    sale_id: string | null;
+    renegotiation_id: string | null;
+    installment_number: number;
+    due_date: string; // yyyy-MM-dd
+    amount: number;
+    principal_paid: number;
+    status: string;
+    payments: {
+        id: string;
+        amount: number;
+        late_fee: number;
+        interest: number;
+        total: number;
+        paid_at: string;
+        reversed_at: string | null;
+    }[];
+}
+
+export interface StatementRenegotiation {
+    id: string;
+    created_at: string;
+    original_amount: number;
+    new_amount: number;
+    installments_count: number;
+}
+
+export interface StatementEntry {
+    date: string;
+    description: string;
+    debit: number; // Increases what the client owes
+    credit: number; // Decreases it
+    balance: number;
+}
+
+const saleReference = (saleId: string) => `Venda #${saleId.slice(0, 8)}`;
+
+const parcelReference = (inst: StatementInstallment) =>
+    `${inst.installment_number}ª parcela - ${inst.sale_id ? saleReference(inst.sale_id) : `Acordo #${(inst.renegotiation_id || '').slice(0, 8)}`}`;
+
+/**
+ * Client statement (extrato) with a running balance of what the client owes on installments.
+ * A sale is debited in full and the part paid at the counter credited right away, so only the
+ * financed part stays in the balance. Late charges are paid on the spot and are only mentioned.
+ */
+export const buildStatement = (
+    data: { sales: StatementSale[]; installments: StatementInstallment[]; renegotiations: StatementRenegotiation[] },
+    from: Date,
+    to: Date
+) => {
+    const movements: Omit<StatementEntry, 'balance'>[] = [];
+
+    data.sales.forEach(sale => {
+        const paidAtCounter = sumMoney(sale.payments.filter(p => p.method !== 'installment').map(p => p.amount));
+
+        movements.push({ date: sale.created_at, description: `${saleReference(sale.id)} - compra`, debit: sale.total_amount, credit: 0 });
+        if (paidAtCounter > 0) {
+            movements.push({ date: sale.created_at, description: `${saleReference(sale.id)} - pago no caixa`, debit: 0, credit: paidAtCounter });
+        }
+
+        // Cancelling drops the open parcels and gives back what was paid
+        if (sale.status === 'cancelled' && sale.cancelled_at) {
+            const cancelledBalance = sumMoney(data.installments
+                .filter(inst => inst.sale_id === sale.id && inst.status === 'cancelled')
+                .map(inst => subtractMoney(inst.amount, inst.principal_paid)));
+
+            movements.push({
+                date: sale.cancelled_at,
+                description: `${saleReference(sale.id)} - cancelamento`,
+                debit: subtractMoney(sale.total_amount, cancelledBalance),
+                credit: sale.total_amount
+            });
+        }
+    });
+
+    data.installments.forEach(inst => {
+        inst.payments.forEach(payment => {
+            const charges = sumMoney([payment.late_fee, payment.interest]);
+            movements.push({
+                date: payment.paid_at,
+                description: `Pagamento ${parcelReference(inst)}${charges > 0 ? ` (+ ${formatCurrency(charges)} de multa/juros)` : ''}`,
+                debit: 0,
+                credit: payment.amount
+            });
+            if (payment.reversed_at) {
+                movements.push({ date: payment.reversed_at, description: `Estorno do pagamento ${parcelReference(inst)}`, debit: payment.amount, credit: 0 });
+            }
+        });
+    });
+
+    data.renegotiations.forEach(ren => {
+        const reference = `Acordo #${ren.id.slice(0, 8)}`;
+        movements.push({ date: ren.created_at, description: `${reference} - dívida renegociada`, debit: 0, credit: ren.original_amount });
+        movements.push({ date: ren.created_at, description: `${reference} - novo plano em ${ren.installments_count}x`, debit: ren.new_amount, credit: 0 });
+    });
+
+    // Stable sort keeps each debit before its matching credit
+    movements.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    let balance = 0;
+    let openingBalance = 0;
+    const entries: StatementEntry[] = [];
+
+    movements.forEach(movement => {
+        balance = subtractMoney(sumMoney([balance, movement.debit]), movement.credit);
+        const date = new Date(movement.date);
+        if (date < from) openingBalance = balance;
+        else if (date <= to) entries.push({ ...movement, balance });
+    });
+
+    return {
+        openingBalance,
+        entries,
+        closingBalance: entries.length > 0 ? entries[entries.length - 1].balance : openingBalance
+    };
+};
+
+export const generateStatementPdf = (data: {
+    clientName: string;
+    from: string; // yyyy-MM-dd
+    to: string;
+    statement: ReturnType<typeof buildStatement>;
+    openInstallments: StatementInstallment[];
+    storeCredit: number;
+}) => {
+    const doc = new jsPDF();
+    const period = `${format(new Date(`${data.from}T00:00:00`), 'dd/MM/yyyy')} a ${format(new Date(`${data.to}T00:00:00`), 'dd/MM/yyyy')}`;
+    let y = 15;
+
+    doc.setFontSize(14);
+    doc.text('EXTRATO DO CLIENTE', 105, y, { align: 'center' });
+    doc.setFontSize(10);
+    doc.text(`Cliente: ${data.clientName}`, 14, y += 10);
+    doc.text(`Período: ${period}`, 14, y += 6);
+    doc.text(`Emitido em: ${format(new Date(), 'dd/MM/yyyy HH:mm')}`, 196, y, { align: 'right' });
+
+    autoTable(doc, {
+        head: [['Data', 'Descrição', 'Débito', 'Crédito', 'Saldo']],
+        body: [
+            ['', 'Saldo anterior', '', '', formatCurrency(data.statement.openingBalance)],
+            ...data.statement.entries.map(entry => [
+                format(new Date(entry.date), 'dd/MM/yyyy'),
+                entry.description,
+                entry.debit > 0 ? formatCurrency(entry.debit) : '',
+                entry.credit > 0 ? formatCurrency(entry.credit) : '',
+                formatCurrency(entry.balance)
+            ])
+        ],
+        foot: [['', 'Saldo final', '', '', formatCurrency(data.statement.closingBalance)]],
+        startY: y + 6,
+        styles: { fontSize: 8 },
+        didDrawPage: hook => { y = hook.cursor?.y ?? y; }
+    });
+
+    if (data.openInstallments.length > 0) {
+        doc.text('Parcelas em aberto:', 14, y += 10);
+        autoTable(doc, {
+            head: [['Parcela', 'Vencimento', 'Valor', 'Saldo']],
+            body: data.openInstallments.map(inst => [
+                parcelReference(inst),
+                format(new Date(`${inst.due_date}T00:00:00`), 'dd/MM/yyyy'),
+                formatCurrency(inst.amount),
+                formatCurrency(subtractMoney(inst.amount, inst.principal_paid))
+            ]),
+            startY: y + 2,
+            styles: { fontSize: 8 },
+            didDrawPage: hook => { y = hook.cursor?.y ?? y; }
+        });
+    }
+
+    if (data.storeCredit > 0) {
+        doc.text(`Crédito disponível na loja: ${formatCurrency(data.storeCredit)}`, 14, y += 10);
+    }
+
+    doc.save(`extrato_${data.clientName.replace(/\s+/g, '_').toLowerCase()}_${data.from}_${data.to}.pdf`);
+};
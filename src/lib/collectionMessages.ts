@@ -0,0 +1,47 @@
+// Collection reminders: templates with {placeholders} filled in per client, sent through
+// WhatsApp (wa.me link), e-mail (mailto link) or copied as plain text for SMS.
+
+export interface CollectionTemplate {
+    id: string;
+    name: string;
+    subject: string | null;
+    body: string;
+}
+
+export interface CollectionMessageValues {
+    nome: string;
+    valor: string;
+    parcelas: string;
+    vencimento: string;
+    dias_atraso: string;
+    pix: string;
+    loja: string;
+}
+
+export const collectionPlaceholders: { key: keyof CollectionMessageValues; description: string }[] = [
+    { key: 'nome', description: 'Nome do cliente' },
+    { key: 'valor', description: 'Valor em aberto' },
+    { key: 'parcelas', description: 'Quantidade de parcelas' },
+    { key: 'vencimento', description: 'Vencimento mais antigo' },
+    { key: 'dias_atraso', description: 'Dias de atraso' },
+    { key: 'pix', description: 'PIX copia e cola' },
+    { key: 'loja', description: 'Nome da loja' }
+];
+
+export const renderTemplate = (text: string, values: CollectionMessageValues) =>
+    text.replace(/\{(\w+)\}/g, (match, key: string) =>
+        key in values ? values[key as keyof CollectionMessageValues] : match
+    );
+
+// Brazilian numbers without the country code get +55
+export const toWhatsAppNumber = (phone: string) => {
+    const digits = phone.replace(/\D/g, '').replace(/^0+/, '');
+    if (digits.length === 10 || digits.length === 11) return `55${digits}`;
+    return digits;
+};
+
+export const buildWhatsAppLink = (phone: string, text: string) =>
+    `https://wa.me/${toWhatsAppNumber(phone)}?text=${encodeURIComponent(text)}`;
+
+export const buildMailtoLink = (email: string, subject: string, text: string) =>
+    `mailto:${email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(text)}`;
@@ -0,0 +1,140 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { formatCurrency, sumMoney } from './money';
+import { formatPaymentMethod } from './paymentMethods';
+
+interface ReceiptPayment {
+    id: string;
+    amount: number;
+    late_fee: number;
+    interest: number;
+    total: number;
+    payment_method: string | null;
+    paid_at: string;
+    reversed_at: string | null;
+    installment: {
+        installment_number: number;
+        due_date: string;
+        amount: number;
+        sale_id: string | null;
+        renegotiation_id: string | null;
+        client: {
+            name: string;
+        } | null;
+    } | null;
+    user: {
+        full_name: string | null;
+        email: string;
+    } | null;
+}
+
+const getReference = (payment: ReceiptPayment) => {
+    if (payment.installment?.sale_id) return `Venda #${payment.installment.sale_id.slice(0, 8)}`;
+    if (payment.installment?.renegotiation_id) return `Acordo #${payment.installment.renegotiation_id.slice(0, 8)}`;
+    return '-';
+};
+
+/**
+ * Receipt (recibo) for one or more installment payments of the same client.
+ * Several payments produce a single consolidated receipt; reversed payments are left out.
+ */
+export const printInstallmentReceipt = async (paymentIds: string[]) => {
+    const [{ data, error }, { data: settings }] = await Promise.all([
+        supabase
+            .from('installment_payments')
+            .select(`
+                id,
+                amount,
+                late_fee,
+                interest,
+                total,
+                payment_method,
+                paid_at,
+                reversed_at,
+                installment:installments (
+                    installment_number,
+                    due_date,
+                    amount,
+                    sale_id,
+                    renegotiation_id,
+                    client:clients (name)
+                ),
+                user:profiles!user_id (full_name, email)
+            `)
+            .in('id', paymentIds)
+            .order('paid_at')
+            .overrideTypes<ReceiptPayment[], { merge: false }>(),
+        supabase
+            .from('store_settings')
+            .select('store_name')
+            .maybeSingle()
+    ]);
+
+    if (error) throw error;
+
+    const payments = (data || []).filter(p => !p.reversed_at);
+    if (payments.length === 0) throw new Error('Nenhum recebimento válido para o recibo');
+
+    const first = payments[0];
+    const clientName = first.installment?.client?.name || 'Cliente';
+    const total = sumMoney(payments.map(p => p.total));
+    const methods = [...new Set(payments.map(p => p.payment_method ? formatPaymentMethod(p.payment_method) : '-'))];
+    const operators = [...new Set(payments.map(p => p.user?.full_name || p.user?.email || '-'))];
+
+    const doc = new jsPDF({ format: 'a5' });
+    let y = 15;
+
+    doc.setFontSize(12);
+    doc.text(settings?.store_name || 'RECIBO', 74, y, { align: 'center' });
+    if (settings?.store_name) {
+        doc.setFontSize(10);
+        doc.text('RECIBO DE PAGAMENTO', 74, y += 6, { align: 'center' });
+    }
+
+    doc.setFontSize(8);
+    doc.text(`Recibo nº ${first.id.slice(0, 8).toUpperCase()}`, 10, y += 10);
+    doc.text(`Data: ${format(new Date(first.paid_at), 'dd/MM/yyyy HH:mm')}`, 138, y, { align: 'right' });
+
+    doc.setFontSize(9);
+    doc.text(
+        doc.splitTextToSize(
+            `Recebemos de ${clientName} a importância de ${formatCurrency(total)} referente ` +
+            (payments.length > 1 ? `às ${payments.length} parcelas abaixo:` : 'à parcela abaixo:'),
+            128
+        ),
+        10,
+        y += 8
+    );
+
+    autoTable(doc, {
+        head: [['Referência', 'Parcela', 'Vencimento', 'Valor parcela', 'Pago', 'Multa/Juros', 'Total']],
+        body: payments.map(p => [
+            getReference(p),
+            `${p.installment?.installment_number ?? '-'}ª`,
+            p.installment ? format(new Date(`${p.installment.due_date}T00:00:00`), 'dd/MM/yyyy') : '-',
+            formatCurrency(p.installment?.amount ?? 0),
+            formatCurrency(p.amount),
+            formatCurrency(sumMoney([p.late_fee, p.interest])),
+            formatCurrency(p.total)
+        ]),
+        startY: y + 8,
+        margin: { left: 10, right: 10 },
+        styles: { fontSize: 7 },
+        headStyles: { fontSize: 7 },
+        didDrawPage: hook => { y = hook.cursor?.y ?? y; }
+    });
+
+    doc.setFontSize(10);
+    doc.text(`TOTAL PAGO: ${formatCurrency(total)}`, 10, y += 8);
+    doc.setFontSize(8);
+    doc.text(`Forma de pagamento: ${methods.join(', ')}`, 10, y += 6);
+    doc.text(`Operador: ${operators.join(', ')}`, 10, y += 5);
+
+    y += 20;
+    doc.line(34, y, 114, y);
+    doc.text(settings?.store_name || 'Assinatura', 74, y + 4, { align: 'center' });
+
+    doc.save(`recibo_${first.id.slice(0, 8)}.pdf`);
+};
@@ -0,0 +1,62 @@
+import { addDays, addMonths, addWeeks, format } from 'date-fns';
+import { splitAmount } from './money';
+
+export type ScheduleInterval = 'monthly' | 'days' | 'weekly';
+
+export interface ScheduleOptions {
+    financedAmount: number;
+    count: number;
+    firstDueDate: string; // yyyy-MM-dd
+    interval: ScheduleInterval;
+    intervalDays?: number; // Only used with 'days'
+}
+
+export interface ScheduledInstallment {
+    installment_number: number;
+    due_date: string; // yyyy-MM-dd
+    amount: number;
+}
+
+export const scheduleIntervalLabels: Record<ScheduleInterval, string> = {
+    monthly: 'Mensal (mesmo dia)',
+    days: 'A cada N dias',
+    weekly: 'Semanal'
+};
+
+// Parse yyyy-MM-dd as a local date (new Date('yyyy-MM-dd') would be UTC midnight)
+export const parseLocalDate = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+/**
+ * Builds the installments rows for the financed part of a sale.
+ * Monthly schedules keep the day of the first due date (clamped to the end of shorter months).
+ */
+export const generateInstallmentSchedule = ({
+    financedAmount,
+    count,
+    firstDueDate,
+    interval,
+    intervalDays = 30
+}: ScheduleOptions): ScheduledInstallment[] => {
+    if (count < 1 || financedAmount <= 0 || !firstDueDate) return [];
+
+    const first = parseLocalDate(firstDueDate);
+    // Parcels add up exactly to the financed amount; leftover cents go onto the first ones
+    const amounts = splitAmount(financedAmount, count);
+
+    return Array.from({ length: count }).map((_, index) => {
+        const dueDate = interval === 'monthly'
+            ? addMonths(first, index)
+            : interval === 'weekly'
+                ? addWeeks(first, index)
+                : addDays(first, intervalDays * index);
+
+        return {
+            installment_number: index + 1,
+            due_date: format(dueDate, 'yyyy-MM-dd'),
+            amount: amounts[index]
+        };
+    });
+};
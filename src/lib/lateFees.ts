@@ -0,0 +1,38 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { multiplyMoney, roundMoney, sumMoney } from './money';
+import { parseLocalDate } from './installmentSchedule';
+
+export interface LateFeeSettings {
+    late_fee_percent: number;
+    daily_interest_percent: number;
+    late_fee_grace_days: number;
+}
+
+export interface LateCharges {
+    daysLate: number;
+    lateFee: number;
+    interest: number;
+    total: number;
+}
+
+/**
+ * Late fee (multa) and daily interest (juros de mora) for a parcel paid on `paidOn`.
+ * Mirrors public.installment_charges so the payment modal shows what the database will record.
+ */
+export const calculateLateCharges = (
+    amount: number,
+    dueDate: string,
+    paidOn: string,
+    settings: LateFeeSettings | null
+): LateCharges => {
+    const daysLate = Math.max(0, differenceInCalendarDays(parseLocalDate(paidOn), parseLocalDate(dueDate)));
+
+    if (!settings || daysLate === 0 || daysLate <= settings.late_fee_grace_days) {
+        return { daysLate, lateFee: 0, interest: 0, total: amount };
+    }
+
+    const lateFee = roundMoney(amount * settings.late_fee_percent / 100);
+    const interest = roundMoney(multiplyMoney(amount, daysLate) * settings.daily_interest_percent / 100);
+
+    return { daysLate, lateFee, interest, total: sumMoney([amount, lateFee, interest]) };
+};
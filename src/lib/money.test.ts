@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChange, splitAmount, sumMoney } from './money';
+
+describe('splitAmount', () => {
+    it('puts the leftover cents on the first parcels by default', () => {
+        expect(splitAmount(100, 3)).toEqual([33.34, 33.33, 33.33]);
+        expect(splitAmount(10, 4)).toEqual([2.5, 2.5, 2.5, 2.5]);
+        expect(splitAmount(0.05, 3)).toEqual([0.02, 0.02, 0.01]);
+    });
+
+    it('puts the leftover cents on the last parcels when asked', () => {
+        expect(splitAmount(100, 3, 'last')).toEqual([33.33, 33.33, 33.34]);
+        expect(splitAmount(0.05, 3, 'last')).toEqual([0.01, 0.02, 0.02]);
+    });
+
+    it('always adds up to the amount', () => {
+        for (const [amount, parts] of [[100, 3], [199.99, 7], [1234.56, 12], [0.01, 5]]) {
+            const split = splitAmount(amount, parts);
+            expect(split).toHaveLength(parts);
+            expect(sumMoney(split)).toBe(amount);
+        }
+    });
+
+    it('returns no parcels for fewer than one part', () => {
+        expect(splitAmount(100, 0)).toEqual([]);
+        expect(splitAmount(100, -2)).toEqual([]);
+    });
+});
+
+describe('calculateChange', () => {
+    it('returns the change when the client pays more', () => {
+        expect(calculateChange(50, 37.45)).toBe(12.55);
+        expect(calculateChange(0.3, 0.1)).toBe(0.2);
+    });
+
+    it('returns zero when the payment is exact', () => {
+        expect(calculateChange(37.45, 37.45)).toBe(0);
+    });
+
+    it('never returns negative change', () => {
+        expect(calculateChange(20, 37.45)).toBe(0);
+        expect(calculateChange(0, 0.01)).toBe(0);
+    });
+});
+
+describe('sumMoney', () => {
+    it('adds decimals without floating point drift', () => {
+        expect(0.1 + 0.2).not.toBe(0.3);
+        expect(sumMoney([0.1, 0.2])).toBe(0.3);
+        expect(sumMoney([1.005, 2.675])).toBe(3.69);
+        expect(sumMoney(Array(10).fill(0.1))).toBe(1);
+    });
+
+    it('handles negative values and an empty list', () => {
+        expect(sumMoney([10, -0.3, -0.7])).toBe(9);
+        expect(sumMoney([])).toBe(0);
+    });
+});
@@ -0,0 +1,42 @@
+// Money helpers. Amounts travel as reais (numbers with 2 decimals, like the numeric(12,2)
+// columns) but every calculation is done in integer cents so totals never drift.
+
+export const toCents = (value: number) => Math.round(Number((value * 100).toPrecision(15)));
+
+export const fromCents = (cents: number) => cents / 100;
+
+export const roundMoney = (value: number) => fromCents(toCents(value));
+
+export const sumMoney = (values: number[]) => fromCents(values.reduce((sum, value) => sum + toCents(value), 0));
+
+export const subtractMoney = (value: number, ...amounts: number[]) =>
+    fromCents(amounts.reduce((cents, amount) => cents - toCents(amount), toCents(value)));
+
+export const multiplyMoney = (price: number, quantity: number) => fromCents(toCents(price) * quantity);
+
+// Change owed when the client hands over more than the total (never negative)
+export const calculateChange = (paid: number, total: number) => fromCents(Math.max(0, toCents(paid) - toCents(total)));
+
+/**
+ * Splits an amount into `parts` values that add up exactly to it.
+ * The leftover cents go one by one onto the first (or last) parcels, so 100 / 3 = 33.34 + 33.33 + 33.33.
+ */
+export const splitAmount = (amount: number, parts: number, remainderOn: 'first' | 'last' = 'first') => {
+    if (parts < 1) return [];
+
+    const cents = toCents(amount);
+    const base = Math.trunc(cents / parts);
+    const remainder = cents - base * parts;
+
+    return Array.from({ length: parts }).map((_, index) => {
+        const position = remainderOn === 'first' ? index : parts - 1 - index;
+        return fromCents(base + (position < Math.abs(remainder) ? Math.sign(remainder) : 0));
+    });
+};
+
+export const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+        style: 'currency',
+        currency: 'BRL'
+    }).format(value);
+};
@@ -0,0 +1,19 @@
+// Labels for the payment_method values stored on sales, sale payments and cash transactions.
+
+export const paymentMethodLabels: Record<string, string> = {
+    money: 'Dinheiro',
+    pix: 'PIX',
+    debit: 'Débito',
+    credit: 'Crédito',
+    store_credit: 'Crédito da loja',
+    exchange: 'Troca',
+    installment: 'Parcelado',
+    multiple: 'Múltiplas'
+};
+
+// Older sales stored card installments as credit_card_Nx or credit_Nx
+export const formatPaymentMethod = (method: string) => {
+    const installments = method.match(/^credit(?:_card)?_(\d+x)$/)?.[1];
+    if (installments) return `Crédito (${installments})`;
+    return paymentMethodLabels[method] || method;
+};
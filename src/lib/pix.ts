@@ -0,0 +1,58 @@
+// PIX "copia e cola" (BR Code) for static charges, following the EMV QRCPS layout
+// published by the Banco Central do Brasil.
+
+export interface PixConfig {
+    key: string;
+    merchantName: string;
+    merchantCity: string;
+}
+
+interface PixChargeOptions {
+    amount: number;
+    txid?: string; // Up to 25 letters/digits, shown on the store's bank statement
+}
+
+const field = (id: string, value: string) => `${id}${value.length.toString().padStart(2, '0')}${value}`;
+
+// Names and cities must be plain ASCII in upper case
+const normalize = (value: string, maxLength: number) =>
+    value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^A-Za-z0-9 ]/g, '')
+        .toUpperCase()
+        .trim()
+        .slice(0, maxLength);
+
+// CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF)
+const crc16 = (payload: string) => {
+    let crc = 0xFFFF;
+    for (let i = 0; i < payload.length; i++) {
+        crc ^= payload.charCodeAt(i) << 8;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+            crc &= 0xFFFF;
+        }
+    }
+    return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+export const isPixConfigured = (config: PixConfig | null): config is PixConfig =>
+    !!config && !!config.key.trim() && !!config.merchantName.trim() && !!config.merchantCity.trim();
+
+export const buildPixPayload = (config: PixConfig, { amount, txid }: PixChargeOptions) => {
+    const payload = [
+        field('00', '01'),
+        field('26', field('00', 'br.gov.bcb.pix') + field('01', config.key.trim())),
+        field('52', '0000'),
+        field('53', '986'),
+        field('54', amount.toFixed(2)),
+        field('58', 'BR'),
+        field('59', normalize(config.merchantName, 25)),
+        field('60', normalize(config.merchantCity, 15)),
+        field('62', field('05', (txid || '').replace(/[^A-Za-z0-9]/g, '').slice(0, 25) || '***')),
+        '6304'
+    ].join('');
+
+    return payload + crc16(payload);
+};
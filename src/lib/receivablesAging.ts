@@ -0,0 +1,99 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { subtractMoney, sumMoney } from './money';
+
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_90_plus';
+
+export const agingBuckets: AgingBucket[] = ['current', 'days_1_30', 'days_31_60', 'days_61_90', 'days_90_plus'];
+
+export const agingBucketLabels: Record<AgingBucket, string> = {
+    current: 'A vencer',
+    days_1_30: '1–30 dias',
+    days_31_60: '31–60 dias',
+    days_61_90: '61–90 dias',
+    days_90_plus: '90+ dias'
+};
+
+export interface AgingInstallment {
+    id: string;
+    sale_id: string | null;
+    renegotiation_id: string | null;
+    installment_number: number;
+    due_date: string; // yyyy-MM-dd
+    amount: number;
+    principal_paid: number;
+    client: {
+        id: string;
+        name: string;
+    };
+}
+
+export interface AgingParcel extends AgingInstallment {
+    balance: number;
+    daysOverdue: number;
+    bucket: AgingBucket;
+}
+
+export interface AgingRow {
+    clientId: string;
+    clientName: string;
+    buckets: Record<AgingBucket, number>;
+    total: number;
+    parcels: AgingParcel[];
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+    current: 0,
+    days_1_30: 0,
+    days_31_60: 0,
+    days_61_90: 0,
+    days_90_plus: 0
+});
+
+export const getAgingBucket = (daysOverdue: number): AgingBucket => {
+    if (daysOverdue <= 0) return 'current';
+    if (daysOverdue <= 30) return 'days_1_30';
+    if (daysOverdue <= 60) return 'days_31_60';
+    if (daysOverdue <= 90) return 'days_61_90';
+    return 'days_90_plus';
+};
+
+/**
+ * Groups the open balance (principal not yet paid) of each parcel by client and by days overdue
+ * on the given date. Late charges are not included: they are only computed when the parcel is paid.
+ */
+export const buildAgingReport = (installments: AgingInstallment[], asOf: Date) => {
+    const rows: Record<string, AgingRow> = {};
+    const totals = emptyBuckets();
+
+    installments.forEach(inst => {
+        const balance = subtractMoney(inst.amount, inst.principal_paid);
+        if (balance <= 0) return;
+
+        const daysOverdue = Math.max(0, differenceInCalendarDays(asOf, new Date(`${inst.due_date}T00:00:00`)));
+        const bucket = getAgingBucket(daysOverdue);
+
+        if (!rows[inst.client.id]) {
+            rows[inst.client.id] = {
+                clientId: inst.client.id,
+                clientName: inst.client.name,
+                buckets: emptyBuckets(),
+                total: 0,
+                parcels: []
+            };
+        }
+
+        const row = rows[inst.client.id];
+        row.buckets[bucket] = sumMoney([row.buckets[bucket], balance]);
+        row.total = sumMoney([row.total, balance]);
+        row.parcels.push({ ...inst, balance, daysOverdue, bucket });
+        totals[bucket] = sumMoney([totals[bucket], balance]);
+    });
+
+    return {
+        rows: Object.values(rows)
+            .map(row => ({ ...row, parcels: row.parcels.sort((a, b) => a.due_date.localeCompare(b.due_date)) }))
+            .sort((a, b) => a.clientName.localeCompare(b.clientName)),
+        totals,
+        total: sumMoney(Object.values(totals))
+    };
+};
@@ -0,0 +1,115 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { formatCurrency } from './money';
+
+interface AgreementInstallment {
+    installment_number: number;
+    due_date: string; // yyyy-MM-dd
+    amount: number;
+}
+
+export interface AgreementData {
+    renegotiationId: string;
+    createdAt: string;
+    clientName: string;
+    originalInstallments: AgreementInstallment[]; // Open balance of each replaced parcel
+    originalAmount: number;
+    discount: number;
+    addition: number;
+    newAmount: number;
+    newInstallments: AgreementInstallment[];
+    notes?: string | null;
+}
+
+const formatDueDate = (value: string) => format(new Date(`${value}T00:00:00`), 'dd/MM/yyyy');
+
+/**
+ * Renegotiation agreement (termo de renegociação) to be printed and signed by the client.
+ */
+export const generateAgreementPdf = (data: AgreementData) => {
+    const doc = new jsPDF();
+    let y = 20;
+
+    doc.setFontSize(14);
+    doc.text('TERMO DE RENEGOCIAÇÃO DE DÍVIDA', 105, y, { align: 'center' });
+
+    y += 12;
+    doc.setFontSize(10);
+    doc.text(`Acordo nº ${data.renegotiationId.slice(0, 8).toUpperCase()}`, 14, y);
+    doc.text(`Data: ${format(new Date(data.createdAt), 'dd/MM/yyyy HH:mm')}`, 196, y, { align: 'right' });
+    y += 6;
+    doc.text(`Cliente: ${data.clientName}`, 14, y);
+
+    y += 8;
+    doc.text('Parcelas renegociadas:', 14, y);
+    autoTable(doc, {
+        head: [['Parcela', 'Vencimento', 'Saldo em aberto']],
+        body: data.originalInstallments.map(inst => [
+            `${inst.installment_number}ª`,
+            formatDueDate(inst.due_date),
+            formatCurrency(inst.amount)
+        ]),
+        startY: y + 2,
+        didDrawPage: hook => { y = hook.cursor?.y ?? y; }
+    });
+
+    y += 8;
+    doc.text(`Dívida original: ${formatCurrency(data.originalAmount)}`, 14, y);
+    if (data.discount > 0) {
+        y += 6;
+        doc.text(`Desconto: - ${formatCurrency(data.discount)}`, 14, y);
+    }
+    if (data.addition > 0) {
+        y += 6;
+        doc.text(`Juros / encargos: + ${formatCurrency(data.addition)}`, 14, y);
+    }
+    y += 6;
+    doc.setFontSize(11);
+    doc.text(`Novo valor total: ${formatCurrency(data.newAmount)} em ${data.newInstallments.length}x`, 14, y);
+    doc.setFontSize(10);
+
+    y += 8;
+    doc.text('Novo plano de pagamento:', 14, y);
+    autoTable(doc, {
+        head: [['Parcela', 'Vencimento', 'Valor']],
+        body: data.newInstallments.map(inst => [
+            `${inst.installment_number}ª`,
+            formatDueDate(inst.due_date),
+            formatCurrency(inst.amount)
+        ]),
+        startY: y + 2,
+        didDrawPage: hook => { y = hook.cursor?.y ?? y; }
+    });
+
+    if (data.notes) {
+        y += 8;
+        doc.text(doc.splitTextToSize(`Observações: ${data.notes}`, 182), 14, y);
+        y += 6;
+    }
+
+    y += 8;
+    doc.setFontSize(9);
+    doc.text(
+        doc.splitTextToSize(
+            'O cliente reconhece a dívida acima e concorda com o novo plano de pagamento, que substitui as parcelas renegociadas. ' +
+            'O atraso no pagamento das novas parcelas está sujeito a multa e juros de mora.',
+            182
+        ),
+        14,
+        y
+    );
+
+    // Signatures (new page if there is no room left)
+    if (y > 250) {
+        doc.addPage();
+        y = 20;
+    }
+    y += 30;
+    doc.line(14, y, 94, y);
+    doc.line(116, y, 196, y);
+    doc.text(data.clientName, 54, y + 5, { align: 'center' });
+    doc.text('Loja', 156, y + 5, { align: 'center' });
+
+    doc.save(`acordo_${data.renegotiationId.slice(0, 8)}.pdf`);
+};
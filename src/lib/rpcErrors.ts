@@ -0,0 +1,89 @@
+// Database functions (see update_schema_*.sql) raise exceptions whose message is a
+// short error code. This maps those codes to messages shown to the operator.
+
+interface RpcError {
+    message?: string;
+    details?: string | null;
+    hint?: string | null;
+}
+
+const rpcErrorMessages: { [code: string]: string | ((error: RpcError) => string) } = {
+    not_authenticated: 'Sessão expirada. Faça login novamente.',
+    not_authorized: 'Você não tem permissão para esta operação.',
+    client_not_found: 'Cliente não encontrado.',
+    empty_cart: 'Carrinho vazio.',
+    invalid_quantity: 'Quantidade inválida.',
+    product_not_found: 'Produto não encontrado.',
+    // Stock is checked again inside the transaction, so this means someone else
+    // changed it after this screen was loaded
+    insufficient_stock: ({ details, hint }) =>
+        `Alguém acabou de vender ${details || 'este produto'}. Estoque disponível agora: ${hint ?? 0}.`,
+    // Manual adjustments are only validated in the database, against the current balance
+    stock_conflict: ({ details, hint }) =>
+        `O estoque de ${details || 'este produto'} não pode ficar negativo. Estoque atual: ${hint ?? 0}.`,
+    stock_direct_update: 'O estoque só muda por ajuste, compra, venda ou devolução.',
+    no_open_register: 'Nenhum caixa aberto. Abra o caixa antes de movimentar dinheiro.',
+    insufficient_payment: 'Valor pago insuficiente.',
+    payment_required: 'Informe ao menos uma forma de pagamento.',
+    invalid_payment: 'Forma de pagamento ou valor inválido.',
+    overpayment: 'Somente o pagamento em dinheiro pode exceder o total da venda (troco).',
+    installment_not_found: 'Parcela não encontrada.',
+    installment_not_open: 'Esta parcela não está em aberto.',
+    invalid_payment_date: 'A data do pagamento não pode ser futura.',
+    backdate_not_authorized: 'Somente administradores podem registrar pagamentos com data anterior a hoje.',
+    invalid_payment_amount: ({ hint }) =>
+        `Valor inválido. Saldo em aberto da parcela: R$ ${Number(hint ?? 0).toFixed(2)}.`,
+    no_installments_selected: 'Selecione ao menos uma parcela.',
+    mixed_clients: 'As parcelas selecionadas devem ser do mesmo cliente.',
+    payment_not_found: 'Recebimento não encontrado.',
+    payment_already_reversed: 'Este recebimento já foi estornado.',
+    empty_renegotiation: 'Selecione ao menos uma parcela para renegociar.',
+    invalid_renegotiation: 'O desconto não pode ser maior que a dívida.',
+    installments_mismatch: 'A soma das parcelas não confere com o total da venda.',
+    reason_required: 'Informe o motivo.',
+    sale_not_found: 'Venda não encontrada.',
+    sale_already_cancelled: 'Esta venda já foi cancelada.',
+    sale_renegotiated: 'As parcelas desta venda foram renegociadas. Ajuste o acordo em vez de cancelar a venda.',
+    sale_has_returns: 'Esta venda possui devoluções e não pode ser cancelada. Devolva os itens restantes.',
+    sale_item_not_found: 'Item não pertence a esta venda.',
+    empty_return: 'Selecione ao menos um item para devolver.',
+    invalid_return_quantity: 'Quantidade devolvida maior que a quantidade disponível para devolução.',
+    invalid_refund_method: 'Forma de reembolso inválida.',
+    insufficient_store_credit: ({ hint }) =>
+        `Crédito da loja insuficiente. Saldo disponível: R$ ${Number(hint ?? 0).toFixed(2)}.`,
+    credit_limit_exceeded: ({ hint }) =>
+        `Limite de crédito do cliente excedido. Disponível para parcelar: R$ ${Number(hint ?? 0).toFixed(2)}.`,
+    client_overdue: ({ hint }) =>
+        `Cliente com parcela vencida há ${hint ?? 0} dias. Novas vendas parceladas estão bloqueadas.`,
+    invalid_override_pin: 'PIN de liberação inválido.',
+    invalid_pin: 'O PIN deve ter ao menos 6 caracteres.',
+    pin_locked: 'PIN bloqueado após várias tentativas incorretas. Aguarde 15 minutos e tente novamente.',
+    invalid_movement_type: 'Tipo de movimentação inválido.',
+    invalid_movement_amount: 'Valor inválido.',
+    invalid_destination: 'Destino inválido.',
+    approval_required: ({ hint }) =>
+        `Valores acima de R$ ${Number(hint ?? 0).toFixed(2)} precisam de autorização do supervisor.`,
+    invalid_approval_pin: 'PIN do supervisor inválido.',
+    insufficient_cash: ({ hint }) =>
+        `Dinheiro insuficiente no caixa. Disponível: R$ ${Number(hint ?? 0).toFixed(2)}.`,
+    register_not_found: 'Caixa não encontrado.',
+    register_not_open: 'Este caixa já foi fechado.',
+    register_not_closed: 'Este caixa não está fechado.',
+    operator_has_open_register: 'O operador deste caixa já tem outro caixa aberto. Feche-o antes de reabrir este.',
+    invalid_counted_amount: 'Valor contado inválido.',
+    denominations_mismatch: 'A soma das cédulas e moedas não confere com o dinheiro informado.',
+};
+
+export const isRpcError = (error: unknown, code: string) => {
+    return (error as RpcError | null)?.message === code;
+};
+
+export const getRpcErrorMessage = (error: unknown, fallback: string) => {
+    const rpcError = (error ?? {}) as RpcError;
+    const { message, details } = rpcError;
+    const text = message ? rpcErrorMessages[message] : undefined;
+
+    if (!text) return message ? `${fallback}: ${message}` : fallback;
+    if (typeof text === 'function') return text(rpcError);
+    return details ? `${text} (${details})` : text;
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { calculateReturnBreakdown } from './saleReturns';
+
+describe('calculateReturnBreakdown', () => {
+    it('refunds the whole value of a sale paid at the counter', () => {
+        expect(calculateReturnBreakdown(50, 0, { open_installments: 0, paid: 100 }))
+            .toEqual({ installmentsReduced: 0, notRefunded: 0, difference: 50 });
+    });
+
+    it('pays off the open parcels before refunding anything', () => {
+        expect(calculateReturnBreakdown(60, 0, { open_installments: 100, paid: 50 }))
+            .toEqual({ installmentsReduced: 60, notRefunded: 0, difference: 0 });
+    });
+
+    it('refunds no more than the client paid on a partly paid carnê', () => {
+        // 300 sale in 3 parcels, one paid: 200 open, 100 paid. The 250 returned clears the open
+        // parcels and 50 of what was paid goes back
+        expect(calculateReturnBreakdown(250, 0, { open_installments: 200, paid: 100 }))
+            .toEqual({ installmentsReduced: 200, notRefunded: 0, difference: 50 });
+
+        // Parcels moved into a renegotiation are no longer open here; what was never paid is not refunded
+        expect(calculateReturnBreakdown(250, 0, { open_installments: 0, paid: 100 }))
+            .toEqual({ installmentsReduced: 0, notRefunded: 150, difference: 100 });
+    });
+
+    it('charges the exchange against the paid part only', () => {
+        expect(calculateReturnBreakdown(250, 80, { open_installments: 200, paid: 100 }))
+            .toEqual({ installmentsReduced: 200, notRefunded: 0, difference: -30 });
+    });
+});
@@ -0,0 +1,22 @@
+import { subtractMoney } from './money';
+
+export interface ReturnBalance {
+    open_installments: number; // Unpaid principal on the sale's open parcels
+    paid: number;              // Paid for the sale and not yet given back (public.sale_paid_balance)
+}
+
+/**
+ * Mirrors public.process_return: the returned value first pays off the open parcels, then only
+ * what the client had paid goes back, as a refund or towards the exchange.
+ */
+export const calculateReturnBreakdown = (returnedAmount: number, exchangeAmount: number, balance: ReturnBalance) => {
+    const installmentsReduced = Math.min(returnedAmount, balance.open_installments);
+    const remainder = subtractMoney(returnedAmount, installmentsReduced);
+    const credited = Math.min(remainder, Math.max(balance.paid, 0));
+
+    return {
+        installmentsReduced,
+        notRefunded: subtractMoney(remainder, credited), // Never paid (e.g. moved into a renegotiation)
+        difference: subtractMoney(credited, exchangeAmount)
+    };
+};
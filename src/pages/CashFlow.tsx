@@ -1,7 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Unlock, FileText, FileSpreadsheet } from 'lucide-react';
+import { sumMoney } from '../lib/money';
+import { getRpcErrorMessage, isRpcError } from '../lib/rpcErrors';
+import { cashDestinationLabels, printCashMovementVoucher } from '../lib/cashMovementVoucher';
+import {
+    cashDenominations,
+    cashTransactionLabels,
+    closingMethodLabels,
+    closingPaymentMethods,
+    printClosingReport,
+    sumDenominations,
+    summarizeByMethod,
+    type CashRegisterCount
+} from '../lib/cashClosing';
+import { formatPaymentMethod } from '../lib/paymentMethods';
+import { Unlock, FileText, FileSpreadsheet, ArrowDownCircle, ArrowUpCircle, Printer } from 'lucide-react';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import * as XLSX from 'xlsx';
@@ -18,9 +32,11 @@ interface Transaction {
     id: string;
     description: string;
     amount: number;
-    type: 'sale' | 'installment_payment' | 'opening' | 'closing' | 'withdrawal' | 'deposit';
+    type: 'sale' | 'installment_payment' | 'opening' | 'closing' | 'withdrawal' | 'deposit' | 'sale_cancellation' | 'return_refund' | 'installment_reversal';
     created_at: string;
     sale_id?: string;
+    payment_method?: string | null;
+    destination?: string | null;
     sale?: {
         payment_method: string;
     };
@@ -32,11 +48,28 @@ export const CashFlow: React.FC = () => {
     const [transactions, setTransactions] = useState<Transaction[]>([]);
     const [loading, setLoading] = useState(true);
     const [initialBalance, setInitialBalance] = useState('');
+    const [movementType, setMovementType] = useState<'withdrawal' | 'deposit' | null>(null);
+    const [movementForm, setMovementForm] = useState({ amount: '', reason: '', destination: '' });
+    const [approvalEnabled, setApprovalEnabled] = useState(false);
+    const [approvalMessage, setApprovalMessage] = useState<string | null>(null);
+    const [approvalPin, setApprovalPin] = useState('');
+    const [savingMovement, setSavingMovement] = useState(false);
+    const [showClosing, setShowClosing] = useState(false);
+    const [countedAmounts, setCountedAmounts] = useState<Record<string, string>>({});
+    const [countByDenomination, setCountByDenomination] = useState(false);
+    const [denominationCounts, setDenominationCounts] = useState<Record<string, number>>({});
+    const [closingNotes, setClosingNotes] = useState('');
+    const [closing, setClosing] = useState(false);
+    const [closingCounts, setClosingCounts] = useState<CashRegisterCount[] | null>(null);
 
     useEffect(() => {
         if (user) fetchCurrentRegister();
     }, [user]);
 
+    useEffect(() => {
+        supabase.rpc('cash_approval_enabled').then(({ data }) => setApprovalEnabled(!!data));
+    }, []);
+
     // Auto-fix zero transactions (legacy bug)
     useEffect(() => {
         const zeroTransactions = transactions.filter(t => t.amount === 0 && t.type === 'sale' && t.sale_id);
@@ -144,57 +177,150 @@ export const CashFlow: React.FC = () => {
         }
     };
 
-    const handleCloseRegister = async () => {
+    // Blind closing: the operator declares what was counted before seeing the expected amounts
+    const handleCloseRegister = () => {
+        setCountedAmounts({});
+        setCountByDenomination(false);
+        setDenominationCounts({});
+        setClosingNotes('');
+        setClosingCounts(null);
+        setShowClosing(true);
+    };
+
+    const countedMoney = countByDenomination
+        ? sumDenominations(denominationCounts)
+        : parseFloat(countedAmounts.money) || 0;
+
+    const handleConfirmClose = async (e: React.FormEvent) => {
+        e.preventDefault();
         if (!register) return;
-        if (!window.confirm('Tem certeza que deseja fechar o caixa?')) return;
+        if (!window.confirm('Confirmar os valores contados e fechar o caixa?')) return;
 
+        setClosing(true);
         try {
-            const { error } = await supabase
-                .from('cash_registers')
-                .update({
-                    status: 'closed',
-                    closed_at: new Date().toISOString(),
-                    final_balance: calculateBalance()
-                })
-                .eq('id', register.id);
+            const counted = Object.fromEntries(closingPaymentMethods.map(method => [
+                method,
+                method === 'money' ? countedMoney : parseFloat(countedAmounts[method]) || 0
+            ]));
+
+            const { error } = await supabase.rpc('close_cash_register', {
+                p_register_id: register.id,
+                p_counted: counted,
+                p_denominations: countByDenomination
+                    ? Object.fromEntries(Object.entries(denominationCounts).filter(([, quantity]) => quantity > 0))
+                    : null,
+                p_notes: closingNotes || null
+            });
 
             if (error) throw error;
 
-            // Record closing transaction
-            await supabase.from('cash_transactions').insert([{
-                register_id: register.id,
-                description: 'Fechamento de Caixa',
-                amount: calculateBalance(),
-                type: 'closing'
-            }]);
+            const { data: counts, error: countsError } = await supabase
+                .from('cash_register_counts')
+                .select('payment_method, expected, counted, difference')
+                .eq('register_id', register.id)
+                .order('payment_method');
 
-            setRegister(null);
-            setTransactions([]);
+            if (countsError) throw countsError;
+            setClosingCounts(counts || []);
         } catch (error) {
             console.error('Error closing register:', error);
-            alert('Erro ao fechar caixa');
+            alert(getRpcErrorMessage(error, 'Erro ao fechar caixa'));
+        } finally {
+            setClosing(false);
         }
     };
 
-    const calculateBalance = () => {
-        return transactions.reduce((acc, curr) => {
-            if (curr.type === 'withdrawal') return acc - curr.amount;
-            return acc + curr.amount;
-        }, 0);
+    const handlePrintClosingReport = async () => {
+        if (!register) return;
+        try {
+            await printClosingReport(register.id);
+        } catch (error) {
+            console.error('Error printing closing report:', error);
+            alert('Erro ao gerar leitura Z');
+        }
     };
 
-    const getTransactionLabel = (type: string) => {
-        switch (type) {
-            case 'sale': return 'Venda';
-            case 'installment_payment': return 'Recebimento';
-            case 'opening': return 'Abertura';
-            case 'closing': return 'Fechamento';
-            case 'withdrawal': return 'Sangria';
-            case 'deposit': return 'Suprimento';
-            default: return type;
+    const handleFinishClosing = () => {
+        setShowClosing(false);
+        setClosingCounts(null);
+        setRegister(null);
+        setTransactions([]);
+    };
+
+    const openMovementModal = (type: 'withdrawal' | 'deposit') => {
+        setMovementType(type);
+        setMovementForm({ amount: '', reason: '', destination: type === 'withdrawal' ? 'safe' : '' });
+        setApprovalMessage(null);
+        setApprovalPin('');
+    };
+
+    const handleSaveMovement = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!register || !movementType) return;
+
+        setSavingMovement(true);
+        try {
+            // Checked by its own call so a wrong PIN is recorded (and locks the PIN) even though the movement fails
+            if (approvalMessage) {
+                const { data: validPin, error: pinError } = await supabase.rpc('verify_cash_approval_pin', { p_pin: approvalPin });
+                if (pinError) throw pinError;
+                if (!validPin) {
+                    alert(getRpcErrorMessage({ message: 'invalid_approval_pin' }, 'PIN inválido'));
+                    return;
+                }
+            }
+
+            const { data, error } = await supabase.rpc('record_cash_movement', {
+                p_type: movementType,
+                p_amount: parseFloat(movementForm.amount),
+                p_reason: movementForm.reason,
+                p_destination: movementForm.destination || null,
+                p_approval_pin: approvalMessage ? approvalPin : null
+            });
+
+            if (error) throw error;
+
+            setMovementType(null);
+            fetchTransactions(register.id);
+
+            try {
+                await printCashMovementVoucher(data.id);
+            } catch (printError) {
+                console.error('Error printing voucher:', printError);
+                alert('Movimentação registrada, mas não foi possível gerar o comprovante');
+            }
+        } catch (error) {
+            // Above the limit the operator can go on if the supervisor types the PIN
+            if (isRpcError(error, 'approval_required') && approvalEnabled) {
+                setApprovalMessage(getRpcErrorMessage(error, 'Autorização necessária'));
+                setApprovalPin('');
+            } else {
+                console.error('Error saving cash movement:', error);
+                alert(getRpcErrorMessage(error, 'Erro ao registrar movimentação'));
+            }
+        } finally {
+            setSavingMovement(false);
         }
     };
 
+    const handlePrintVoucher = async (transactionId: string) => {
+        try {
+            await printCashMovementVoucher(transactionId);
+        } catch (error) {
+            console.error('Error printing voucher:', error);
+            alert('Erro ao gerar comprovante');
+        }
+    };
+
+    // Only cash goes into the drawer; PIX and card receipts are shown per method
+    const methodTotals = summarizeByMethod(transactions);
+    const methodSummary = Object.entries(methodTotals)
+        .sort(([a], [b]) => (a === 'money' ? -1 : b === 'money' ? 1 : a.localeCompare(b)));
+    const drawerBalance = methodTotals.money || 0;
+    const registerTotal = sumMoney(Object.values(methodTotals));
+
+    const getTransactionLabel = (type: string) => cashTransactionLabels[type] || type;
+
     const getTransactionColor = (type: string) => {
         switch (type) {
             case 'sale':
@@ -204,32 +330,19 @@ export const CashFlow: React.FC = () => {
                 return 'bg-green-100 text-green-800';
             case 'withdrawal':
             case 'closing':
+            case 'sale_cancellation':
+            case 'return_refund':
+            case 'installment_reversal':
                 return 'bg-red-100 text-red-800';
             default:
                 return 'bg-gray-100 text-gray-800';
         }
     };
 
-    const formatPaymentMethod = (method: string) => {
-        const methods: { [key: string]: string } = {
-            money: 'Dinheiro',
-            pix: 'PIX',
-            debit: 'Débito',
-            credit: 'Crédito',
-            credit_1x: 'Crédito (1x)',
-            credit_2x: 'Crédito (2x)',
-            credit_3x: 'Crédito (3x)',
-            credit_4x: 'Crédito (4x)',
-            credit_5x: 'Crédito (5x)',
-            credit_6x: 'Crédito (6x)',
-            credit_7x: 'Crédito (7x)',
-            credit_8x: 'Crédito (8x)',
-            credit_9x: 'Crédito (9x)',
-            credit_10x: 'Crédito (10x)',
-            credit_11x: 'Crédito (11x)',
-            credit_12x: 'Crédito (12x)',
-        };
-        return methods[method] || method;
+    // Split-payment sales post one entry per method; older entries only know the sale's method
+    const formatTransactionMethod = (transaction: Transaction) => {
+        const method = transaction.payment_method || transaction.sale?.payment_method;
+        return method ? formatPaymentMethod(method) : null;
     };
 
     if (loading) {
@@ -279,18 +392,26 @@ export const CashFlow: React.FC = () => {
                     <button
                         onClick={() => {
                             const doc = new jsPDF();
+                            let y = 25;
                             doc.text('Relatório de Caixa', 14, 15);
-                            doc.text(`Saldo Atual: R$ ${calculateBalance().toFixed(2)}`, 14, 25);
+                            doc.text(`Dinheiro na Gaveta: R$ ${drawerBalance.toFixed(2)}`, 14, y);
+                            autoTable(doc, {
+                                head: [['Forma Pagto', 'Subtotal']],
+                                body: methodSummary.map(([method, total]) => [formatPaymentMethod(method), `R$ ${total.toFixed(2)}`]),
+                                foot: [['Total', `R$ ${registerTotal.toFixed(2)}`]],
+                                startY: y + 5,
+                                didDrawPage: hook => { y = hook.cursor?.y ?? y; }
+                            });
                             autoTable(doc, {
                                 head: [['Hora', 'Descrição', 'Tipo', 'Forma Pagto', 'Valor']],
                                 body: transactions.map(t => [
                                     new Date(t.created_at).toLocaleTimeString(),
                                     t.description,
                                     getTransactionLabel(t.type),
-                                    t.sale?.payment_method ? formatPaymentMethod(t.sale.payment_method) : '-',
+                                    formatTransactionMethod(t) || '-',
                                     `R$ ${t.amount.toFixed(2)}`
                                 ]),
-                                startY: 30,
+                                startY: y + 10,
                             });
                             doc.save('caixa.pdf');
                         }}
@@ -305,11 +426,16 @@ export const CashFlow: React.FC = () => {
                                 Hora: new Date(t.created_at).toLocaleTimeString(),
                                 Descrição: t.description,
                                 Tipo: getTransactionLabel(t.type),
-                                'Forma Pagto': t.sale?.payment_method ? formatPaymentMethod(t.sale.payment_method) : '-',
+                                'Forma Pagto': formatTransactionMethod(t) || '-',
                                 Valor: t.amount
                             })));
+                            const summary = XLSX.utils.json_to_sheet([
+                                ...methodSummary.map(([method, total]) => ({ 'Forma Pagto': formatPaymentMethod(method), Subtotal: total })),
+                                { 'Forma Pagto': 'Total', Subtotal: registerTotal }
+                            ]);
                             const wb = XLSX.utils.book_new();
                             XLSX.utils.book_append_sheet(wb, ws, "Caixa");
+                            XLSX.utils.book_append_sheet(wb, summary, "Resumo");
                             XLSX.writeFile(wb, "caixa.xlsx");
                         }}
                         className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700"
@@ -328,10 +454,22 @@ export const CashFlow: React.FC = () => {
                     </p>
                 </div>
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
-                    <p className="text-sm text-gray-500 mb-1">Saldo Atual</p>
+                    <p className="text-sm text-gray-500 mb-1">Dinheiro na Gaveta</p>
                     <p className="text-3xl font-bold text-blue-600">
-                        R$ {calculateBalance().toFixed(2)}
+                        R$ {drawerBalance.toFixed(2)}
                     </p>
+                    <div className="mt-3 space-y-1 text-sm">
+                        {methodSummary.filter(([method]) => method !== 'money').map(([method, total]) => (
+                            <div key={method} className="flex justify-between text-gray-600">
+                                <span>{formatPaymentMethod(method)}</span>
+                                <span>R$ {total.toFixed(2)}</span>
+                            </div>
+                        ))}
+                        <div className="flex justify-between font-medium text-gray-900 border-t pt-1">
+                            <span>Total do caixa</span>
+                            <span>R$ {registerTotal.toFixed(2)}</span>
+                        </div>
+                    </div>
                 </div>
                 <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 flex flex-col justify-between">
                     <div>
@@ -341,9 +479,25 @@ export const CashFlow: React.FC = () => {
                             Aberto
                         </div>
                     </div>
+                    <div className="mt-4 grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => openMovementModal('withdrawal')}
+                            className="inline-flex items-center justify-center gap-1 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                        >
+                            <ArrowUpCircle className="h-4 w-4 text-red-600" />
+                            Sangria
+                        </button>
+                        <button
+                            onClick={() => openMovementModal('deposit')}
+                            className="inline-flex items-center justify-center gap-1 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                        >
+                            <ArrowDownCircle className="h-4 w-4 text-green-600" />
+                            Suprimento
+                        </button>
+                    </div>
                     <button
                         onClick={handleCloseRegister}
-                        className="mt-4 w-full bg-red-100 text-red-700 py-2 rounded-lg hover:bg-red-200 transition-colors font-medium"
+                        className="mt-2 w-full bg-red-100 text-red-700 py-2 rounded-lg hover:bg-red-200 transition-colors font-medium"
                     >
                         Fechar Caixa
                     </button>
@@ -372,7 +526,21 @@ export const CashFlow: React.FC = () => {
                                         {new Date(transaction.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                                     </td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                                        {transaction.description}
+                                        <div className="flex items-center gap-2">
+                                            {transaction.description}
+                                            {(transaction.type === 'withdrawal' || transaction.type === 'deposit') && (
+                                                <button
+                                                    onClick={() => handlePrintVoucher(transaction.id)}
+                                                    className="text-gray-400 hover:text-blue-600"
+                                                    title="Imprimir comprovante"
+                                                >
+                                                    <Printer className="h-4 w-4" />
+                                                </button>
+                                            )}
+                                        </div>
+                                        {transaction.destination && (
+                                            <div className="text-xs text-gray-500">Destino: {cashDestinationLabels[transaction.destination]}</div>
+                                        )}
                                     </td>
                                     <td className="px-6 py-4 whitespace-nowrap">
                                         <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getTransactionColor(transaction.type)}`}>
@@ -380,16 +548,16 @@ export const CashFlow: React.FC = () => {
                                         </span>
                                     </td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                        {transaction.sale?.payment_method ? (
+                                        {formatTransactionMethod(transaction) ? (
                                             <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
-                                                {formatPaymentMethod(transaction.sale.payment_method)}
+                                                {formatTransactionMethod(transaction)}
                                             </span>
                                         ) : '-'}
                                     </td>
-                                    <td className={`px-6 py-4 whitespace-nowrap text-sm font-bold text-right ${transaction.type === 'withdrawal' ? 'text-red-600' : 'text-green-600'
+                                    <td className={`px-6 py-4 whitespace-nowrap text-sm font-bold text-right ${transaction.type === 'withdrawal' || transaction.amount < 0 ? 'text-red-600' : 'text-green-600'
                                         }`}>
-                                        {transaction.type === 'withdrawal' ? '-' : '+'}
-                                        R$ {transaction.amount.toFixed(2)}
+                                        {transaction.type === 'withdrawal' || transaction.amount < 0 ? '-' : '+'}
+                                        R$ {Math.abs(transaction.amount).toFixed(2)}
                                     </td>
                                 </tr>
                             ))}
@@ -397,6 +565,246 @@ export const CashFlow: React.FC = () => {
                     </table>
                 </div>
             </div>
+
+            {/* Closing Modal */}
+            {showClosing && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+                    <div className="bg-white rounded-xl shadow-lg max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+                        <h3 className="text-lg font-bold text-gray-900 mb-4">Fechamento de Caixa</h3>
+
+                        {closingCounts ? (
+                            <div className="space-y-4">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-gray-500">
+                                            <th className="py-1">Forma</th>
+                                            <th className="py-1 text-right">Esperado</th>
+                                            <th className="py-1 text-right">Contado</th>
+                                            <th className="py-1 text-right">Diferença</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-200">
+                                        {closingCounts.map(count => (
+                                            <tr key={count.payment_method}>
+                                                <td className="py-1">{closingMethodLabels[count.payment_method] || count.payment_method}</td>
+                                                <td className="py-1 text-right">R$ {count.expected.toFixed(2)}</td>
+                                                <td className="py-1 text-right">R$ {count.counted.toFixed(2)}</td>
+                                                <td className={`py-1 text-right font-medium ${count.difference < 0 ? 'text-red-600' : count.difference > 0 ? 'text-yellow-600' : 'text-green-600'}`}>
+                                                    R$ {count.difference.toFixed(2)}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <div className="flex gap-3 mt-6">
+                                    <button
+                                        type="button"
+                                        onClick={handlePrintClosingReport}
+                                        className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                                    >
+                                        <Printer className="h-4 w-4" />
+                                        Leitura Z
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={handleFinishClosing}
+                                        className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+                                    >
+                                        Concluir
+                                    </button>
+                                </div>
+                            </div>
+                        ) : (
+                            <form onSubmit={handleConfirmClose} className="space-y-4">
+                                <p className="text-sm text-gray-500">
+                                    Conte o dinheiro da gaveta e informe o total de cada forma de pagamento. Os valores esperados serão exibidos após a confirmação.
+                                </p>
+
+                                <div>
+                                    <div className="flex justify-between items-center mb-1">
+                                        <label className="block text-sm font-medium text-gray-700">Dinheiro (R$)</label>
+                                        <label className="flex items-center gap-2 text-sm text-gray-600">
+                                            <input
+                                                type="checkbox"
+                                                checked={countByDenomination}
+                                                onChange={e => setCountByDenomination(e.target.checked)}
+                                            />
+                                            Contar por cédula/moeda
+                                        </label>
+                                    </div>
+                                    {countByDenomination ? (
+                                        <div className="border rounded-lg p-3">
+                                            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                                                {cashDenominations.map(value => (
+                                                    <label key={value} className="flex items-center gap-2 text-sm">
+                                                        <span className="w-16 text-right text-gray-600">R$ {value.toFixed(2)}</span>
+                                                        <input
+                                                            type="number"
+                                                            min="0"
+                                                            step="1"
+                                                            className="w-16 px-2 py-1 border rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                                                            value={denominationCounts[String(value)] || ''}
+                                                            onChange={e => setDenominationCounts({
+                                                                ...denominationCounts,
+                                                                [String(value)]: parseInt(e.target.value) || 0
+                                                            })}
+                                                        />
+                                                    </label>
+                                                ))}
+                                            </div>
+                                            <p className="text-sm font-medium text-gray-900 mt-3 text-right">
+                                                Total contado: R$ {countedMoney.toFixed(2)}
+                                            </p>
+                                        </div>
+                                    ) : (
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            required
+                                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                            value={countedAmounts.money || ''}
+                                            onChange={e => setCountedAmounts({ ...countedAmounts, money: e.target.value })}
+                                        />
+                                    )}
+                                </div>
+
+                                <div className="grid grid-cols-3 gap-4">
+                                    {closingPaymentMethods.filter(method => method !== 'money').map(method => (
+                                        <div key={method}>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">{closingMethodLabels[method]} (R$)</label>
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                placeholder="0,00"
+                                                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                                value={countedAmounts[method] || ''}
+                                                onChange={e => setCountedAmounts({ ...countedAmounts, [method]: e.target.value })}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Observações</label>
+                                    <textarea
+                                        rows={2}
+                                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                        value={closingNotes}
+                                        onChange={e => setClosingNotes(e.target.value)}
+                                    />
+                                </div>
+
+                                <div className="flex gap-3 mt-6">
+                                    <button
+                                        type="button"
+                                        onClick={() => setShowClosing(false)}
+                                        className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                                    >
+                                        Cancelar
+                                    </button>
+                                    <button
+                                        type="submit"
+                                        disabled={closing}
+                                        className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium disabled:opacity-50"
+                                    >
+                                        {closing ? 'Fechando...' : 'Fechar Caixa'}
+                                    </button>
+                                </div>
+                            </form>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Withdrawal / Deposit Modal */}
+            {movementType && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+                    <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-6">
+                        <h3 className="text-lg font-bold text-gray-900 mb-4">
+                            {movementType === 'withdrawal' ? 'Sangria' : 'Suprimento'}
+                        </h3>
+                        <form onSubmit={handleSaveMovement} className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Valor (R$)</label>
+                                <input
+                                    type="number"
+                                    min="0.01"
+                                    step="0.01"
+                                    required
+                                    autoFocus
+                                    disabled={!!approvalMessage}
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-gray-100"
+                                    value={movementForm.amount}
+                                    onChange={e => setMovementForm({ ...movementForm, amount: e.target.value })}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+                                <input
+                                    type="text"
+                                    required
+                                    disabled={!!approvalMessage}
+                                    placeholder={movementType === 'withdrawal' ? 'Ex.: excesso de dinheiro no caixa' : 'Ex.: troco'}
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-gray-100"
+                                    value={movementForm.reason}
+                                    onChange={e => setMovementForm({ ...movementForm, reason: e.target.value })}
+                                />
+                            </div>
+                            {movementType === 'withdrawal' && (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Destino</label>
+                                    <select
+                                        disabled={!!approvalMessage}
+                                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-gray-100"
+                                        value={movementForm.destination}
+                                        onChange={e => setMovementForm({ ...movementForm, destination: e.target.value })}
+                                    >
+                                        <option value="">Não informado</option>
+                                        {Object.entries(cashDestinationLabels).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            {approvalMessage && (
+                                <div>
+                                    <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-3">{approvalMessage}</p>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">PIN do supervisor</label>
+                                    <input
+                                        type="password"
+                                        required
+                                        autoFocus
+                                        autoComplete="off"
+                                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                        value={approvalPin}
+                                        onChange={e => setApprovalPin(e.target.value)}
+                                    />
+                                </div>
+                            )}
+
+                            <div className="flex gap-3 mt-6">
+                                <button
+                                    type="button"
+                                    onClick={() => setMovementType(null)}
+                                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={savingMovement}
+                                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+                                >
+                                    {savingMovement ? 'Salvando...' : approvalMessage ? 'Autorizar e Registrar' : 'Registrar'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,531 @@
+import React, { useEffect, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { Calendar, Search, ChevronDown, ChevronUp, Printer, RotateCcw } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getRpcErrorMessage } from '../lib/rpcErrors';
+import { formatCurrency } from '../lib/money';
+import {
+    cashTransactionLabels,
+    closingMethodLabels,
+    getTransactionEffect,
+    getTransactionMethod,
+    printClosingReport,
+    summarizeByMethod,
+    type CashRegisterCount
+} from '../lib/cashClosing';
+import { formatPaymentMethod } from '../lib/paymentMethods';
+
+interface CashRegister {
+    id: string;
+    user_id: string;
+    opened_at: string;
+    closed_at: string | null;
+    initial_balance: number;
+    final_balance: number | null;
+    counted_balance: number | null;
+    closing_difference: number | null;
+    closing_notes: string | null;
+    force_closed: boolean;
+    status: 'open' | 'closed';
+}
+
+interface Operator {
+    id: string;
+    full_name: string | null;
+    email: string;
+}
+
+interface Transaction {
+    id: string;
+    description: string;
+    amount: number;
+    type: string;
+    created_at: string;
+    payment_method: string | null;
+    sale: {
+        payment_method: string;
+    } | null;
+}
+
+interface Reopening {
+    id: string;
+    reason: string;
+    created_at: string;
+    previous_closed_at: string | null;
+    previous_counted_balance: number | null;
+    previous_difference: number | null;
+    previous_closing_notes: string | null;
+    user: {
+        full_name: string | null;
+        email: string;
+    } | null;
+}
+
+interface RegisterDetails {
+    transactions: Transaction[];
+    counts: CashRegisterCount[];
+    reopenings: Reopening[];
+}
+
+const daysAgo = (days: number) => format(subDays(new Date(), days), 'yyyy-MM-dd');
+
+export const CashRegisters: React.FC = () => {
+    const { role } = useAuth();
+    const [registers, setRegisters] = useState<CashRegister[]>([]);
+    const [operators, setOperators] = useState<Operator[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [startDate, setStartDate] = useState(daysAgo(30));
+    const [endDate, setEndDate] = useState(daysAgo(0));
+    const [operatorId, setOperatorId] = useState('');
+    const [expandedRegister, setExpandedRegister] = useState<string | null>(null);
+    const [details, setDetails] = useState<RegisterDetails | null>(null);
+    const [reopeningRegister, setReopeningRegister] = useState<CashRegister | null>(null);
+    const [reopenReason, setReopenReason] = useState('');
+    const [reopening, setReopening] = useState(false);
+
+    const fetchRegisters = async (filters: { startDate: string; endDate: string; operatorId: string }) => {
+        setLoading(true);
+        try {
+            const [startYear, startMonth, startDay] = filters.startDate.split('-').map(Number);
+            const startDateTime = new Date(startYear, startMonth - 1, startDay);
+            startDateTime.setHours(0, 0, 0, 0);
+
+            const [endYear, endMonth, endDay] = filters.endDate.split('-').map(Number);
+            const endDateTime = new Date(endYear, endMonth - 1, endDay);
+            endDateTime.setHours(23, 59, 59, 999);
+
+            let query = supabase
+                .from('cash_registers')
+                .select('id, user_id, opened_at, closed_at, initial_balance, final_balance, counted_balance, closing_difference, closing_notes, force_closed, status')
+                .gte('opened_at', startDateTime.toISOString())
+                .lte('opened_at', endDateTime.toISOString())
+                .order('opened_at', { ascending: false });
+
+            if (filters.operatorId) query = query.eq('user_id', filters.operatorId);
+
+            const { data, error } = await query;
+
+            if (error) throw error;
+            setRegisters(data || []);
+        } catch (error) {
+            console.error('Error fetching registers:', error);
+            alert('Erro ao buscar histórico de caixas');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchOperators = async () => {
+        const { data } = await supabase
+            .from('profiles')
+            .select('id, full_name, email')
+            .order('full_name');
+        setOperators(data || []);
+    };
+
+    useEffect(() => {
+        fetchRegisters({ startDate: daysAgo(30), endDate: daysAgo(0), operatorId: '' });
+        fetchOperators();
+    }, []);
+
+    const fetchDetails = async (registerId: string) => {
+        setDetails(null);
+        try {
+            const [transactionsResult, countsResult, reopeningsResult] = await Promise.all([
+                supabase
+                    .from('cash_transactions')
+                    .select('id, description, amount, type, created_at, payment_method, sale:sales (payment_method)')
+                    .eq('register_id', registerId)
+                    .order('created_at')
+                    .overrideTypes<Transaction[], { merge: false }>(),
+                supabase
+                    .from('cash_register_counts')
+                    .select('payment_method, expected, counted, difference')
+                    .eq('register_id', registerId)
+                    .order('payment_method'),
+                supabase
+                    .from('cash_register_reopenings')
+                    .select('id, reason, created_at, previous_closed_at, previous_counted_balance, previous_difference, previous_closing_notes, user:profiles!user_id (full_name, email)')
+                    .eq('register_id', registerId)
+                    .order('created_at')
+                    .overrideTypes<Reopening[], { merge: false }>()
+            ]);
+
+            if (transactionsResult.error) throw transactionsResult.error;
+            if (countsResult.error) throw countsResult.error;
+            if (reopeningsResult.error) throw reopeningsResult.error;
+
+            setDetails({
+                transactions: transactionsResult.data || [],
+                counts: countsResult.data || [],
+                reopenings: reopeningsResult.data || []
+            });
+        } catch (error) {
+            console.error('Error fetching register details:', error);
+            alert('Erro ao carregar movimentações do caixa');
+        }
+    };
+
+    const toggleExpand = (registerId: string) => {
+        if (expandedRegister === registerId) {
+            setExpandedRegister(null);
+            return;
+        }
+        setExpandedRegister(registerId);
+        fetchDetails(registerId);
+    };
+
+    const handlePrintReport = async (registerId: string) => {
+        try {
+            await printClosingReport(registerId);
+        } catch (error) {
+            console.error('Error printing closing report:', error);
+            alert('Erro ao gerar leitura Z');
+        }
+    };
+
+    const openReopenModal = (register: CashRegister) => {
+        setReopeningRegister(register);
+        setReopenReason('');
+    };
+
+    const handleReopen = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!reopeningRegister) return;
+
+        setReopening(true);
+        try {
+            const { error } = await supabase.rpc('reopen_cash_register', {
+                p_register_id: reopeningRegister.id,
+                p_reason: reopenReason
+            });
+
+            if (error) throw error;
+
+            setReopeningRegister(null);
+            setExpandedRegister(null);
+            fetchRegisters({ startDate, endDate, operatorId });
+            alert('Caixa reaberto. O operador deve conferir e fechar o caixa novamente.');
+        } catch (error) {
+            console.error('Error reopening register:', error);
+            alert(getRpcErrorMessage(error, 'Erro ao reabrir caixa'));
+        } finally {
+            setReopening(false);
+        }
+    };
+
+    const getOperatorName = (userId: string) => {
+        const operator = operators.find(o => o.id === userId);
+        return operator?.full_name || operator?.email || '-';
+    };
+
+    const getDifferenceColor = (difference: number | null) => {
+        if (difference === null || difference === 0) return 'text-green-600';
+        return difference < 0 ? 'text-red-600' : 'text-yellow-600';
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <h1 className="text-2xl font-bold text-gray-900">Histórico de Caixas</h1>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-4">
+                <div className="flex flex-col sm:flex-row gap-4 items-end">
+                    <div className="w-full sm:w-auto">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Data Inicial</label>
+                        <div className="relative">
+                            <Calendar className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                            <input
+                                type="date"
+                                value={startDate}
+                                onChange={(e) => setStartDate(e.target.value)}
+                                className="pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
+                            />
+                        </div>
+                    </div>
+                    <div className="w-full sm:w-auto">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Data Final</label>
+                        <div className="relative">
+                            <Calendar className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                            <input
+                                type="date"
+                                value={endDate}
+                                onChange={(e) => setEndDate(e.target.value)}
+                                className="pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
+                            />
+                        </div>
+                    </div>
+                    {role === 'admin' && (
+                        <div className="w-full sm:w-auto">
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Operador</label>
+                            <select
+                                value={operatorId}
+                                onChange={(e) => setOperatorId(e.target.value)}
+                                className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full bg-white"
+                            >
+                                <option value="">Todos</option>
+                                {operators.map(operator => (
+                                    <option key={operator.id} value={operator.id}>{operator.full_name || operator.email}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    <button
+                        onClick={() => fetchRegisters({ startDate, endDate, operatorId })}
+                        disabled={loading}
+                        className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        {loading ? 'Buscando...' : (
+                            <>
+                                <Search className="h-4 w-4" />
+                                Filtrar
+                            </>
+                        )}
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Abertura</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fechamento</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Operador</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Esperado</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Contado</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Diferença</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ações</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {registers.length === 0 ? (
+                                <tr>
+                                    <td colSpan={7} className="px-6 py-10 text-center text-gray-500">
+                                        Nenhum caixa encontrado no período selecionado.
+                                    </td>
+                                </tr>
+                            ) : (
+                                registers.map(register => (
+                                    <React.Fragment key={register.id}>
+                                        <tr className="hover:bg-gray-50 transition-colors">
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                                {format(new Date(register.opened_at), 'dd/MM/yyyy HH:mm')}
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                                {register.status === 'open' ? (
+                                                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                                                        Aberto
+                                                    </span>
+                                                ) : register.closed_at ? format(new Date(register.closed_at), 'dd/MM/yyyy HH:mm') : '-'}
+                                                {register.force_closed && (
+                                                    <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">
+                                                        Forçado
+                                                    </span>
+                                                )}
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                                {getOperatorName(register.user_id)}
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                                                {register.final_balance !== null ? formatCurrency(register.final_balance) : '-'}
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                                                {register.counted_balance !== null ? formatCurrency(register.counted_balance) : '-'}
+                                            </td>
+                                            <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${getDifferenceColor(register.closing_difference)}`}>
+                                                {register.closing_difference !== null ? formatCurrency(register.closing_difference) : '-'}
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                                <div className="flex items-center gap-4">
+                                                    <button
+                                                        onClick={() => toggleExpand(register.id)}
+                                                        className="text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                                                    >
+                                                        {expandedRegister === register.id ? (
+                                                            <>
+                                                                <ChevronUp className="h-4 w-4" />
+                                                                Ocultar
+                                                            </>
+                                                        ) : (
+                                                            <>
+                                                                <ChevronDown className="h-4 w-4" />
+                                                                Detalhes
+                                                            </>
+                                                        )}
+                                                    </button>
+                                                    {register.status === 'closed' && (
+                                                        <button
+                                                            onClick={() => handlePrintReport(register.id)}
+                                                            className="text-gray-600 hover:text-gray-900 flex items-center gap-1"
+                                                        >
+                                                            <Printer className="h-4 w-4" />
+                                                            Leitura Z
+                                                        </button>
+                                                    )}
+                                                    {role === 'admin' && register.status === 'closed' && (
+                                                        <button
+                                                            onClick={() => openReopenModal(register)}
+                                                            className="text-orange-600 hover:text-orange-800 flex items-center gap-1"
+                                                        >
+                                                            <RotateCcw className="h-4 w-4" />
+                                                            Reabrir
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                        {expandedRegister === register.id && (
+                                            <tr>
+                                                <td colSpan={7} className="px-6 py-4 bg-gray-50">
+                                                    {!details ? (
+                                                        <div className="text-sm text-gray-500">Carregando...</div>
+                                                    ) : (
+                                                        <div className="space-y-4">
+                                                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                                                <div className="bg-white rounded-lg border p-4">
+                                                                    <h4 className="text-sm font-bold text-gray-900 mb-2">Por forma de pagamento</h4>
+                                                                    <table className="w-full text-sm">
+                                                                        <thead>
+                                                                            <tr className="text-left text-gray-500">
+                                                                                <th className="py-1">Forma</th>
+                                                                                <th className="py-1 text-right">Esperado</th>
+                                                                                {details.counts.length > 0 && <th className="py-1 text-right">Contado</th>}
+                                                                                {details.counts.length > 0 && <th className="py-1 text-right">Diferença</th>}
+                                                                            </tr>
+                                                                        </thead>
+                                                                        <tbody className="divide-y divide-gray-200">
+                                                                            {details.counts.length > 0
+                                                                                ? details.counts.map(count => (
+                                                                                    <tr key={count.payment_method}>
+                                                                                        <td className="py-1">{closingMethodLabels[count.payment_method] || count.payment_method}</td>
+                                                                                        <td className="py-1 text-right">{formatCurrency(count.expected)}</td>
+                                                                                        <td className="py-1 text-right">{formatCurrency(count.counted)}</td>
+                                                                                        <td className={`py-1 text-right font-medium ${getDifferenceColor(count.difference)}`}>
+                                                                                            {formatCurrency(count.difference)}
+                                                                                        </td>
+                                                                                    </tr>
+                                                                                ))
+                                                                                : Object.entries(summarizeByMethod(details.transactions)).map(([method, total]) => (
+                                                                                    <tr key={method}>
+                                                                                        <td className="py-1">{closingMethodLabels[method] || method}</td>
+                                                                                        <td className="py-1 text-right">{formatCurrency(total)}</td>
+                                                                                    </tr>
+                                                                                ))}
+                                                                        </tbody>
+                                                                    </table>
+                                                                    {register.closing_notes && (
+                                                                        <p className="text-sm text-gray-600 mt-2">Observações: {register.closing_notes}</p>
+                                                                    )}
+                                                                </div>
+
+                                                                {details.reopenings.length > 0 && (
+                                                                    <div className="bg-white rounded-lg border p-4">
+                                                                        <h4 className="text-sm font-bold text-gray-900 mb-2">Reaberturas</h4>
+                                                                        <ul className="space-y-2 text-sm">
+                                                                            {details.reopenings.map(reopening => (
+                                                                                <li key={reopening.id}>
+                                                                                    <div className="text-gray-900">
+                                                                                        {format(new Date(reopening.created_at), 'dd/MM/yyyy HH:mm')} - {reopening.user?.full_name || reopening.user?.email || '-'}
+                                                                                    </div>
+                                                                                    <div className="text-gray-600">Motivo: {reopening.reason}</div>
+                                                                                    <div className="text-xs text-gray-500">
+                                                                                        Fechamento anterior: {reopening.previous_closed_at ? format(new Date(reopening.previous_closed_at), 'dd/MM/yyyy HH:mm') : '-'}
+                                                                                        {reopening.previous_counted_balance !== null && ` - contado ${formatCurrency(reopening.previous_counted_balance)}`}
+                                                                                        {reopening.previous_difference !== null && ` (diferença ${formatCurrency(reopening.previous_difference)})`}
+                                                                                        {reopening.previous_closing_notes && ` - ${reopening.previous_closing_notes}`}
+                                                                                    </div>
+                                                                                </li>
+                                                                            ))}
+                                                                        </ul>
+                                                                    </div>
+                                                                )}
+                                                            </div>
+
+                                                            <table className="w-full text-sm bg-white rounded-lg border">
+                                                                <thead className="bg-gray-100">
+                                                                    <tr className="text-left text-gray-500">
+                                                                        <th className="px-3 py-2">Hora</th>
+                                                                        <th className="px-3 py-2">Descrição</th>
+                                                                        <th className="px-3 py-2">Tipo</th>
+                                                                        <th className="px-3 py-2">Forma</th>
+                                                                        <th className="px-3 py-2 text-right">Valor</th>
+                                                                    </tr>
+                                                                </thead>
+                                                                <tbody className="divide-y divide-gray-200">
+                                                                    {details.transactions.map(transaction => (
+                                                                        <tr key={transaction.id}>
+                                                                            <td className="px-3 py-2 whitespace-nowrap text-gray-500">
+                                                                                {format(new Date(transaction.created_at), 'dd/MM HH:mm')}
+                                                                            </td>
+                                                                            <td className="px-3 py-2">{transaction.description}</td>
+                                                                            <td className="px-3 py-2">{cashTransactionLabels[transaction.type] || transaction.type}</td>
+                                                                            <td className="px-3 py-2">
+                                                                                {transaction.type === 'closing' ? '-' : formatPaymentMethod(getTransactionMethod(transaction))}
+                                                                            </td>
+                                                                            <td className={`px-3 py-2 text-right font-medium ${getTransactionEffect(transaction) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                                                                {formatCurrency(getTransactionEffect(transaction))}
+                                                                            </td>
+                                                                        </tr>
+                                                                    ))}
+                                                                </tbody>
+                                                            </table>
+                                                        </div>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Reopen Modal */}
+            {reopeningRegister && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+                    <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-6">
+                        <h3 className="text-lg font-bold text-gray-900 mb-4">Reabrir Caixa</h3>
+                        <p className="text-gray-600 mb-4">
+                            Caixa de <strong>{getOperatorName(reopeningRegister.user_id)}</strong> aberto em{' '}
+                            {format(new Date(reopeningRegister.opened_at), 'dd/MM/yyyy HH:mm')}. O fechamento atual será desfeito e ficará registrado no histórico.
+                        </p>
+                        <form onSubmit={handleReopen} className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+                                <textarea
+                                    required
+                                    rows={3}
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    value={reopenReason}
+                                    onChange={e => setReopenReason(e.target.value)}
+                                />
+                            </div>
+                            <div className="flex gap-3 mt-6">
+                                <button
+                                    type="button"
+                                    onClick={() => setReopeningRegister(null)}
+                                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={reopening || !reopenReason.trim()}
+                                    className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 font-medium disabled:opacity-50"
+                                >
+                                    {reopening ? 'Reabrindo...' : 'Reabrir'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,465 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, FileText, Phone, Mail, MapPin } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { formatCurrency, subtractMoney, sumMoney } from '../lib/money';
+import { formatPaymentMethod } from '../lib/paymentMethods';
+import {
+    buildStatement,
+    generateStatementPdf,
+    type StatementInstallment,
+    type StatementRenegotiation,
+    type StatementSale
+} from '../lib/clientStatement';
+
+interface Client {
+    id: string;
+    name: string;
+    phone: string | null;
+    email: string | null;
+    address: string | null;
+    credit_limit: number | null;
+}
+
+interface Sale extends StatementSale {
+    sale_items: {
+        id: string;
+        quantity: number;
+        returned_quantity: number;
+        unit_price: number;
+        product: {
+            name: string;
+        };
+    }[];
+    returns: {
+        id: string;
+        created_at: string;
+        refund_method: 'cash' | 'store_credit';
+        returned_amount: number;
+        exchange_amount: number;
+        refund_amount: number;
+        reason: string | null;
+    }[];
+}
+
+interface ClientCredit {
+    id: string;
+    amount: number;
+    description: string;
+    created_at: string;
+}
+
+const statusLabels: Record<string, string> = {
+    pending: 'Pendente',
+    overdue: 'Atrasada',
+    paid: 'Paga',
+    cancelled: 'Cancelada',
+    renegotiated: 'Renegociada'
+};
+
+const statusColors: Record<string, string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    overdue: 'bg-red-100 text-red-800',
+    paid: 'bg-green-100 text-green-800',
+    cancelled: 'bg-gray-100 text-gray-800',
+    renegotiated: 'bg-purple-100 text-purple-800'
+};
+
+const isOpen = (inst: StatementInstallment) => inst.status === 'pending' || inst.status === 'overdue';
+
+export const ClientStatement: React.FC = () => {
+    const { id } = useParams<{ id: string }>();
+    const [client, setClient] = useState<Client | null>(null);
+    const [sales, setSales] = useState<Sale[]>([]);
+    const [installments, setInstallments] = useState<StatementInstallment[]>([]);
+    const [renegotiations, setRenegotiations] = useState<StatementRenegotiation[]>([]);
+    const [credits, setCredits] = useState<ClientCredit[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [startDate, setStartDate] = useState(format(subDays(new Date(), 90), 'yyyy-MM-dd'));
+    const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+    useEffect(() => {
+        if (id) fetchAccount(id);
+    }, [id]);
+
+    // The whole history is loaded: the opening balance of any period depends on it
+    const fetchAccount = async (clientId: string) => {
+        setLoading(true);
+        try {
+            const [clientResult, salesResult, installmentsResult, renegotiationsResult, creditsResult] = await Promise.all([
+                supabase
+                    .from('clients')
+                    .select('id, name, phone, email, address, credit_limit')
+                    .eq('id', clientId)
+                    .single(),
+                supabase
+                    .from('sales')
+                    .select(`
+                        id,
+                        created_at,
+                        total_amount,
+                        status,
+                        cancelled_at,
+                        payments:sale_payments (method, amount),
+                        sale_items (
+                            id,
+                            quantity,
+                            returned_quantity,
+                            unit_price,
+                            product:products (name)
+                        ),
+                        returns:sale_returns!sale_id (
+                            id,
+                            created_at,
+                            refund_method,
+                            returned_amount,
+                            exchange_amount,
+                            refund_amount,
+                            reason
+                        )
+                    `)
+                    .eq('client_id', clientId)
+                    .order('created_at')
+                    .overrideTypes<Sale[], { merge: false }>(),
+                supabase
+                    .from('installments')
+                    .select(`
+                        id,
+                        sale_id,
+                        renegotiation_id,
+                        installment_number,
+                        due_date,
+                        amount,
+                        principal_paid,
+                        status,
+                        payments:installment_payments (id, amount, late_fee, interest, total, paid_at, reversed_at)
+                    `)
+                    .eq('client_id', clientId)
+                    .order('due_date'),
+                supabase
+                    .from('renegotiations')
+                    .select('id, created_at, original_amount, new_amount, installments_count')
+                    .eq('client_id', clientId)
+                    .order('created_at'),
+                supabase
+                    .from('client_credits')
+                    .select('id, amount, description, created_at')
+                    .eq('client_id', clientId)
+                    .order('created_at')
+            ]);
+
+            if (clientResult.error) throw clientResult.error;
+            if (salesResult.error) throw salesResult.error;
+            if (installmentsResult.error) throw installmentsResult.error;
+            if (renegotiationsResult.error) throw renegotiationsResult.error;
+            if (creditsResult.error) throw creditsResult.error;
+
+            setClient(clientResult.data);
+            setSales(salesResult.data || []);
+            setInstallments((installmentsResult.data || []) as StatementInstallment[]);
+            setRenegotiations(renegotiationsResult.data || []);
+            setCredits(creditsResult.data || []);
+        } catch (error) {
+            console.error('Error fetching client account:', error);
+            alert('Erro ao carregar extrato do cliente');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    if (loading) {
+        return <div className="p-8 text-center text-gray-500">Carregando...</div>;
+    }
+
+    if (!client) {
+        return <div className="p-8 text-center text-gray-500">Cliente não encontrado</div>;
+    }
+
+    const [startYear, startMonth, startDay] = startDate.split('-').map(Number);
+    const [endYear, endMonth, endDay] = endDate.split('-').map(Number);
+    const from = new Date(startYear, startMonth - 1, startDay, 0, 0, 0, 0);
+    const to = new Date(endYear, endMonth - 1, endDay, 23, 59, 59, 999);
+    const inPeriod = (value: string) => new Date(value) >= from && new Date(value) <= to;
+
+    const statement = buildStatement({ sales, installments, renegotiations }, from, to);
+    const openInstallments = installments.filter(isOpen);
+    const openBalance = sumMoney(openInstallments.map(inst => subtractMoney(inst.amount, inst.principal_paid)));
+    const overdueBalance = sumMoney(openInstallments
+        .filter(inst => inst.status === 'overdue')
+        .map(inst => subtractMoney(inst.amount, inst.principal_paid)));
+    const storeCredit = sumMoney(credits.map(c => c.amount));
+    const periodSales = sales.filter(sale => inPeriod(sale.created_at));
+    const periodReturns = sales.flatMap(sale => sale.returns.map(ret => ({ ...ret, saleId: sale.id }))).filter(ret => inPeriod(ret.created_at));
+
+    let creditBalance = 0;
+    const creditEntries = credits.map(entry => {
+        creditBalance = sumMoney([creditBalance, entry.amount]);
+        return { ...entry, balance: creditBalance };
+    });
+
+    const handleExportPDF = () => {
+        generateStatementPdf({
+            clientName: client.name,
+            from: startDate,
+            to: endDate,
+            statement,
+            openInstallments,
+            storeCredit
+        });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <div>
+                    <Link to="/clients" className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-1">
+                        <ArrowLeft className="h-4 w-4 mr-1" />
+                        Clientes
+                    </Link>
+                    <h1 className="text-2xl font-bold text-gray-900">{client.name}</h1>
+                    <div className="flex flex-wrap gap-4 text-sm text-gray-500 mt-1">
+                        {client.phone && <span className="flex items-center gap-1"><Phone className="h-4 w-4" />{client.phone}</span>}
+                        {client.email && <span className="flex items-center gap-1"><Mail className="h-4 w-4" />{client.email}</span>}
+                        {client.address && <span className="flex items-center gap-1"><MapPin className="h-4 w-4" />{client.address}</span>}
+                    </div>
+                </div>
+                <button
+                    onClick={handleExportPDF}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    title="Exportar extrato do período"
+                >
+                    <FileText className="h-4 w-4 mr-2" />
+                    Extrato PDF
+                </button>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+                    <p className="text-sm text-gray-500">Saldo devedor</p>
+                    <p className="text-lg font-bold text-gray-900">{formatCurrency(openBalance)}</p>
+                    <p className="text-xs text-gray-400">{openInstallments.length} parcela(s) em aberto</p>
+                </div>
+                <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+                    <p className="text-sm text-gray-500">Em atraso</p>
+                    <p className={`text-lg font-bold ${overdueBalance > 0 ? 'text-red-600' : 'text-gray-900'}`}>{formatCurrency(overdueBalance)}</p>
+                </div>
+                <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+                    <p className="text-sm text-gray-500">Crédito na loja</p>
+                    <p className="text-lg font-bold text-green-600">{formatCurrency(storeCredit)}</p>
+                </div>
+                <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+                    <p className="text-sm text-gray-500">Limite de crédito</p>
+                    <p className="text-lg font-bold text-gray-900">
+                        {client.credit_limit !== null ? formatCurrency(client.credit_limit) : 'Sem limite'}
+                    </p>
+                    {client.credit_limit !== null && (
+                        <p className="text-xs text-gray-400">Disponível: {formatCurrency(Math.max(0, subtractMoney(client.credit_limit, openBalance)))}</p>
+                    )}
+                </div>
+            </div>
+
+            {/* Statement */}
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+                <div className="p-4 border-b border-gray-200 flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+                    <h2 className="text-lg font-semibold text-gray-900">Extrato</h2>
+                    <div className="flex items-center gap-2 text-sm">
+                        <input
+                            type="date"
+                            value={startDate}
+                            onChange={e => setStartDate(e.target.value || startDate)}
+                            className="px-3 py-2 border border-gray-300 rounded-md"
+                        />
+                        <span className="text-gray-500">a</span>
+                        <input
+                            type="date"
+                            value={endDate}
+                            onChange={e => setEndDate(e.target.value || endDate)}
+                            className="px-3 py-2 border border-gray-300 rounded-md"
+                        />
+                    </div>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Data</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Descrição</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Débito</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Crédito</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Saldo</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            <tr className="bg-gray-50 text-gray-600">
+                                <td className="px-6 py-2"></td>
+                                <td className="px-6 py-2 font-medium">Saldo anterior</td>
+                                <td className="px-6 py-2"></td>
+                                <td className="px-6 py-2"></td>
+                                <td className="px-6 py-2 text-right font-medium">{formatCurrency(statement.openingBalance)}</td>
+                            </tr>
+                            {statement.entries.length === 0 ? (
+                                <tr>
+                                    <td colSpan={5} className="px-6 py-4 text-center text-gray-500">Nenhuma movimentação no período</td>
+                                </tr>
+                            ) : (
+                                statement.entries.map((entry, index) => (
+                                    <tr key={index}>
+                                        <td className="px-6 py-2 whitespace-nowrap text-gray-500">{format(new Date(entry.date), 'dd/MM/yyyy HH:mm')}</td>
+                                        <td className="px-6 py-2 text-gray-900">{entry.description}</td>
+                                        <td className="px-6 py-2 text-right text-red-600">{entry.debit > 0 ? formatCurrency(entry.debit) : ''}</td>
+                                        <td className="px-6 py-2 text-right text-green-600">{entry.credit > 0 ? formatCurrency(entry.credit) : ''}</td>
+                                        <td className="px-6 py-2 text-right font-medium">{formatCurrency(entry.balance)}</td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                        <tfoot className="bg-gray-50 font-bold">
+                            <tr>
+                                <td className="px-6 py-3"></td>
+                                <td className="px-6 py-3">Saldo final</td>
+                                <td className="px-6 py-3"></td>
+                                <td className="px-6 py-3"></td>
+                                <td className="px-6 py-3 text-right">{formatCurrency(statement.closingBalance)}</td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+            </div>
+
+            {/* Installments */}
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+                <h2 className="p-4 border-b border-gray-200 text-lg font-semibold text-gray-900">Parcelas</h2>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vencimento</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Parcela</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Valor</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Pago</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Saldo</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {installments.length === 0 ? (
+                                <tr>
+                                    <td colSpan={6} className="px-6 py-4 text-center text-gray-500">Nenhuma parcela</td>
+                                </tr>
+                            ) : (
+                                // Open parcels first, then the rest by due date
+                                [...openInstallments, ...installments.filter(inst => !isOpen(inst))].map(inst => (
+                                    <tr key={inst.id}>
+                                        <td className="px-6 py-2 whitespace-nowrap">{format(new Date(`${inst.due_date}T00:00:00`), 'dd/MM/yyyy')}</td>
+                                        <td className="px-6 py-2 text-gray-500">
+                                            {inst.installment_number}ª - {inst.sale_id ? `Venda #${inst.sale_id.slice(0, 8)}` : `Acordo #${(inst.renegotiation_id || '').slice(0, 8)}`}
+                                        </td>
+                                        <td className="px-6 py-2 text-right">{formatCurrency(inst.amount)}</td>
+                                        <td className="px-6 py-2 text-right">{formatCurrency(inst.principal_paid)}</td>
+                                        <td className="px-6 py-2 text-right font-medium">
+                                            {isOpen(inst) ? formatCurrency(subtractMoney(inst.amount, inst.principal_paid)) : '-'}
+                                        </td>
+                                        <td className="px-6 py-2">
+                                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusColors[inst.status] || 'bg-gray-100 text-gray-800'}`}>
+                                                {statusLabels[inst.status] || inst.status}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Purchases in the period */}
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+                <h2 className="p-4 border-b border-gray-200 text-lg font-semibold text-gray-900">Compras no período</h2>
+                {periodSales.length === 0 ? (
+                    <div className="p-4 text-center text-sm text-gray-500">Nenhuma compra no período</div>
+                ) : (
+                    <ul className="divide-y divide-gray-200">
+                        {[...periodSales].reverse().map(sale => (
+                            <li key={sale.id} className="p-4 text-sm">
+                                <div className="flex justify-between">
+                                    <div className="font-medium text-gray-900">
+                                        Venda #{sale.id.slice(0, 8)} - {format(new Date(sale.created_at), 'dd/MM/yyyy HH:mm')}
+                                        {sale.status === 'cancelled' && (
+                                            <span className="ml-2 px-2 text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">Cancelada</span>
+                                        )}
+                                    </div>
+                                    <div className={`font-bold ${sale.status === 'cancelled' ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                                        {formatCurrency(sale.total_amount)}
+                                    </div>
+                                </div>
+                                <div className="text-gray-600 mt-1">
+                                    {sale.sale_items.map(item => (
+                                        <div key={item.id}>
+                                            {item.quantity}x {item.product?.name} - {formatCurrency(item.unit_price)}
+                                            {item.returned_quantity > 0 && <span className="text-orange-600"> ({item.returned_quantity} devolvido)</span>}
+                                        </div>
+                                    ))}
+                                </div>
+                                <div className="text-xs text-gray-500 mt-1">
+                                    {sale.payments.map(p => `${formatPaymentMethod(p.method)}: ${formatCurrency(p.amount)}`).join(' | ')}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Returns in the period */}
+                <div className="bg-white shadow rounded-lg overflow-hidden">
+                    <h2 className="p-4 border-b border-gray-200 text-lg font-semibold text-gray-900">Devoluções no período</h2>
+                    {periodReturns.length === 0 ? (
+                        <div className="p-4 text-center text-sm text-gray-500">Nenhuma devolução no período</div>
+                    ) : (
+                        <ul className="divide-y divide-gray-200 text-sm">
+                            {periodReturns.map(ret => (
+                                <li key={ret.id} className="p-4 flex justify-between">
+                                    <div>
+                                        <div className="text-gray-900">
+                                            Venda #{ret.saleId.slice(0, 8)} - {format(new Date(ret.created_at), 'dd/MM/yyyy')}
+                                        </div>
+                                        <div className="text-xs text-gray-500">
+                                            {ret.exchange_amount > 0 ? `Troca de ${formatCurrency(ret.exchange_amount)}` : 'Devolução'}
+                                            {ret.refund_amount > 0 && ` - reembolso ${ret.refund_method === 'store_credit' ? 'em crédito' : 'em dinheiro'} de ${formatCurrency(ret.refund_amount)}`}
+                                            {ret.reason && ` - ${ret.reason}`}
+                                        </div>
+                                    </div>
+                                    <div className="font-medium text-gray-900">{formatCurrency(ret.returned_amount)}</div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {/* Store credit ledger */}
+                <div className="bg-white shadow rounded-lg overflow-hidden">
+                    <h2 className="p-4 border-b border-gray-200 text-lg font-semibold text-gray-900">Crédito na loja</h2>
+                    {creditEntries.length === 0 ? (
+                        <div className="p-4 text-center text-sm text-gray-500">Nenhuma movimentação de crédito</div>
+                    ) : (
+                        <table className="min-w-full divide-y divide-gray-200 text-sm">
+                            <tbody className="divide-y divide-gray-200">
+                                {[...creditEntries].reverse().map(entry => (
+                                    <tr key={entry.id}>
+                                        <td className="px-4 py-2 whitespace-nowrap text-gray-500">{format(new Date(entry.created_at), 'dd/MM/yyyy')}</td>
+                                        <td className="px-4 py-2 text-gray-900">{entry.description}</td>
+                                        <td className={`px-4 py-2 text-right ${entry.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                            {entry.amount >= 0 ? '+' : '-'} {formatCurrency(Math.abs(entry.amount))}
+                                        </td>
+                                        <td className="px-4 py-2 text-right font-medium">{formatCurrency(entry.balance)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
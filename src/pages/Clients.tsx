@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { Plus, Search, Edit, Trash2, FileSpreadsheet, FileText } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { ClientModal } from '../components/ClientModal';
 import jsPDF from 'jspdf';
@@ -12,6 +13,7 @@ interface Client {
     phone: string;
     email: string;
     address: string;
+    credit_limit: number | null;
 }
 
 export const Clients: React.FC = () => {
@@ -175,7 +177,12 @@ export const Clients: React.FC = () => {
                                 filteredClients.map((client) => (
                                     <tr key={client.id} className="hover:bg-gray-50">
                                         <td className="px-6 py-4 whitespace-nowrap">
-                                            <div className="text-sm font-medium text-gray-900">{client.name}</div>
+                                            <Link to={`/clients/${client.id}`} className="text-sm font-medium text-gray-900 hover:text-blue-600">
+                                                {client.name}
+                                            </Link>
+                                            {client.credit_limit !== null && (
+                                                <div className="text-xs text-gray-500">Limite: R$ {client.credit_limit.toFixed(2)}</div>
+                                            )}
                                         </td>
                                         <td className="px-6 py-4 whitespace-nowrap">
                                             <div className="text-sm text-gray-900">{client.email}</div>
@@ -0,0 +1,672 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Search, MessageCircle, Copy, Mail, PhoneCall, ChevronDown, ChevronRight, Settings as SettingsIcon } from 'lucide-react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getRpcErrorMessage } from '../lib/rpcErrors';
+import { formatCurrency, subtractMoney, sumMoney } from '../lib/money';
+import { calculateLateCharges, type LateFeeSettings } from '../lib/lateFees';
+import { fetchCarneSettings, type CarneSettings } from '../lib/carne';
+import { buildPixPayload } from '../lib/pix';
+import {
+    buildMailtoLink,
+    buildWhatsAppLink,
+    collectionPlaceholders,
+    renderTemplate,
+    type CollectionTemplate
+} from '../lib/collectionMessages';
+
+interface OpenInstallment {
+    id: string;
+    due_date: string;
+    amount: number;
+    principal_paid: number;
+    status: 'pending' | 'overdue';
+    client: {
+        id: string;
+        name: string;
+        phone: string | null;
+        email: string | null;
+    };
+}
+
+interface CollectionContact {
+    id: string;
+    client_id: string;
+    channel: string;
+    outcome: string;
+    promise_date: string | null;
+    promise_amount: number | null;
+    notes: string | null;
+    created_at: string;
+    user: {
+        full_name: string | null;
+        email: string;
+    } | null;
+}
+
+interface WorklistRow {
+    clientId: string;
+    clientName: string;
+    phone: string | null;
+    email: string | null;
+    parcels: number;
+    balance: number;
+    total: number; // Balance plus late charges as of today
+    oldestDueDate: string;
+    daysLate: number;
+    contacts: CollectionContact[];
+}
+
+const channelLabels: Record<string, string> = {
+    whatsapp: 'WhatsApp',
+    phone: 'Ligação',
+    sms: 'SMS',
+    email: 'E-mail',
+    in_person: 'Presencial'
+};
+
+const outcomeLabels: Record<string, string> = {
+    message_sent: 'Mensagem enviada',
+    no_answer: 'Não atendeu',
+    promised: 'Prometeu pagar',
+    refused: 'Recusou',
+    wrong_number: 'Contato errado',
+    other: 'Outro'
+};
+
+const emptyTemplate = { id: '', name: '', subject: '', body: '' };
+
+export const Collections: React.FC = () => {
+    const { role, user } = useAuth();
+    const [installments, setInstallments] = useState<OpenInstallment[]>([]);
+    const [contacts, setContacts] = useState<CollectionContact[]>([]);
+    const [templates, setTemplates] = useState<CollectionTemplate[]>([]);
+    const [lateFeeSettings, setLateFeeSettings] = useState<LateFeeSettings | null>(null);
+    const [storeSettings, setStoreSettings] = useState<CarneSettings | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [dueFilter, setDueFilter] = useState<'all' | 'overdue' | 'today'>('all');
+    const [templateId, setTemplateId] = useState('');
+    const [expandedClients, setExpandedClients] = useState<Set<string>>(new Set());
+    const [contactClient, setContactClient] = useState<WorklistRow | null>(null);
+    const [contactForm, setContactForm] = useState({ channel: 'phone', outcome: 'no_answer', promise_date: '', promise_amount: 0, notes: '' });
+    const [savingContact, setSavingContact] = useState(false);
+    const [showTemplates, setShowTemplates] = useState(false);
+    const [editingTemplate, setEditingTemplate] = useState<CollectionTemplate>(emptyTemplate);
+
+    useEffect(() => {
+        fetchWorklist();
+        fetchTemplates();
+        fetchSettings();
+    }, []);
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    const fetchWorklist = async () => {
+        try {
+            const [installmentsResult, contactsResult] = await Promise.all([
+                supabase
+                    .from('installments')
+                    .select(`
+                        id,
+                        due_date,
+                        amount,
+                        principal_paid,
+                        status,
+                        client:clients (id, name, phone, email)
+                    `)
+                    .in('status', ['pending', 'overdue'])
+                    .lte('due_date', format(new Date(), 'yyyy-MM-dd'))
+                    .order('due_date')
+                    .overrideTypes<OpenInstallment[], { merge: false }>(),
+                supabase
+                    .from('collection_contacts')
+                    .select('*, user:profiles (full_name, email)')
+                    .order('created_at', { ascending: false })
+            ]);
+
+            if (installmentsResult.error) throw installmentsResult.error;
+            if (contactsResult.error) throw contactsResult.error;
+
+            setInstallments(installmentsResult.data || []);
+            setContacts(contactsResult.data || []);
+        } catch (error) {
+            console.error('Error fetching collection worklist:', error);
+            alert('Erro ao carregar lista de cobrança');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchTemplates = async () => {
+        const { data } = await supabase
+            .from('collection_templates')
+            .select('id, name, subject, body')
+            .order('name');
+        setTemplates(data || []);
+        if (data && data.length > 0) setTemplateId(current => current || data[0].id);
+    };
+
+    const fetchSettings = async () => {
+        const { data } = await supabase
+            .from('store_settings')
+            .select('late_fee_percent, daily_interest_percent, late_fee_grace_days')
+            .maybeSingle();
+        setLateFeeSettings(data);
+        setStoreSettings(await fetchCarneSettings());
+    };
+
+    // One row per client, the most overdue first
+    const rows: WorklistRow[] = Object.values(installments
+        .filter(inst => dueFilter === 'all' || (dueFilter === 'today' ? inst.due_date === today : inst.due_date < today))
+        .filter(inst => inst.client.name.toLowerCase().includes(searchTerm.toLowerCase()))
+        .reduce<Record<string, WorklistRow>>((groups, inst) => {
+            const balance = subtractMoney(inst.amount, inst.principal_paid);
+            const charges = calculateLateCharges(balance, inst.due_date, today, lateFeeSettings);
+            const row = groups[inst.client.id] || {
+                clientId: inst.client.id,
+                clientName: inst.client.name,
+                phone: inst.client.phone,
+                email: inst.client.email,
+                parcels: 0,
+                balance: 0,
+                total: 0,
+                oldestDueDate: inst.due_date,
+                daysLate: 0,
+                contacts: contacts.filter(contact => contact.client_id === inst.client.id)
+            };
+
+            row.parcels += 1;
+            row.balance = sumMoney([row.balance, balance]);
+            row.total = sumMoney([row.total, charges.total]);
+            if (inst.due_date < row.oldestDueDate) row.oldestDueDate = inst.due_date;
+            row.daysLate = Math.max(0, differenceInCalendarDays(new Date(`${today}T00:00:00`), new Date(`${row.oldestDueDate}T00:00:00`)));
+            groups[inst.client.id] = row;
+            return groups;
+        }, {}))
+        .sort((a, b) => b.daysLate - a.daysLate || a.clientName.localeCompare(b.clientName));
+
+    const template = templates.find(t => t.id === templateId) || null;
+
+    const buildMessage = (row: WorklistRow) => {
+        const pix = storeSettings?.pix
+            ? buildPixPayload(storeSettings.pix, { amount: row.total, txid: `COB${row.clientId.replace(/-/g, '').slice(0, 20)}` })
+            : '';
+        const values = {
+            nome: row.clientName,
+            valor: formatCurrency(row.total),
+            parcelas: String(row.parcels),
+            vencimento: format(new Date(`${row.oldestDueDate}T00:00:00`), 'dd/MM/yyyy'),
+            dias_atraso: String(row.daysLate),
+            pix,
+            loja: storeSettings?.storeName || ''
+        };
+        return {
+            subject: renderTemplate(template?.subject || 'Cobrança', values),
+            text: renderTemplate(template?.body || '', values)
+        };
+    };
+
+    const openContactModal = (row: WorklistRow, channel: string, outcome: string) => {
+        setContactClient(row);
+        setContactForm({ channel, outcome, promise_date: '', promise_amount: 0, notes: '' });
+    };
+
+    const handleWhatsApp = (row: WorklistRow) => {
+        if (!row.phone) return;
+        window.open(buildWhatsAppLink(row.phone, buildMessage(row).text), '_blank');
+        openContactModal(row, 'whatsapp', 'message_sent');
+    };
+
+    const handleCopy = async (row: WorklistRow) => {
+        try {
+            await navigator.clipboard.writeText(buildMessage(row).text);
+            openContactModal(row, 'sms', 'message_sent');
+        } catch (error) {
+            console.error('Error copying message:', error);
+            alert('Não foi possível copiar o texto');
+        }
+    };
+
+    const handleEmail = (row: WorklistRow) => {
+        if (!row.email) return;
+        const message = buildMessage(row);
+        window.location.href = buildMailtoLink(row.email, message.subject, message.text);
+        openContactModal(row, 'email', 'message_sent');
+    };
+
+    const handleSaveContact = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!contactClient) return;
+        if (contactForm.outcome === 'promised' && !contactForm.promise_date) {
+            alert('Informe a data prometida para pagamento');
+            return;
+        }
+
+        setSavingContact(true);
+        try {
+            const { error } = await supabase
+                .from('collection_contacts')
+                .insert([{
+                    client_id: contactClient.clientId,
+                    user_id: user?.id,
+                    channel: contactForm.channel,
+                    outcome: contactForm.outcome,
+                    promise_date: contactForm.outcome === 'promised' ? contactForm.promise_date : null,
+                    promise_amount: contactForm.outcome === 'promised' && contactForm.promise_amount > 0 ? contactForm.promise_amount : null,
+                    notes: contactForm.notes || null
+                }]);
+
+            if (error) throw error;
+            setContactClient(null);
+            fetchWorklist();
+        } catch (error) {
+            console.error('Error saving contact:', error);
+            alert(getRpcErrorMessage(error, 'Erro ao registrar contato'));
+        }
+        setSavingContact(false);
+    };
+
+    const handleSaveTemplate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            const fields = {
+                name: editingTemplate.name,
+                subject: editingTemplate.subject || null,
+                body: editingTemplate.body,
+                updated_at: new Date().toISOString()
+            };
+            const { error } = editingTemplate.id
+                ? await supabase.from('collection_templates').update(fields).eq('id', editingTemplate.id)
+                : await supabase.from('collection_templates').insert([fields]);
+
+            if (error) throw error;
+            setEditingTemplate(emptyTemplate);
+            fetchTemplates();
+        } catch (error) {
+            console.error('Error saving template:', error);
+            alert('Erro ao salvar modelo');
+        }
+    };
+
+    const handleDeleteTemplate = async (id: string) => {
+        if (!window.confirm('Excluir este modelo?')) return;
+        try {
+            const { error } = await supabase.from('collection_templates').delete().eq('id', id);
+
+            if (error) throw error;
+            if (templateId === id) setTemplateId('');
+            setEditingTemplate(emptyTemplate);
+            fetchTemplates();
+        } catch (error) {
+            console.error('Error deleting template:', error);
+            alert('Erro ao excluir modelo');
+        }
+    };
+
+    const toggleClient = (clientId: string) => {
+        const next = new Set(expandedClients);
+        if (next.has(clientId)) next.delete(clientId);
+        else next.add(clientId);
+        setExpandedClients(next);
+    };
+
+    const getPromiseBadge = (row: WorklistRow) => {
+        const promise = row.contacts.find(contact => contact.outcome === 'promised');
+        if (!promise?.promise_date) return null;
+        const date = format(new Date(`${promise.promise_date}T00:00:00`), 'dd/MM/yyyy');
+        return promise.promise_date < today
+            ? <span className="px-2 text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">Promessa não cumprida ({date})</span>
+            : <span className="px-2 text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">Promessa para {date}</span>;
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <h1 className="text-2xl font-bold text-gray-900">Cobrança</h1>
+                <div className="flex gap-2 items-center">
+                    <label className="text-sm text-gray-600">Modelo</label>
+                    <select
+                        value={templateId}
+                        onChange={e => setTemplateId(e.target.value)}
+                        className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+                    >
+                        {templates.length === 0 && <option value="">Nenhum modelo</option>}
+                        {templates.map(t => (
+                            <option key={t.id} value={t.id}>{t.name}</option>
+                        ))}
+                    </select>
+                    {role === 'admin' && (
+                        <button
+                            onClick={() => setShowTemplates(true)}
+                            className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                            <SettingsIcon className="h-4 w-4 mr-2" />
+                            Modelos
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+                <div className="p-4 border-b border-gray-200 flex flex-col sm:flex-row gap-4">
+                    <div className="relative flex-1">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <Search className="h-5 w-5 text-gray-400" />
+                        </div>
+                        <input
+                            type="text"
+                            className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                            placeholder="Buscar cliente..."
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                        />
+                    </div>
+                    <select
+                        value={dueFilter}
+                        onChange={e => setDueFilter(e.target.value as 'all' | 'overdue' | 'today')}
+                        className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+                    >
+                        <option value="all">Vencidas e do dia</option>
+                        <option value="overdue">Somente vencidas</option>
+                        <option value="today">Vencem hoje</option>
+                    </select>
+                </div>
+
+                {loading ? (
+                    <div className="p-8 text-center text-gray-500">Carregando...</div>
+                ) : rows.length === 0 ? (
+                    <div className="p-8 text-center text-gray-500">Nenhum cliente para cobrar</div>
+                ) : (
+                    <ul className="divide-y divide-gray-200">
+                        {rows.map(row => (
+                            <li key={row.clientId}>
+                                <div className="p-4 flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                                    <div className="flex items-start gap-3 cursor-pointer" onClick={() => toggleClient(row.clientId)}>
+                                        {expandedClients.has(row.clientId)
+                                            ? <ChevronDown className="h-5 w-5 text-gray-400 mt-0.5" />
+                                            : <ChevronRight className="h-5 w-5 text-gray-400 mt-0.5" />}
+                                        <div>
+                                            <div className="flex flex-wrap items-center gap-2">
+                                                <Link
+                                                    to={`/clients/${row.clientId}`}
+                                                    onClick={e => e.stopPropagation()}
+                                                    className="font-medium text-gray-900 hover:text-blue-600"
+                                                >
+                                                    {row.clientName}
+                                                </Link>
+                                                {getPromiseBadge(row)}
+                                            </div>
+                                            <div className="text-sm text-gray-500">
+                                                {row.phone || 'Sem telefone'}
+                                                {row.email && ` - ${row.email}`}
+                                            </div>
+                                            <div className="text-sm">
+                                                <span className="font-medium text-gray-900">{formatCurrency(row.total)}</span>
+                                                <span className="text-gray-500">
+                                                    {' '}em {row.parcels} parcela(s)
+                                                    {row.total > row.balance && ` (${formatCurrency(row.balance)} + multa/juros)`}
+                                                    {' - '}
+                                                </span>
+                                                <span className={row.daysLate > 0 ? 'text-red-600' : 'text-yellow-600'}>
+                                                    {row.daysLate > 0 ? `${row.daysLate} dias de atraso` : 'vence hoje'}
+                                                </span>
+                                            </div>
+                                            {row.contacts[0] && (
+                                                <div className="text-xs text-gray-400">
+                                                    Último contato: {format(new Date(row.contacts[0].created_at), 'dd/MM/yyyy HH:mm')}
+                                                    {' - '}{channelLabels[row.contacts[0].channel]}: {outcomeLabels[row.contacts[0].outcome]}
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+                                    <div className="flex flex-wrap gap-2">
+                                        <button
+                                            onClick={() => handleWhatsApp(row)}
+                                            disabled={!row.phone || !template}
+                                            className="inline-flex items-center gap-1 px-3 py-1 text-sm border rounded-lg text-green-700 hover:bg-green-50 disabled:opacity-50"
+                                        >
+                                            <MessageCircle className="h-4 w-4" />
+                                            WhatsApp
+                                        </button>
+                                        <button
+                                            onClick={() => handleCopy(row)}
+                                            disabled={!template}
+                                            className="inline-flex items-center gap-1 px-3 py-1 text-sm border rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                        >
+                                            <Copy className="h-4 w-4" />
+                                            Copiar texto
+                                        </button>
+                                        <button
+                                            onClick={() => handleEmail(row)}
+                                            disabled={!row.email || !template}
+                                            className="inline-flex items-center gap-1 px-3 py-1 text-sm border rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                        >
+                                            <Mail className="h-4 w-4" />
+                                            E-mail
+                                        </button>
+                                        <button
+                                            onClick={() => openContactModal(row, 'phone', 'no_answer')}
+                                            className="inline-flex items-center gap-1 px-3 py-1 text-sm border rounded-lg text-blue-700 hover:bg-blue-50"
+                                        >
+                                            <PhoneCall className="h-4 w-4" />
+                                            Registrar contato
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {expandedClients.has(row.clientId) && (
+                                    <div className="px-12 pb-4">
+                                        <h4 className="text-sm font-medium text-gray-700 mb-2">Histórico de contatos</h4>
+                                        {row.contacts.length === 0 ? (
+                                            <p className="text-sm text-gray-500">Nenhum contato registrado</p>
+                                        ) : (
+                                            <table className="w-full text-sm">
+                                                <tbody className="divide-y divide-gray-200">
+                                                    {row.contacts.map(contact => (
+                                                        <tr key={contact.id}>
+                                                            <td className="py-1 text-gray-500 whitespace-nowrap">{format(new Date(contact.created_at), 'dd/MM/yyyy HH:mm')}</td>
+                                                            <td className="py-1 pl-4">{channelLabels[contact.channel]}</td>
+                                                            <td className="py-1 pl-4">
+                                                                {outcomeLabels[contact.outcome]}
+                                                                {contact.promise_date && ` para ${format(new Date(`${contact.promise_date}T00:00:00`), 'dd/MM/yyyy')}`}
+                                                                {contact.promise_amount && ` (${formatCurrency(contact.promise_amount)})`}
+                                                            </td>
+                                                            <td className="py-1 pl-4 text-gray-600">{contact.notes}</td>
+                                                            <td className="py-1 pl-4 text-gray-500">{contact.user?.full_name || contact.user?.email || '-'}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        )}
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            {/* Contact Modal */}
+            {contactClient && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+                    <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-6">
+                        <h3 className="text-lg font-bold text-gray-900 mb-4">Registrar Contato</h3>
+                        <p className="text-gray-600 mb-4">
+                            <strong>{contactClient.clientName}</strong> - {formatCurrency(contactClient.total)} em aberto
+                        </p>
+                        <form onSubmit={handleSaveContact} className="space-y-4">
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Canal</label>
+                                    <select
+                                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                        value={contactForm.channel}
+                                        onChange={e => setContactForm({ ...contactForm, channel: e.target.value })}
+                                    >
+                                        {Object.entries(channelLabels).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Resultado</label>
+                                    <select
+                                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                        value={contactForm.outcome}
+                                        onChange={e => setContactForm({ ...contactForm, outcome: e.target.value })}
+                                    >
+                                        {Object.entries(outcomeLabels).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            {contactForm.outcome === 'promised' && (
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Pagará em</label>
+                                        <input
+                                            type="date"
+                                            required
+                                            min={today}
+                                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                            value={contactForm.promise_date}
+                                            onChange={e => setContactForm({ ...contactForm, promise_date: e.target.value })}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Valor prometido</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            placeholder={contactClient.total.toFixed(2)}
+                                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                            value={contactForm.promise_amount || ''}
+                                            onChange={e => setContactForm({ ...contactForm, promise_amount: parseFloat(e.target.value) || 0 })}
+                                        />
+                                    </div>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Observações</label>
+                                <textarea
+                                    rows={2}
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    value={contactForm.notes}
+                                    onChange={e => setContactForm({ ...contactForm, notes: e.target.value })}
+                                />
+                            </div>
+
+                            <div className="flex gap-3 mt-6">
+                                <button
+                                    type="button"
+                                    onClick={() => setContactClient(null)}
+                                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={savingContact}
+                                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+                                >
+                                    {savingContact ? 'Salvando...' : 'Registrar'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Templates Modal */}
+            {showTemplates && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+                    <div className="bg-white rounded-xl shadow-lg max-w-3xl w-full p-6">
+                        <h3 className="text-lg font-bold text-gray-900 mb-4">Modelos de Mensagem</h3>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                            <ul className="divide-y divide-gray-200 text-sm border rounded-lg">
+                                {templates.map(t => (
+                                    <li key={t.id} className="flex justify-between items-center px-3 py-2">
+                                        <button
+                                            onClick={() => setEditingTemplate({ ...t, subject: t.subject || '' })}
+                                            className={`text-left hover:text-blue-600 ${editingTemplate.id === t.id ? 'font-medium text-blue-600' : 'text-gray-900'}`}
+                                        >
+                                            {t.name}
+                                        </button>
+                                        <button onClick={() => handleDeleteTemplate(t.id)} className="text-xs text-red-600 hover:text-red-800">
+                                            Excluir
+                                        </button>
+                                    </li>
+                                ))}
+                                <li className="px-3 py-2">
+                                    <button onClick={() => setEditingTemplate(emptyTemplate)} className="text-blue-600 hover:text-blue-800">
+                                        + Novo modelo
+                                    </button>
+                                </li>
+                            </ul>
+
+                            <form onSubmit={handleSaveTemplate} className="md:col-span-2 space-y-3">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Nome</label>
+                                    <input
+                                        type="text"
+                                        required
+                                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                        value={editingTemplate.name}
+                                        onChange={e => setEditingTemplate({ ...editingTemplate, name: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Assunto (e-mail)</label>
+                                    <input
+                                        type="text"
+                                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                        value={editingTemplate.subject || ''}
+                                        onChange={e => setEditingTemplate({ ...editingTemplate, subject: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Mensagem</label>
+                                    <textarea
+                                        required
+                                        rows={5}
+                                        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                        value={editingTemplate.body}
+                                        onChange={e => setEditingTemplate({ ...editingTemplate, body: e.target.value })}
+                                    />
+                                    <p className="text-xs text-gray-500 mt-1">
+                                        {collectionPlaceholders.map(p => `{${p.key}} ${p.description.toLowerCase()}`).join(' - ')}
+                                    </p>
+                                </div>
+                                <div className="flex gap-3">
+                                    <button
+                                        type="button"
+                                        onClick={() => {
+                                            setShowTemplates(false);
+                                            setEditingTemplate(emptyTemplate);
+                                        }}
+                                        className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                                    >
+                                        Fechar
+                                    </button>
+                                    <button
+                                        type="submit"
+                                        className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+                                    >
+                                        {editingTemplate.id ? 'Salvar modelo' : 'Criar modelo'}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { DollarSign, Users, AlertTriangle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { sumMoney } from '../lib/money';
 
 export const Dashboard: React.FC = () => {
     const [stats, setStats] = useState({
@@ -24,9 +25,10 @@ export const Dashboard: React.FC = () => {
             const { data: salesData } = await supabase
                 .from('sales')
                 .select('total_amount')
+                .eq('status', 'completed')
                 .gte('created_at', today.toISOString());
 
-            const dailySales = salesData?.reduce((sum, sale) => sum + sale.total_amount, 0) || 0;
+            const dailySales = sumMoney(salesData?.map(sale => sale.total_amount) || []);
 
             // 2. Total Clients
             const { count: clientCount } = await supabase
@@ -1,47 +1,109 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Filter, ChevronDown, ChevronRight, User, CheckCircle } from 'lucide-react';
+import { Search, Filter, ChevronDown, ChevronRight, User, CheckCircle, Handshake, FileText, Phone } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { subtractMoney, sumMoney, toCents } from '../lib/money';
+import { calculateLateCharges, type LateFeeSettings } from '../lib/lateFees';
+import { getRpcErrorMessage } from '../lib/rpcErrors';
 import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { RenegotiationModal } from '../components/RenegotiationModal';
+import { ReceiveInstallmentsModal } from '../components/ReceiveInstallmentsModal';
+import { generateAgreementPdf } from '../lib/renegotiationAgreement';
+import { printCarne } from '../lib/carne';
+import { printInstallmentReceipt } from '../lib/installmentReceipt';
+import { formatPaymentMethod } from '../lib/paymentMethods';
 
 interface Installment {
     id: string;
-    sale_id: string;
+    sale_id: string | null;
     installment_number: number;
     due_date: string;
     amount: number;
-    status: 'pending' | 'paid' | 'overdue';
-    sale: {
-        client: {
-            name: string;
-        };
+    status: 'pending' | 'paid' | 'overdue' | 'cancelled' | 'renegotiated';
+    late_fee: number;
+    interest: number;
+    paid_amount: number | null;
+    principal_paid: number;
+    payments: InstallmentPayment[];
+    renegotiation_id: string | null;
+    renegotiated_in: string | null;
+    client: {
+        id: string;
+        name: string;
+        phone: string | null;
     };
 }
 
+interface Renegotiation {
+    id: string;
+    client_id: string;
+    created_at: string;
+    original_amount: number;
+    discount: number;
+    addition: number;
+    new_amount: number;
+    installments_count: number;
+    notes: string | null;
+    user: {
+        full_name: string | null;
+        email: string;
+    } | null;
+}
+
+interface InstallmentPayment {
+    id: string;
+    amount: number;
+    late_fee: number;
+    interest: number;
+    total: number;
+    payment_method: string | null;
+    paid_at: string;
+    reversed_at: string | null;
+    reversal_reason: string | null;
+    user: {
+        full_name: string | null;
+        email: string;
+    } | null;
+}
+
 interface ClientGroup {
     clientId: string;
     clientName: string;
+    clientPhone: string | null;
+    totalOpen: number; // Whole open balance of the client, whatever the filters
+    lastPaymentAt: string | null;
     installments: Installment[];
     totalPending: number;
     totalOverdue: number;
 }
 
 export const Installments: React.FC = () => {
-    const { user } = useAuth();
+    const { role } = useAuth();
     const [installments, setInstallments] = useState<Installment[]>([]);
     const [clientGroups, setClientGroups] = useState<ClientGroup[]>([]);
     const [loading, setLoading] = useState(true);
     const [searchTerm, setSearchTerm] = useState('');
-    const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'paid' | 'overdue'>('all');
+    const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'paid' | 'overdue' | 'renegotiated'>('all');
     const [viewMode, setViewMode] = useState<'all' | 'today'>('all');
     const [expandedClients, setExpandedClients] = useState<Set<string>>(new Set());
     const [showPaymentModal, setShowPaymentModal] = useState(false);
-    const [selectedInstallment, setSelectedInstallment] = useState<{ id: string, amount: number, clientName: string } | null>(null);
+    const [selectedInstallment, setSelectedInstallment] = useState<{ id: string, balance: number, dueDate: string, clientName: string } | null>(null);
+    const [paymentAmount, setPaymentAmount] = useState<number>(0);
     const [paymentDate, setPaymentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
     const [paymentMethod, setPaymentMethod] = useState('money');
+    const [lateFeeSettings, setLateFeeSettings] = useState<LateFeeSettings | null>(null);
+    const [reversingPayment, setReversingPayment] = useState<(InstallmentPayment & { installmentNumber: number }) | null>(null);
+    const [reversalReason, setReversalReason] = useState('');
+    const [reversing, setReversing] = useState(false);
+    const [renegotiations, setRenegotiations] = useState<Renegotiation[]>([]);
+    const [renegotiatingClient, setRenegotiatingClient] = useState<{ id: string, name: string, installments: Installment[] } | null>(null);
+    const [receivingClient, setReceivingClient] = useState<{ name: string, installments: Installment[] } | null>(null);
+    const [receiptSelection, setReceiptSelection] = useState<Set<string>>(new Set());
 
     useEffect(() => {
         fetchInstallments();
+        fetchLateFeeSettings();
     }, []);
 
     useEffect(() => {
@@ -54,17 +116,36 @@ export const Installments: React.FC = () => {
                 .from('installments')
                 .select(`
                     *,
-                    sale:sales (
-                        client:clients (
-                            id,
-                            name
-                        )
+                    payments:installment_payments (
+                        id,
+                        amount,
+                        late_fee,
+                        interest,
+                        total,
+                        payment_method,
+                        paid_at,
+                        reversed_at,
+                        reversal_reason,
+                        user:profiles!user_id (full_name, email)
+                    ),
+                    client:clients (
+                        id,
+                        name,
+                        phone
                     )
                 `)
                 .order('due_date');
 
             if (error) throw error;
             if (data) setInstallments(data);
+
+            const { data: renegotiationData, error: renegotiationError } = await supabase
+                .from('renegotiations')
+                .select('*, user:profiles (full_name, email)')
+                .order('created_at', { ascending: false });
+
+            if (renegotiationError) throw renegotiationError;
+            setRenegotiations(renegotiationData || []);
         } catch (error) {
             console.error('Error fetching installments:', error);
         } finally {
@@ -72,13 +153,24 @@ export const Installments: React.FC = () => {
         }
     };
 
+    const fetchLateFeeSettings = async () => {
+        const { data } = await supabase
+            .from('store_settings')
+            .select('late_fee_percent, daily_interest_percent, late_fee_grace_days')
+            .maybeSingle();
+        setLateFeeSettings(data);
+    };
+
+    // Principal still open on a parcel
+    const getBalance = (installment: Installment) => subtractMoney(installment.amount, installment.principal_paid);
+
     const groupInstallments = () => {
         const groups: { [key: string]: ClientGroup } = {};
         const todayStr = format(new Date(), 'yyyy-MM-dd');
 
         installments.forEach(inst => {
             // Filter logic
-            const matchesSearch = inst.sale.client.name.toLowerCase().includes(searchTerm.toLowerCase());
+            const matchesSearch = inst.client.name.toLowerCase().includes(searchTerm.toLowerCase());
             const matchesStatus = statusFilter === 'all' || inst.status === statusFilter;
 
             let matchesDate = true;
@@ -88,12 +180,24 @@ export const Installments: React.FC = () => {
             }
 
             if (matchesSearch && matchesStatus && matchesDate) {
-                const clientId = inst.sale.client.name;
+                const clientId = inst.client.id;
 
                 if (!groups[clientId]) {
+                    const clientInstallments = installments.filter(other => other.client.id === clientId);
+                    const paymentDates = clientInstallments
+                        .flatMap(other => other.payments || [])
+                        .filter(payment => !payment.reversed_at)
+                        .map(payment => payment.paid_at)
+                        .sort();
+
                     groups[clientId] = {
                         clientId: clientId,
-                        clientName: inst.sale.client.name,
+                        clientName: inst.client.name,
+                        clientPhone: inst.client.phone,
+                        totalOpen: sumMoney(clientInstallments
+                            .filter(other => other.status === 'pending' || other.status === 'overdue')
+                            .map(getBalance)),
+                        lastPaymentAt: paymentDates.length > 0 ? paymentDates[paymentDates.length - 1] : null,
                         installments: [],
                         totalPending: 0,
                         totalOverdue: 0
@@ -103,9 +207,9 @@ export const Installments: React.FC = () => {
                 groups[clientId].installments.push(inst);
 
                 if (inst.status === 'pending') {
-                    groups[clientId].totalPending += inst.amount;
+                    groups[clientId].totalPending = sumMoney([groups[clientId].totalPending, getBalance(inst)]);
                 } else if (inst.status === 'overdue') {
-                    groups[clientId].totalOverdue += inst.amount;
+                    groups[clientId].totalOverdue = sumMoney([groups[clientId].totalOverdue, getBalance(inst)]);
                 }
             }
         });
@@ -113,18 +217,19 @@ export const Installments: React.FC = () => {
         setClientGroups(Object.values(groups).sort((a, b) => a.clientName.localeCompare(b.clientName)));
     };
 
-    const toggleClient = (clientName: string) => {
+    const toggleClient = (clientId: string) => {
         const newExpanded = new Set(expandedClients);
-        if (newExpanded.has(clientName)) {
-            newExpanded.delete(clientName);
+        if (newExpanded.has(clientId)) {
+            newExpanded.delete(clientId);
         } else {
-            newExpanded.add(clientName);
+            newExpanded.add(clientId);
         }
         setExpandedClients(newExpanded);
     };
 
-    const openPaymentModal = (id: string, amount: number, clientName: string) => {
-        setSelectedInstallment({ id, amount, clientName });
+    const openPaymentModal = (id: string, balance: number, dueDate: string, clientName: string) => {
+        setSelectedInstallment({ id, balance, dueDate, clientName });
+        setPaymentAmount(balance);
         setPaymentDate(format(new Date(), 'yyyy-MM-dd'));
         setPaymentMethod('money');
         setShowPaymentModal(true);
@@ -133,62 +238,153 @@ export const Installments: React.FC = () => {
     const handleConfirmPayment = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!selectedInstallment) return;
+        if (paymentAmount <= 0 || toCents(paymentAmount) > toCents(selectedInstallment.balance)) {
+            alert(`Informe um valor entre R$ 0,01 e R$ ${selectedInstallment.balance.toFixed(2)}`);
+            return;
+        }
 
         try {
-            const { error } = await supabase
-                .from('installments')
-                .update({ status: 'paid' })
-                .eq('id', selectedInstallment.id);
+            // Keep the selected day with the current time
+            const now = new Date();
+            const [year, month, day] = paymentDate.split('-').map(Number);
+            const timestamp = new Date(year, month - 1, day, now.getHours(), now.getMinutes(), now.getSeconds()).toISOString();
+
+            // Status, late charges and cash entry are written in a single transaction
+            const { data, error } = await supabase.rpc('receive_installment', {
+                p_installment_id: selectedInstallment.id,
+                p_payment_method: paymentMethod,
+                p_paid_at: timestamp,
+                p_amount: paymentAmount
+            });
 
             if (error) throw error;
 
-            // Register in Cash Flow
-            if (user) {
-                const { data: register } = await supabase
-                    .from('cash_registers')
-                    .select('id')
-                    .eq('user_id', user.id)
-                    .eq('status', 'open')
-                    .single();
-
-                if (register) {
-                    // Format description with payment method
-                    const methodLabel = {
-                        money: 'Dinheiro',
-                        pix: 'PIX',
-                        debit: 'Débito',
-                        credit: 'Crédito'
-                    }[paymentMethod] || paymentMethod;
-
-                    // Create timestamp combining selected date with current time
-                    const now = new Date();
-                    const [year, month, day] = paymentDate.split('-').map(Number);
-                    const timestamp = new Date(year, month - 1, day, now.getHours(), now.getMinutes(), now.getSeconds()).toISOString();
-
-                    await supabase.from('cash_transactions').insert([{
-                        register_id: register.id,
-                        installment_id: selectedInstallment.id,
-                        description: `Recebimento Parcela - ${selectedInstallment.clientName} - ${methodLabel}`,
-                        amount: selectedInstallment.amount,
-                        type: 'installment_payment',
-                        created_at: timestamp
-                    }]);
-                }
-            }
-
             setShowPaymentModal(false);
             setSelectedInstallment(null);
             fetchInstallments();
+            await handlePrintReceipt([data.id]);
         } catch (error) {
             console.error('Error paying installment:', error);
-            alert('Erro ao pagar parcela');
+            alert(getRpcErrorMessage(error, 'Erro ao pagar parcela'));
         }
     };
 
+    const charges = selectedInstallment
+        ? calculateLateCharges(paymentAmount, selectedInstallment.dueDate, paymentDate, lateFeeSettings)
+        : null;
+
+    const openReversalModal = (payment: InstallmentPayment & { installmentNumber: number }) => {
+        setReversingPayment(payment);
+        setReversalReason('');
+    };
+
+    const handleReversePayment = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!reversingPayment) return;
+
+        setReversing(true);
+        try {
+            // Parcel balance, offsetting cash entry and audit fields are written in a single transaction
+            const { error } = await supabase.rpc('reverse_installment_payment', {
+                p_payment_id: reversingPayment.id,
+                p_reason: reversalReason
+            });
+
+            if (error) throw error;
+
+            setReversingPayment(null);
+            fetchInstallments();
+            alert('Recebimento estornado com sucesso!');
+        } catch (error) {
+            console.error('Error reversing payment:', error);
+            alert(getRpcErrorMessage(error, 'Erro ao estornar recebimento'));
+        } finally {
+            setReversing(false);
+        }
+    };
+
+    const openRenegotiationModal = (clientId: string, clientName: string) => {
+        // All open parcels of the client, whatever the current filters
+        setRenegotiatingClient({
+            id: clientId,
+            name: clientName,
+            installments: installments.filter(inst =>
+                inst.client.id === clientId && (inst.status === 'pending' || inst.status === 'overdue')
+            )
+        });
+    };
+
+    const openReceiveModal = (clientId: string, clientName: string) => {
+        setReceivingClient({
+            name: clientName,
+            installments: installments
+                .filter(inst => inst.client.id === clientId && (inst.status === 'pending' || inst.status === 'overdue'))
+                .sort((a, b) => a.due_date.localeCompare(b.due_date) || a.installment_number - b.installment_number)
+        });
+    };
+
+    const printAgreement = (renegotiation: Renegotiation, clientName: string) => {
+        generateAgreementPdf({
+            renegotiationId: renegotiation.id,
+            createdAt: renegotiation.created_at,
+            clientName,
+            originalInstallments: installments
+                .filter(inst => inst.renegotiated_in === renegotiation.id)
+                .map(inst => ({
+                    installment_number: inst.installment_number,
+                    due_date: inst.due_date,
+                    amount: getBalance(inst)
+                })),
+            originalAmount: renegotiation.original_amount,
+            discount: renegotiation.discount,
+            addition: renegotiation.addition,
+            newAmount: renegotiation.new_amount,
+            newInstallments: installments
+                .filter(inst => inst.renegotiation_id === renegotiation.id)
+                .sort((a, b) => a.installment_number - b.installment_number),
+            notes: renegotiation.notes
+        });
+    };
+
+    // Carnê of the plan the parcel belongs to: its sale or its renegotiation
+    const handlePrintCarne = async (installment: Installment) => {
+        const planId = installment.sale_id || installment.renegotiation_id;
+        if (!planId) return;
+
+        await printCarne({
+            clientName: installment.client.name,
+            reference: installment.sale_id ? `Venda #${planId.slice(0, 8)}` : `Acordo #${planId.slice(0, 8)}`,
+            referenceId: planId,
+            installments: installments.filter(inst =>
+                installment.sale_id ? inst.sale_id === planId : inst.renegotiation_id === planId
+            )
+        });
+    };
+
+    const handlePrintReceipt = async (paymentIds: string[]) => {
+        try {
+            await printInstallmentReceipt(paymentIds);
+        } catch (error) {
+            console.error('Error printing receipt:', error);
+            alert(getRpcErrorMessage(error, 'Erro ao gerar recibo'));
+        }
+    };
+
+    const toggleReceiptSelection = (paymentId: string) => {
+        const next = new Set(receiptSelection);
+        if (next.has(paymentId)) next.delete(paymentId);
+        else next.add(paymentId);
+        setReceiptSelection(next);
+    };
+
+    const getValidPayments = (installment: Installment) => (installment.payments || []).filter(payment => !payment.reversed_at);
+
     const getStatusColor = (status: string) => {
         switch (status) {
             case 'paid': return 'bg-green-100 text-green-800';
+            case 'renegotiated': return 'bg-purple-100 text-purple-800';
             case 'overdue': return 'bg-red-100 text-red-800';
+            case 'cancelled': return 'bg-gray-100 text-gray-800';
             default: return 'bg-yellow-100 text-yellow-800';
         }
     };
@@ -197,6 +393,8 @@ export const Installments: React.FC = () => {
         switch (status) {
             case 'paid': return 'Pago';
             case 'overdue': return 'Atrasado';
+            case 'cancelled': return 'Cancelado';
+            case 'renegotiated': return 'Renegociado';
             default: return 'Pendente';
         }
     };
@@ -244,6 +442,7 @@ export const Installments: React.FC = () => {
                             <option value="pending">Pendentes</option>
                             <option value="overdue">Atrasadas</option>
                             <option value="paid">Pagas</option>
+                            <option value="renegotiated">Renegociadas</option>
                         </select>
                     </div>
                 </div>
@@ -274,26 +473,76 @@ export const Installments: React.FC = () => {
                                                 <h3 className="font-medium text-gray-900">{group.clientName}</h3>
                                                 <div className="text-sm text-gray-500">
                                                     {group.installments.length} parcelas
+                                                    {group.clientPhone && (
+                                                        <a
+                                                            href={`tel:${group.clientPhone}`}
+                                                            onClick={e => e.stopPropagation()}
+                                                            className="ml-3 inline-flex items-center gap-1 hover:text-gray-700"
+                                                        >
+                                                            <Phone className="h-3 w-3" />
+                                                            {group.clientPhone}
+                                                        </a>
+                                                    )}
+                                                    <Link
+                                                        to={`/clients/${group.clientId}`}
+                                                        onClick={e => e.stopPropagation()}
+                                                        className="ml-3 text-blue-600 hover:text-blue-800"
+                                                    >
+                                                        Ver extrato
+                                                    </Link>
+                                                </div>
+                                                <div className="text-xs text-gray-400">
+                                                    Em aberto: R$ {group.totalOpen.toFixed(2)}
+                                                    {' - '}
+                                                    {group.lastPaymentAt
+                                                        ? `último pagamento em ${format(new Date(group.lastPaymentAt), 'dd/MM/yyyy')}`
+                                                        : 'nenhum pagamento'}
                                                 </div>
                                             </div>
                                         </div>
-                                        <div className="flex flex-col items-end gap-1">
-                                            {group.totalOverdue > 0 && (
-                                                <span className="text-sm font-medium text-red-600">
-                                                    Atrasado: R$ {group.totalOverdue.toFixed(2)}
-                                                </span>
-                                            )}
-                                            {group.totalPending > 0 && (
-                                                <span className="text-sm font-medium text-yellow-600">
-                                                    Pendente: R$ {group.totalPending.toFixed(2)}
-                                                </span>
-                                            )}
-                                            {group.totalOverdue === 0 && group.totalPending === 0 && (
-                                                <span className="text-sm font-medium text-green-600 flex items-center gap-1">
+                                        <div className="flex items-center gap-4">
+                                            {(group.totalOverdue > 0 || group.totalPending > 0) && (
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        openReceiveModal(group.clientId, group.clientName);
+                                                    }}
+                                                    className="inline-flex items-center gap-1 px-3 py-1 text-sm border rounded-lg text-green-700 hover:bg-green-50"
+                                                >
                                                     <CheckCircle className="h-4 w-4" />
-                                                    Tudo pago
-                                                </span>
+                                                    Receber várias
+                                                </button>
                                             )}
+                                            {role === 'admin' && (group.totalOverdue > 0 || group.totalPending > 0) && (
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        openRenegotiationModal(group.clientId, group.clientName);
+                                                    }}
+                                                    className="inline-flex items-center gap-1 px-3 py-1 text-sm border rounded-lg text-purple-700 hover:bg-purple-50"
+                                                >
+                                                    <Handshake className="h-4 w-4" />
+                                                    Renegociar
+                                                </button>
+                                            )}
+                                            <div className="flex flex-col items-end gap-1">
+                                                {group.totalOverdue > 0 && (
+                                                    <span className="text-sm font-medium text-red-600">
+                                                        Atrasado: R$ {group.totalOverdue.toFixed(2)}
+                                                    </span>
+                                                )}
+                                                {group.totalPending > 0 && (
+                                                    <span className="text-sm font-medium text-yellow-600">
+                                                        Pendente: R$ {group.totalPending.toFixed(2)}
+                                                    </span>
+                                                )}
+                                                {group.totalOverdue === 0 && group.totalPending === 0 && (
+                                                    <span className="text-sm font-medium text-green-600 flex items-center gap-1">
+                                                        <CheckCircle className="h-4 w-4" />
+                                                        Tudo pago
+                                                    </span>
+                                                )}
+                                            </div>
                                         </div>
                                     </div>
 
@@ -305,6 +554,7 @@ export const Installments: React.FC = () => {
                                                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vencimento</th>
                                                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Parcela</th>
                                                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valor</th>
+                                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Saldo</th>
                                                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                                                         <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ações</th>
                                                     </tr>
@@ -320,6 +570,21 @@ export const Installments: React.FC = () => {
                                                             </td>
                                                             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                                                                 R$ {installment.amount.toFixed(2)}
+                                                                {installment.late_fee + installment.interest > 0 && (
+                                                                    <div className="text-xs text-red-600 font-normal">
+                                                                        + R$ {sumMoney([installment.late_fee, installment.interest]).toFixed(2)} de multa/juros
+                                                                    </div>
+                                                                )}
+                                                            </td>
+                                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                                                {installment.status === 'pending' || installment.status === 'overdue'
+                                                                    ? `R$ ${getBalance(installment).toFixed(2)}`
+                                                                    : '-'}
+                                                                {installment.principal_paid > 0 && getBalance(installment) > 0 && (
+                                                                    <div className="text-xs text-gray-500">
+                                                                        Pago: R$ {installment.principal_paid.toFixed(2)}
+                                                                    </div>
+                                                                )}
                                                             </td>
                                                             <td className="px-6 py-4 whitespace-nowrap">
                                                                 <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(installment.status)}`}>
@@ -327,19 +592,161 @@ export const Installments: React.FC = () => {
                                                                 </span>
                                                             </td>
                                                             <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                                                                {installment.status !== 'paid' && (
-                                                                    <button
-                                                                        onClick={() => openPaymentModal(installment.id, installment.amount, group.clientName)}
-                                                                        className="text-blue-600 hover:text-blue-900 font-medium"
-                                                                    >
-                                                                        Receber
-                                                                    </button>
-                                                                )}
+                                                                <div className="flex justify-end gap-3">
+                                                                    {getValidPayments(installment).length > 0 && (
+                                                                        <button
+                                                                            onClick={() => handlePrintReceipt(getValidPayments(installment).map(payment => payment.id))}
+                                                                            title="Reimprimir recibo dos pagamentos desta parcela"
+                                                                            className="text-gray-600 hover:text-gray-900 font-medium"
+                                                                        >
+                                                                            Recibo
+                                                                        </button>
+                                                                    )}
+                                                                    {(installment.status === 'pending' || installment.status === 'overdue') && (
+                                                                        <>
+                                                                            <button
+                                                                                onClick={() => handlePrintCarne(installment)}
+                                                                                title="Imprimir carnê das parcelas em aberto desta venda"
+                                                                                className="text-gray-600 hover:text-gray-900 font-medium"
+                                                                            >
+                                                                                Carnê
+                                                                            </button>
+                                                                            <button
+                                                                                onClick={() => openPaymentModal(installment.id, getBalance(installment), installment.due_date, group.clientName)}
+                                                                                className="text-blue-600 hover:text-blue-900 font-medium"
+                                                                            >
+                                                                                Receber
+                                                                            </button>
+                                                                        </>
+                                                                    )}
+                                                                </div>
                                                             </td>
                                                         </tr>
                                                     ))}
                                                 </tbody>
                                             </table>
+
+                                            {group.installments.some(inst => inst.payments?.length > 0) && (
+                                                <div className="px-6 py-4 border-t border-gray-200">
+                                                    <div className="flex justify-between items-center mb-2">
+                                                        <h4 className="text-sm font-medium text-gray-700">Histórico de Pagamentos</h4>
+                                                        {group.installments.some(inst => inst.payments?.some(payment => receiptSelection.has(payment.id))) && (
+                                                            <button
+                                                                onClick={() => handlePrintReceipt(
+                                                                    group.installments
+                                                                        .flatMap(inst => getValidPayments(inst))
+                                                                        .filter(payment => receiptSelection.has(payment.id))
+                                                                        .map(payment => payment.id)
+                                                                )}
+                                                                className="text-sm text-blue-600 hover:text-blue-900 font-medium"
+                                                            >
+                                                                Recibo consolidado
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                    <table className="w-full text-sm">
+                                                        <thead>
+                                                            <tr className="text-left text-xs text-gray-500">
+                                                                <th className="py-1 w-6"></th>
+                                                                <th className="py-1">Data</th>
+                                                                <th className="py-1">Parcela</th>
+                                                                <th className="py-1">Forma</th>
+                                                                <th className="py-1 text-right">Principal</th>
+                                                                <th className="py-1 text-right">Multa/Juros</th>
+                                                                <th className="py-1 text-right">Total</th>
+                                                                <th className="py-1 pl-4">Operador</th>
+                                                                <th className="py-1"></th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody className="divide-y divide-gray-200">
+                                                            {group.installments
+                                                                .flatMap(inst => (inst.payments || []).map(payment => ({ ...payment, installmentNumber: inst.installment_number })))
+                                                                .sort((a, b) => new Date(b.paid_at).getTime() - new Date(a.paid_at).getTime())
+                                                                .map(payment => (
+                                                                    <tr key={payment.id} className={payment.reversed_at ? 'text-gray-400' : ''}>
+                                                                        <td className="py-1">
+                                                                            {!payment.reversed_at && (
+                                                                                <input
+                                                                                    type="checkbox"
+                                                                                    title="Incluir no recibo consolidado"
+                                                                                    checked={receiptSelection.has(payment.id)}
+                                                                                    onChange={() => toggleReceiptSelection(payment.id)}
+                                                                                />
+                                                                            )}
+                                                                        </td>
+                                                                        <td className="py-1">
+                                                                            {format(new Date(payment.paid_at), 'dd/MM/yyyy HH:mm')}
+                                                                            {payment.reversed_at && (
+                                                                                <div className="text-xs text-red-600">
+                                                                                    Estornado em {format(new Date(payment.reversed_at), 'dd/MM/yyyy HH:mm')}: {payment.reversal_reason}
+                                                                                </div>
+                                                                            )}
+                                                                        </td>
+                                                                        <td className="py-1">{payment.installmentNumber}ª</td>
+                                                                        <td className="py-1">{payment.payment_method ? formatPaymentMethod(payment.payment_method) : '-'}</td>
+                                                                        <td className="py-1 text-right">R$ {payment.amount.toFixed(2)}</td>
+                                                                        <td className="py-1 text-right">R$ {sumMoney([payment.late_fee, payment.interest]).toFixed(2)}</td>
+                                                                        <td className={`py-1 text-right font-medium ${payment.reversed_at ? 'line-through' : ''}`}>R$ {payment.total.toFixed(2)}</td>
+                                                                        <td className="py-1 pl-4 text-gray-500">{payment.user?.full_name || payment.user?.email || '-'}</td>
+                                                                        <td className="py-1 text-right">
+                                                                            {!payment.reversed_at && (
+                                                                                <div className="flex justify-end gap-3">
+                                                                                    <button
+                                                                                        onClick={() => handlePrintReceipt([payment.id])}
+                                                                                        className="text-gray-600 hover:text-gray-900 font-medium"
+                                                                                    >
+                                                                                        Recibo
+                                                                                    </button>
+                                                                                    {role === 'admin' && (
+                                                                                        <button
+                                                                                            onClick={() => openReversalModal(payment)}
+                                                                                            className="text-red-600 hover:text-red-900 font-medium"
+                                                                                        >
+                                                                                            Estornar
+                                                                                        </button>
+                                                                                    )}
+                                                                                </div>
+                                                                            )}
+                                                                        </td>
+                                                                    </tr>
+                                                                ))}
+                                                        </tbody>
+                                                    </table>
+                                                </div>
+                                            )}
+
+                                            {renegotiations.some(ren => ren.client_id === group.clientId) && (
+                                                <div className="px-6 py-4 border-t border-gray-200">
+                                                    <h4 className="text-sm font-medium text-gray-700 mb-2">Renegociações</h4>
+                                                    <ul className="divide-y divide-gray-200 text-sm">
+                                                        {renegotiations
+                                                            .filter(ren => ren.client_id === group.clientId)
+                                                            .map(ren => (
+                                                                <li key={ren.id} className="py-2 flex justify-between items-center">
+                                                                    <div>
+                                                                        <div>
+                                                                            {format(new Date(ren.created_at), 'dd/MM/yyyy HH:mm')} — R$ {ren.original_amount.toFixed(2)}
+                                                                            {ren.discount > 0 && <> − R$ {ren.discount.toFixed(2)} desconto</>}
+                                                                            {ren.addition > 0 && <> + R$ {ren.addition.toFixed(2)} encargos</>}
+                                                                            {' '}→ <strong>R$ {ren.new_amount.toFixed(2)} em {ren.installments_count}x</strong>
+                                                                        </div>
+                                                                        <div className="text-xs text-gray-500">
+                                                                            {ren.user?.full_name || ren.user?.email || '-'}
+                                                                            {ren.notes && <> · {ren.notes}</>}
+                                                                        </div>
+                                                                    </div>
+                                                                    <button
+                                                                        onClick={() => printAgreement(ren, group.clientName)}
+                                                                        className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-900 font-medium"
+                                                                    >
+                                                                        <FileText className="h-4 w-4" />
+                                                                        Acordo
+                                                                    </button>
+                                                                </li>
+                                                            ))}
+                                                    </ul>
+                                                </div>
+                                            )}
                                         </div>
                                     )}
                                 </div>
@@ -355,19 +762,65 @@ export const Installments: React.FC = () => {
                     <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-6">
                         <h3 className="text-lg font-bold text-gray-900 mb-4">Confirmar Recebimento</h3>
                         <p className="text-gray-600 mb-4">
-                            Recebendo parcela de <strong>{selectedInstallment.clientName}</strong> no valor de <strong>R$ {selectedInstallment.amount.toFixed(2)}</strong>.
+                            Recebendo parcela de <strong>{selectedInstallment.clientName}</strong> com saldo de <strong>R$ {selectedInstallment.balance.toFixed(2)}</strong>.
                         </p>
 
+                        {charges && charges.total > paymentAmount && (
+                            <div className="mb-4 bg-red-50 rounded-lg p-3 text-sm space-y-1">
+                                <div className="font-medium text-red-700">{charges.daysLate} dias de atraso</div>
+                                <div className="flex justify-between">
+                                    <span>Parcela</span>
+                                    <span>R$ {paymentAmount.toFixed(2)}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>Multa</span>
+                                    <span>R$ {charges.lateFee.toFixed(2)}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>Juros de mora</span>
+                                    <span>R$ {charges.interest.toFixed(2)}</span>
+                                </div>
+                                <div className="flex justify-between font-bold border-t pt-1">
+                                    <span>Total a receber</span>
+                                    <span>R$ {charges.total.toFixed(2)}</span>
+                                </div>
+                            </div>
+                        )}
+
                         <form onSubmit={handleConfirmPayment} className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Valor a abater
+                                </label>
+                                <input
+                                    type="number"
+                                    required
+                                    min="0.01"
+                                    max={selectedInstallment.balance}
+                                    step="0.01"
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    value={paymentAmount || ''}
+                                    onChange={e => setPaymentAmount(parseFloat(e.target.value) || 0)}
+                                />
+                                {paymentAmount > 0 && paymentAmount < selectedInstallment.balance && (
+                                    <p className="text-xs text-gray-500 mt-1">
+                                        Pagamento parcial: restarão R$ {subtractMoney(selectedInstallment.balance, paymentAmount).toFixed(2)} em aberto.
+                                    </p>
+                                )}
+                            </div>
+
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 mb-1">
                                     Data do Pagamento
                                 </label>
+                                {/* Only admins may backdate a payment (and so its late charges) */}
                                 <input
                                     type="date"
                                     required
-                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-gray-100 disabled:text-gray-500"
                                     value={paymentDate}
+                                    max={format(new Date(), 'yyyy-MM-dd')}
+                                    disabled={role !== 'admin'}
                                     onChange={e => setPaymentDate(e.target.value)}
                                 />
                             </div>
@@ -407,6 +860,74 @@ export const Installments: React.FC = () => {
                     </div>
                 </div>
             )}
+
+            {renegotiatingClient && (
+                <RenegotiationModal
+                    isOpen={!!renegotiatingClient}
+                    onClose={() => setRenegotiatingClient(null)}
+                    onSuccess={fetchInstallments}
+                    clientId={renegotiatingClient.id}
+                    clientName={renegotiatingClient.name}
+                    installments={renegotiatingClient.installments}
+                    lateFeeSettings={lateFeeSettings}
+                />
+            )}
+
+            {receivingClient && (
+                <ReceiveInstallmentsModal
+                    isOpen={!!receivingClient}
+                    onClose={() => setReceivingClient(null)}
+                    onSuccess={fetchInstallments}
+                    clientName={receivingClient.name}
+                    installments={receivingClient.installments}
+                    lateFeeSettings={lateFeeSettings}
+                />
+            )}
+
+            {/* Reversal Modal */}
+            {reversingPayment && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+                    <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-6">
+                        <h3 className="text-lg font-bold text-gray-900 mb-4">Estornar Recebimento</h3>
+                        <p className="text-gray-600 mb-4">
+                            Estornar o recebimento de <strong>R$ {reversingPayment.total.toFixed(2)}</strong> da {reversingPayment.installmentNumber}ª parcela?
+                            O valor volta a ficar em aberto na parcela e sai do seu caixa aberto.
+                        </p>
+
+                        <form onSubmit={handleReversePayment} className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Motivo do estorno
+                                </label>
+                                <textarea
+                                    required
+                                    rows={3}
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    value={reversalReason}
+                                    onChange={e => setReversalReason(e.target.value)}
+                                />
+                            </div>
+
+                            <div className="flex gap-3 mt-6">
+                                <button
+                                    type="button"
+                                    onClick={() => setReversingPayment(null)}
+                                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                                >
+                                    Voltar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={reversing}
+                                    className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium disabled:opacity-50"
+                                >
+                                    {reversing ? 'Estornando...' : 'Confirmar Estorno'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
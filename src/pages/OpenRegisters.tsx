@@ -0,0 +1,393 @@
+import React, { useEffect, useState } from 'react';
+import { format, isToday, subDays } from 'date-fns';
+import { Calendar, Search, RefreshCw, Lock, AlertTriangle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { getRpcErrorMessage } from '../lib/rpcErrors';
+import { formatCurrency, sumMoney } from '../lib/money';
+import { closingMethodLabels, summarizeByMethod, type CashTransactionLike } from '../lib/cashClosing';
+import { formatPaymentMethod } from '../lib/paymentMethods';
+
+interface OpenRegister {
+    id: string;
+    user_id: string;
+    opened_at: string;
+    initial_balance: number;
+}
+
+interface RegisterTransaction extends CashTransactionLike {
+    register_id: string;
+    created_at: string;
+}
+
+interface RegisterSale {
+    register_id: string;
+    total_amount: number;
+}
+
+interface Operator {
+    id: string;
+    full_name: string | null;
+    email: string;
+}
+
+interface UnregisteredSale {
+    id: string;
+    created_at: string;
+    total_amount: number;
+    payment_method: string;
+    user_id: string | null;
+    client: {
+        name: string;
+    } | null;
+}
+
+const REFRESH_INTERVAL = 30000;
+
+const daysAgo = (days: number) => format(subDays(new Date(), days), 'yyyy-MM-dd');
+
+export const OpenRegisters: React.FC = () => {
+    const [registers, setRegisters] = useState<OpenRegister[]>([]);
+    const [transactions, setTransactions] = useState<RegisterTransaction[]>([]);
+    const [registerSales, setRegisterSales] = useState<RegisterSale[]>([]);
+    const [operators, setOperators] = useState<Operator[]>([]);
+    const [sales, setSales] = useState<UnregisteredSale[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+    const [startDate, setStartDate] = useState(daysAgo(30));
+    const [endDate, setEndDate] = useState(daysAgo(0));
+    const [closingRegister, setClosingRegister] = useState<OpenRegister | null>(null);
+    const [closeReason, setCloseReason] = useState('');
+    const [closing, setClosing] = useState(false);
+
+    const fetchOverview = async () => {
+        try {
+            const [registersResult, operatorsResult] = await Promise.all([
+                supabase
+                    .from('cash_registers')
+                    .select('id, user_id, opened_at, initial_balance')
+                    .eq('status', 'open')
+                    .order('opened_at'),
+                supabase
+                    .from('profiles')
+                    .select('id, full_name, email')
+            ]);
+
+            if (registersResult.error) throw registersResult.error;
+
+            const openRegisters = registersResult.data || [];
+            const registerIds = openRegisters.map(r => r.id);
+            // Sales are counted from the sales table: installment sales have no 'sale' cash entry
+            const [transactionsResult, salesResult] = registerIds.length > 0
+                ? await Promise.all([
+                    supabase
+                        .from('cash_transactions')
+                        .select('register_id, type, amount, payment_method, created_at, sale:sales (payment_method)')
+                        .in('register_id', registerIds)
+                        .overrideTypes<RegisterTransaction[], { merge: false }>(),
+                    supabase
+                        .from('sales')
+                        .select('register_id, total_amount')
+                        .in('register_id', registerIds)
+                        .eq('status', 'completed')
+                ])
+                : [{ data: [], error: null }, { data: [], error: null }];
+
+            if (transactionsResult.error) throw transactionsResult.error;
+            if (salesResult.error) throw salesResult.error;
+
+            setRegisters(openRegisters);
+            setTransactions(transactionsResult.data || []);
+            setRegisterSales(salesResult.data || []);
+            setOperators(operatorsResult.data || []);
+            setUpdatedAt(new Date());
+        } catch (error) {
+            console.error('Error fetching open registers:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchUnregisteredSales = async (filters: { startDate: string; endDate: string }) => {
+        try {
+            const [startYear, startMonth, startDay] = filters.startDate.split('-').map(Number);
+            const startDateTime = new Date(startYear, startMonth - 1, startDay);
+            startDateTime.setHours(0, 0, 0, 0);
+
+            const [endYear, endMonth, endDay] = filters.endDate.split('-').map(Number);
+            const endDateTime = new Date(endYear, endMonth - 1, endDay);
+            endDateTime.setHours(23, 59, 59, 999);
+
+            const { data, error } = await supabase
+                .from('sales')
+                .select('id, created_at, total_amount, payment_method, user_id, client:clients (name)')
+                .is('register_id', null)
+                .eq('status', 'completed')
+                .gte('created_at', startDateTime.toISOString())
+                .lte('created_at', endDateTime.toISOString())
+                .order('created_at', { ascending: false })
+                .overrideTypes<UnregisteredSale[], { merge: false }>();
+
+            if (error) throw error;
+            setSales(data || []);
+        } catch (error) {
+            console.error('Error fetching sales without register:', error);
+            alert('Erro ao buscar vendas sem caixa');
+        }
+    };
+
+    useEffect(() => {
+        fetchOverview();
+        fetchUnregisteredSales({ startDate: daysAgo(30), endDate: daysAgo(0) });
+
+        const interval = setInterval(fetchOverview, REFRESH_INTERVAL);
+        return () => clearInterval(interval);
+    }, []);
+
+    const openCloseModal = (register: OpenRegister) => {
+        setClosingRegister(register);
+        setCloseReason('');
+    };
+
+    const handleForceClose = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!closingRegister) return;
+
+        setClosing(true);
+        try {
+            const { error } = await supabase.rpc('force_close_cash_register', {
+                p_register_id: closingRegister.id,
+                p_reason: closeReason
+            });
+
+            if (error) throw error;
+
+            setClosingRegister(null);
+            fetchOverview();
+            alert('Caixa fechado. A leitura Z está disponível no histórico de caixas.');
+        } catch (error) {
+            console.error('Error force-closing register:', error);
+            alert(getRpcErrorMessage(error, 'Erro ao fechar caixa'));
+        } finally {
+            setClosing(false);
+        }
+    };
+
+    const getOperatorName = (userId: string | null) => {
+        const operator = operators.find(o => o.id === userId);
+        return operator?.full_name || operator?.email || '-';
+    };
+
+    const rows = registers.map(register => {
+        const registerTransactions = transactions.filter(t => t.register_id === register.id);
+        const salesOfRegister = registerSales.filter(s => s.register_id === register.id);
+        const methodTotals = summarizeByMethod(registerTransactions);
+        const lastActivity = registerTransactions.reduce(
+            (latest, t) => (new Date(t.created_at) > new Date(latest) ? t.created_at : latest),
+            register.opened_at
+        );
+
+        return {
+            register,
+            methodTotals,
+            total: sumMoney(Object.values(methodTotals)),
+            salesCount: salesOfRegister.length,
+            salesTotal: sumMoney(salesOfRegister.map(s => s.total_amount)),
+            lastActivity
+        };
+    });
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <h1 className="text-2xl font-bold text-gray-900">Caixas Abertos</h1>
+                <div className="flex items-center gap-3 text-sm text-gray-500">
+                    {updatedAt && <span>Atualizado às {format(updatedAt, 'HH:mm:ss')}</span>}
+                    <button
+                        onClick={fetchOverview}
+                        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                        Atualizar
+                    </button>
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="p-8 text-center text-gray-500">Carregando...</div>
+            ) : rows.length === 0 ? (
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8 text-center text-gray-500">
+                    Nenhum caixa aberto no momento
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                    {rows.map(({ register, methodTotals, total, salesCount, salesTotal, lastActivity }) => (
+                        <div key={register.id} className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 space-y-3">
+                            <div className="flex justify-between items-start">
+                                <div>
+                                    <p className="font-bold text-gray-900">{getOperatorName(register.user_id)}</p>
+                                    <p className="text-sm text-gray-500">
+                                        Aberto em {format(new Date(register.opened_at), 'dd/MM/yyyy HH:mm')}
+                                    </p>
+                                </div>
+                                {!isToday(new Date(register.opened_at)) && (
+                                    <span className="inline-flex items-center gap-1 px-2 text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">
+                                        <AlertTriangle className="h-3 w-3" />
+                                        Aberto desde {format(new Date(register.opened_at), 'dd/MM')}
+                                    </span>
+                                )}
+                            </div>
+
+                            <div>
+                                <p className="text-sm text-gray-500">Dinheiro na gaveta</p>
+                                <p className="text-2xl font-bold text-blue-600">{formatCurrency(methodTotals.money || 0)}</p>
+                            </div>
+
+                            <div className="space-y-1 text-sm">
+                                {Object.entries(methodTotals).filter(([method]) => method !== 'money').map(([method, value]) => (
+                                    <div key={method} className="flex justify-between text-gray-600">
+                                        <span>{closingMethodLabels[method] || method}</span>
+                                        <span>{formatCurrency(value)}</span>
+                                    </div>
+                                ))}
+                                <div className="flex justify-between font-medium text-gray-900 border-t pt-1">
+                                    <span>Total do caixa</span>
+                                    <span>{formatCurrency(total)}</span>
+                                </div>
+                            </div>
+
+                            <div className="flex justify-between text-sm text-gray-500">
+                                <span>{salesCount} venda(s) - {formatCurrency(salesTotal)}</span>
+                                <span>Última movimentação: {format(new Date(lastActivity), isToday(new Date(lastActivity)) ? 'HH:mm' : 'dd/MM HH:mm')}</span>
+                            </div>
+
+                            <button
+                                onClick={() => openCloseModal(register)}
+                                className="w-full inline-flex items-center justify-center gap-2 bg-red-100 text-red-700 py-2 rounded-lg hover:bg-red-200 transition-colors font-medium"
+                            >
+                                <Lock className="h-4 w-4" />
+                                Forçar fechamento
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+                <div className="p-4 border-b border-gray-200 flex flex-col sm:flex-row gap-4 sm:items-end justify-between">
+                    <div>
+                        <h3 className="font-bold text-gray-900">Vendas sem caixa</h3>
+                        <p className="text-sm text-gray-500">Vendas concluídas sem nenhum caixa vinculado</p>
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-4 items-end">
+                        <div className="relative">
+                            <Calendar className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                            <input
+                                type="date"
+                                value={startDate}
+                                onChange={(e) => setStartDate(e.target.value)}
+                                className="pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
+                            />
+                        </div>
+                        <div className="relative">
+                            <Calendar className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                            <input
+                                type="date"
+                                value={endDate}
+                                onChange={(e) => setEndDate(e.target.value)}
+                                className="pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
+                            />
+                        </div>
+                        <button
+                            onClick={() => fetchUnregisteredSales({ startDate, endDate })}
+                            className="w-full sm:w-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center justify-center gap-2"
+                        >
+                            <Search className="h-4 w-4" />
+                            Filtrar
+                        </button>
+                    </div>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Data</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Venda</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cliente</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Operador</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Forma Pagto</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {sales.length === 0 ? (
+                                <tr>
+                                    <td colSpan={6} className="px-6 py-10 text-center text-gray-500">
+                                        Nenhuma venda sem caixa no período selecionado.
+                                    </td>
+                                </tr>
+                            ) : (
+                                sales.map(sale => (
+                                    <tr key={sale.id} className="hover:bg-gray-50">
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                            {format(new Date(sale.created_at), 'dd/MM/yyyy HH:mm')}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">#{sale.id.slice(0, 8)}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{sale.client?.name || '-'}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{getOperatorName(sale.user_id)}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                            {formatPaymentMethod(sale.payment_method)}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                                            {formatCurrency(sale.total_amount)}
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Force Close Modal */}
+            {closingRegister && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+                    <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-6">
+                        <h3 className="text-lg font-bold text-gray-900 mb-4">Forçar Fechamento</h3>
+                        <p className="text-gray-600 mb-4">
+                            Caixa de <strong>{getOperatorName(closingRegister.user_id)}</strong> aberto em{' '}
+                            {format(new Date(closingRegister.opened_at), 'dd/MM/yyyy HH:mm')}. O caixa será fechado com os valores esperados, sem conferência.
+                        </p>
+                        <form onSubmit={handleForceClose} className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+                                <textarea
+                                    required
+                                    rows={3}
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    value={closeReason}
+                                    onChange={e => setCloseReason(e.target.value)}
+                                />
+                            </div>
+                            <div className="flex gap-3 mt-6">
+                                <button
+                                    type="button"
+                                    onClick={() => setClosingRegister(null)}
+                                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={closing || !closeReason.trim()}
+                                    className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium disabled:opacity-50"
+                                >
+                                    {closing ? 'Fechando...' : 'Fechar Caixa'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
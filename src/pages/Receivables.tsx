@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { Search, ChevronDown, ChevronRight, FileSpreadsheet, FileText } from 'lucide-react';
+import { format } from 'date-fns';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import * as XLSX from 'xlsx';
+import { supabase } from '../lib/supabase';
+import { formatCurrency } from '../lib/money';
+import {
+    agingBuckets,
+    agingBucketLabels,
+    buildAgingReport,
+    type AgingBucket,
+    type AgingInstallment,
+    type AgingParcel
+} from '../lib/receivablesAging';
+
+const bucketColors: Record<AgingBucket, string> = {
+    current: 'text-gray-900',
+    days_1_30: 'text-yellow-700',
+    days_31_60: 'text-orange-600',
+    days_61_90: 'text-red-600',
+    days_90_plus: 'text-red-800'
+};
+
+const getReference = (parcel: AgingParcel) => {
+    if (parcel.sale_id) return `Venda #${parcel.sale_id.slice(0, 8)}`;
+    if (parcel.renegotiation_id) return `Acordo #${parcel.renegotiation_id.slice(0, 8)}`;
+    return '-';
+};
+
+export const Receivables: React.FC = () => {
+    const [installments, setInstallments] = useState<AgingInstallment[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [asOfDate, setAsOfDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+    const [expandedClients, setExpandedClients] = useState<Set<string>>(new Set());
+
+    useEffect(() => {
+        fetchInstallments();
+    }, []);
+
+    const fetchInstallments = async () => {
+        try {
+            const { data, error } = await supabase
+                .from('installments')
+                .select(`
+                    id,
+                    sale_id,
+                    renegotiation_id,
+                    installment_number,
+                    due_date,
+                    amount,
+                    principal_paid,
+                    client:clients (id, name)
+                `)
+                .in('status', ['pending', 'overdue'])
+                .order('due_date')
+                .overrideTypes<AgingInstallment[], { merge: false }>();
+
+            if (error) throw error;
+            setInstallments(data || []);
+        } catch (error) {
+            console.error('Error fetching receivables:', error);
+            alert('Erro ao carregar recebíveis');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const report = buildAgingReport(
+        installments.filter(inst => inst.client.name.toLowerCase().includes(searchTerm.toLowerCase())),
+        new Date(`${asOfDate}T00:00:00`)
+    );
+
+    const toggleClient = (clientId: string) => {
+        const next = new Set(expandedClients);
+        if (next.has(clientId)) next.delete(clientId);
+        else next.add(clientId);
+        setExpandedClients(next);
+    };
+
+    const getShare = (value: number) => report.total > 0 ? `${((value / report.total) * 100).toFixed(1)}%` : '0%';
+
+    const handleExportPDF = () => {
+        const doc = new jsPDF('landscape');
+        const asOf = format(new Date(`${asOfDate}T00:00:00`), 'dd/MM/yyyy');
+
+        doc.text(`Contas a Receber por Vencimento - posição em ${asOf}`, 14, 15);
+
+        autoTable(doc, {
+            head: [['Cliente', ...agingBuckets.map(bucket => agingBucketLabels[bucket]), 'Total']],
+            body: report.rows.map(row => [
+                row.clientName,
+                ...agingBuckets.map(bucket => formatCurrency(row.buckets[bucket])),
+                formatCurrency(row.total)
+            ]),
+            foot: [
+                ['Total', ...agingBuckets.map(bucket => formatCurrency(report.totals[bucket])), formatCurrency(report.total)],
+                ['%', ...agingBuckets.map(bucket => getShare(report.totals[bucket])), '100%']
+            ],
+            startY: 20,
+        });
+
+        doc.save(`recebiveis_${asOfDate}.pdf`);
+    };
+
+    const handleExportXLS = () => {
+        const summary = XLSX.utils.json_to_sheet([
+            ...report.rows.map(row => ({
+                Cliente: row.clientName,
+                ...Object.fromEntries(agingBuckets.map(bucket => [agingBucketLabels[bucket], row.buckets[bucket]])),
+                Total: row.total
+            })),
+            {
+                Cliente: 'Total',
+                ...Object.fromEntries(agingBuckets.map(bucket => [agingBucketLabels[bucket], report.totals[bucket]])),
+                Total: report.total
+            }
+        ]);
+        const parcels = XLSX.utils.json_to_sheet(report.rows.flatMap(row => row.parcels.map(parcel => ({
+            Cliente: row.clientName,
+            Referência: getReference(parcel),
+            Parcela: parcel.installment_number,
+            Vencimento: format(new Date(`${parcel.due_date}T00:00:00`), 'dd/MM/yyyy'),
+            'Dias em atraso': parcel.daysOverdue,
+            Faixa: agingBucketLabels[parcel.bucket],
+            Saldo: parcel.balance
+        }))));
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, summary, "Resumo");
+        XLSX.utils.book_append_sheet(wb, parcels, "Parcelas");
+        XLSX.writeFile(wb, `recebiveis_${asOfDate}.xlsx`);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <h1 className="text-2xl font-bold text-gray-900">Contas a Receber</h1>
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleExportPDF}
+                        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                        title="Exportar PDF"
+                    >
+                        <FileText className="h-4 w-4 mr-2" />
+                        PDF
+                    </button>
+                    <button
+                        onClick={handleExportXLS}
+                        className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                        title="Exportar Excel"
+                    >
+                        <FileSpreadsheet className="h-4 w-4 mr-2" />
+                        XLS
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                {agingBuckets.map(bucket => (
+                    <div key={bucket} className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+                        <p className="text-sm text-gray-500">{agingBucketLabels[bucket]}</p>
+                        <p className={`text-lg font-bold ${bucketColors[bucket]}`}>{formatCurrency(report.totals[bucket])}</p>
+                        <p className="text-xs text-gray-400">{getShare(report.totals[bucket])}</p>
+                    </div>
+                ))}
+                <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+                    <p className="text-sm text-gray-500">Total em aberto</p>
+                    <p className="text-lg font-bold text-blue-600">{formatCurrency(report.total)}</p>
+                    <p className="text-xs text-gray-400">{report.rows.length} cliente(s)</p>
+                </div>
+            </div>
+
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+                <div className="p-4 border-b border-gray-200 flex flex-col sm:flex-row gap-4">
+                    <div className="relative flex-1">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <Search className="h-5 w-5 text-gray-400" />
+                        </div>
+                        <input
+                            type="text"
+                            className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                            placeholder="Buscar cliente..."
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                        />
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <label className="text-sm text-gray-600">Posição em</label>
+                        <input
+                            type="date"
+                            className="px-3 py-2 border border-gray-300 rounded-md sm:text-sm"
+                            value={asOfDate}
+                            onChange={(e) => setAsOfDate(e.target.value || format(new Date(), 'yyyy-MM-dd'))}
+                        />
+                    </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cliente</th>
+                                {agingBuckets.map(bucket => (
+                                    <th key={bucket} className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        {agingBucketLabels[bucket]}
+                                    </th>
+                                ))}
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {loading ? (
+                                <tr>
+                                    <td colSpan={agingBuckets.length + 2} className="px-6 py-4 text-center text-gray-500">Carregando...</td>
+                                </tr>
+                            ) : report.rows.length === 0 ? (
+                                <tr>
+                                    <td colSpan={agingBuckets.length + 2} className="px-6 py-4 text-center text-gray-500">Nenhum valor em aberto</td>
+                                </tr>
+                            ) : (
+                                report.rows.map(row => (
+                                    <React.Fragment key={row.clientId}>
+                                        <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => toggleClient(row.clientId)}>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                                <div className="flex items-center gap-2">
+                                                    {expandedClients.has(row.clientId)
+                                                        ? <ChevronDown className="h-4 w-4 text-gray-400" />
+                                                        : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                                                    {row.clientName}
+                                                </div>
+                                            </td>
+                                            {agingBuckets.map(bucket => (
+                                                <td key={bucket} className={`px-6 py-4 whitespace-nowrap text-sm text-right ${row.buckets[bucket] > 0 ? bucketColors[bucket] : 'text-gray-300'}`}>
+                                                    {formatCurrency(row.buckets[bucket])}
+                                                </td>
+                                            ))}
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-bold text-gray-900">
+                                                {formatCurrency(row.total)}
+                                            </td>
+                                        </tr>
+                                        {expandedClients.has(row.clientId) && row.parcels.map(parcel => (
+                                            <tr key={parcel.id} className="bg-gray-50 text-sm text-gray-600">
+                                                <td className="pl-14 pr-6 py-2 whitespace-nowrap">
+                                                    {getReference(parcel)} - {parcel.installment_number}ª parcela
+                                                    <div className="text-xs text-gray-400">
+                                                        Venc. {format(new Date(`${parcel.due_date}T00:00:00`), 'dd/MM/yyyy')}
+                                                        {parcel.daysOverdue > 0 && ` - ${parcel.daysOverdue} dias em atraso`}
+                                                    </div>
+                                                </td>
+                                                {agingBuckets.map(bucket => (
+                                                    <td key={bucket} className={`px-6 py-2 whitespace-nowrap text-right ${bucketColors[bucket]}`}>
+                                                        {parcel.bucket === bucket ? formatCurrency(parcel.balance) : ''}
+                                                    </td>
+                                                ))}
+                                                <td className="px-6 py-2"></td>
+                                            </tr>
+                                        ))}
+                                    </React.Fragment>
+                                ))
+                            )}
+                        </tbody>
+                        {report.rows.length > 0 && (
+                            <tfoot className="bg-gray-50 font-bold text-sm">
+                                <tr>
+                                    <td className="px-6 py-3 text-gray-900">Total</td>
+                                    {agingBuckets.map(bucket => (
+                                        <td key={bucket} className={`px-6 py-3 text-right ${bucketColors[bucket]}`}>
+                                            {formatCurrency(report.totals[bucket])}
+                                        </td>
+                                    ))}
+                                    <td className="px-6 py-3 text-right text-blue-600">{formatCurrency(report.total)}</td>
+                                </tr>
+                            </tfoot>
+                        )}
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
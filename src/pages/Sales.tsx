@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Search, ShoppingCart, Trash2, Plus, Minus, FileText, User } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { useAuth } from '../contexts/AuthContext';
+import { getRpcErrorMessage, isRpcError } from '../lib/rpcErrors';
+import { calculateChange, multiplyMoney, subtractMoney, sumMoney, toCents } from '../lib/money';
 import jsPDF from 'jspdf';
+import { generateInstallmentSchedule, scheduleIntervalLabels, type ScheduleInterval } from '../lib/installmentSchedule';
+import { printCarne } from '../lib/carne';
+import { formatPaymentMethod } from '../lib/paymentMethods';
+import { addDays, format } from 'date-fns';
 
 interface Product {
     id: string;
@@ -21,8 +26,20 @@ interface CartItem extends Product {
     quantity: number;
 }
 
+interface CreditStatus {
+    credit_limit: number | null;
+    open_balance: number;
+    max_days_overdue: number;
+    block_overdue_days: number | null;
+    override_enabled: boolean;
+}
+
+interface PaymentLine {
+    method: string;
+    amount: number;
+}
+
 export const Sales: React.FC = () => {
-    const { user } = useAuth();
     const [products, setProducts] = useState<Product[]>([]);
     const [clients, setClients] = useState<Client[]>([]);
     const [cart, setCart] = useState<CartItem[]>([]);
@@ -33,7 +50,18 @@ export const Sales: React.FC = () => {
     const [paymentType, setPaymentType] = useState<'cash' | 'installment'>('cash');
     const [paymentMethod, setPaymentMethod] = useState('pix');
     const [installments, setInstallments] = useState<number>(2);
-    const [amountPaid, setAmountPaid] = useState<number>(0);
+    const [payments, setPayments] = useState<PaymentLine[]>([]);
+    const [paymentAmount, setPaymentAmount] = useState<number>(0);
+    const [storeCredit, setStoreCredit] = useState<number>(0);
+    const [downPayment, setDownPayment] = useState<number>(0);
+    const [downPaymentMethod, setDownPaymentMethod] = useState('money');
+    const [firstDueDate, setFirstDueDate] = useState(format(addDays(new Date(), 30), 'yyyy-MM-dd'));
+    const [scheduleInterval, setScheduleInterval] = useState<ScheduleInterval>('monthly');
+    const [intervalDays, setIntervalDays] = useState<number>(30);
+    const [creditStatus, setCreditStatus] = useState<CreditStatus | null>(null);
+    const [showOverrideModal, setShowOverrideModal] = useState(false);
+    const [overrideReason, setOverrideReason] = useState('');
+    const [overridePin, setOverridePin] = useState('');
 
     const [loading, setLoading] = useState(false);
 
@@ -42,13 +70,51 @@ export const Sales: React.FC = () => {
         fetchClients();
     }, []);
 
+    useEffect(() => {
+        fetchStoreCredit(selectedClient);
+        fetchCreditStatus(selectedClient);
+    }, [selectedClient]);
+
+    const fetchStoreCredit = async (clientId: string) => {
+        if (!clientId) {
+            setStoreCredit(0);
+            return;
+        }
+        const { data } = await supabase
+            .from('client_credit_balances')
+            .select('balance')
+            .eq('client_id', clientId)
+            .maybeSingle();
+        setStoreCredit(data?.balance || 0);
+    };
+
+    const fetchCreditStatus = async (clientId: string) => {
+        if (!clientId) {
+            setCreditStatus(null);
+            return;
+        }
+        const { data } = await supabase
+            .rpc('client_credit_status', { p_client_id: clientId })
+            .maybeSingle();
+        setCreditStatus(data as CreditStatus | null);
+    };
+
     const fetchProducts = async () => {
         const { data } = await supabase
             .from('products')
             .select('id, name, code, price, stock_quantity')
             .gt('stock_quantity', 0)
             .order('name');
-        if (data) setProducts(data);
+        if (data) {
+            setProducts(data);
+            // Another terminal may have sold some units meanwhile: keep the cart within the latest stock
+            setCart(current => current
+                .map(item => {
+                    const stock = data.find(p => p.id === item.id)?.stock_quantity ?? 0;
+                    return { ...item, stock_quantity: stock, quantity: Math.min(item.quantity, stock) };
+                })
+                .filter(item => item.quantity > 0));
+        }
     };
 
     const fetchClients = async () => {
@@ -92,8 +158,61 @@ export const Sales: React.FC = () => {
         });
     };
 
-    const total = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-    const change = paymentMethod === 'money' && paymentType === 'cash' ? Math.max(0, amountPaid - total) : 0;
+    const total = sumMoney(cart.map(item => multiplyMoney(item.price, item.quantity)));
+    const financedAmount = Math.max(0, subtractMoney(total, downPayment));
+    const schedule = paymentType === 'installment'
+        ? generateInstallmentSchedule({
+            financedAmount,
+            count: installments,
+            firstDueDate,
+            interval: scheduleInterval,
+            intervalDays
+        })
+        : [];
+
+    const remaining = Math.max(0, subtractMoney(total, ...payments.map(p => p.amount)));
+
+    // Same rules checkout_sale applies to the financed part; the server has the final word
+    const availableCredit = creditStatus?.credit_limit != null
+        ? Math.max(0, subtractMoney(creditStatus.credit_limit, creditStatus.open_balance))
+        : null;
+    const creditBlock = paymentType !== 'installment' || !creditStatus
+        ? null
+        : creditStatus.block_overdue_days !== null && creditStatus.max_days_overdue > creditStatus.block_overdue_days
+            ? `Cliente com parcela vencida há ${creditStatus.max_days_overdue} dias`
+            : availableCredit !== null && toCents(financedAmount) > toCents(availableCredit)
+                ? `Valor parcelado acima do limite disponível (R$ ${availableCredit.toFixed(2)})`
+                : null;
+
+    // The line being typed counts as the last payment, so single-method sales need no extra click
+    const checkoutPayments: PaymentLine[] = paymentType === 'installment'
+        ? [
+            ...(downPayment > 0 ? [{ method: downPaymentMethod, amount: downPayment }] : []),
+            { method: 'installment', amount: financedAmount }
+        ]
+        : remaining > 0
+            ? [...payments, { method: paymentMethod, amount: paymentAmount || remaining }]
+            : payments;
+    const paidTotal = sumMoney(checkoutPayments.map(p => p.amount));
+    const nonCashTotal = sumMoney(checkoutPayments.filter(p => p.method !== 'money').map(p => p.amount));
+    const storeCreditUsed = sumMoney(checkoutPayments.filter(p => p.method === 'store_credit').map(p => p.amount));
+    // Only the cash line can go over the total; the excess is the change
+    const change = calculateChange(paidTotal, total);
+
+    const addPayment = () => {
+        const amount = paymentAmount || remaining;
+        if (remaining <= 0 || amount <= 0) return;
+        if (paymentMethod !== 'money' && toCents(amount) > toCents(remaining)) {
+            alert('Somente o pagamento em dinheiro pode exceder o valor restante (troco)');
+            return;
+        }
+        setPayments(current => [...current, { method: paymentMethod, amount }]);
+        setPaymentAmount(0);
+    };
+
+    const removePayment = (index: number) => {
+        setPayments(current => current.filter((_, i) => i !== index));
+    };
 
     const generateReceipt = (saleId: string) => {
         const doc = new jsPDF({
@@ -115,7 +234,7 @@ export const Sales: React.FC = () => {
         let y = 35;
         cart.forEach(item => {
             doc.text(`${item.name}`, 5, y);
-            doc.text(`${item.quantity}x R$ ${item.price.toFixed(2)} = R$ ${(item.quantity * item.price).toFixed(2)}`, 5, y + 4);
+            doc.text(`${item.quantity}x R$ ${item.price.toFixed(2)} = R$ ${multiplyMoney(item.price, item.quantity).toFixed(2)}`, 5, y + 4);
             y += 10;
         });
 
@@ -125,22 +244,33 @@ export const Sales: React.FC = () => {
         doc.text(`TOTAL: R$ ${total.toFixed(2)}`, 5, y);
 
         if (paymentType === 'installment') {
-            y += 5;
-            doc.text(`Forma: Parcelado em ${installments}x`, 5, y);
-        } else if (paymentMethod === 'money') {
             y += 5;
             doc.setFontSize(8);
-            doc.text(`Pago: R$ ${amountPaid.toFixed(2)}`, 5, y);
-            doc.text(`Troco: R$ ${change.toFixed(2)}`, 5, y + 4);
+            if (downPayment > 0) {
+                doc.text(`Entrada (${formatPaymentMethod(downPaymentMethod)}): R$ ${downPayment.toFixed(2)}`, 5, y);
+                y += 4;
+            }
+            doc.text(`Parcelado em ${installments}x:`, 5, y);
+            schedule.forEach(parcel => {
+                y += 4;
+                doc.text(`${parcel.installment_number}ª - ${format(new Date(`${parcel.due_date}T00:00:00`), 'dd/MM/yyyy')} - R$ ${parcel.amount.toFixed(2)}`, 5, y);
+            });
         } else {
             y += 5;
-            doc.text(`Forma: ${paymentMethod.toUpperCase()}`, 5, y);
+            doc.setFontSize(8);
+            checkoutPayments.forEach(payment => {
+                doc.text(`${formatPaymentMethod(payment.method)}: R$ ${payment.amount.toFixed(2)}`, 5, y);
+                y += 4;
+            });
+            if (change > 0) {
+                doc.text(`Troco: R$ ${change.toFixed(2)}`, 5, y);
+            }
         }
 
         doc.save(`cupom_${saleId}.pdf`);
     };
 
-    const handleCheckout = async () => {
+    const handleCheckout = async (pin?: string) => {
         if (!selectedClient) {
             alert('Selecione um cliente');
             return;
@@ -149,117 +279,89 @@ export const Sales: React.FC = () => {
             alert('Carrinho vazio');
             return;
         }
-        if (paymentType === 'cash' && paymentMethod === 'money' && amountPaid < total) {
+        if (paymentType === 'installment' && financedAmount <= 0) {
+            alert('A entrada deve ser menor que o total da venda');
+            return;
+        }
+        if (paidTotal < total) {
             alert('Valor pago insuficiente');
             return;
         }
+        if (toCents(nonCashTotal) > toCents(total)) {
+            alert('Somente o pagamento em dinheiro pode exceder o total (troco)');
+            return;
+        }
+        if (storeCreditUsed > storeCredit) {
+            alert('Crédito da loja insuficiente');
+            return;
+        }
 
         setLoading(true);
         try {
-            // 1. Create Sale
-            const { data: sale, error: saleError } = await supabase
-                .from('sales')
-                .insert([{
-                    client_id: selectedClient,
-                    user_id: user?.id,
-                    total_amount: total,
-                    payment_method: paymentType === 'installment' ? `credit_card_${installments}x` : paymentMethod
-                }])
-                .select()
-                .single();
-
-            if (saleError) throw saleError;
-
-            // 2. Create Sale Items
-            const saleItems = cart.map(item => ({
-                sale_id: sale.id,
-                product_id: item.id,
-                quantity: item.quantity,
-                unit_price: item.price
-            }));
-
-            const { error: itemsError } = await supabase
-                .from('sale_items')
-                .insert(saleItems);
-
-            if (itemsError) throw itemsError;
-
-            // 3. Create Installments if applicable
-            if (paymentType === 'installment') {
-                const installmentAmount = total / installments;
-                const installmentData = Array.from({ length: installments }).map((_, index) => {
-                    const dueDate = new Date();
-                    dueDate.setDate(dueDate.getDate() + (30 * (index + 1))); // 30, 60, 90 days...
-
-                    return {
-                        sale_id: sale.id,
-                        installment_number: index + 1,
-                        due_date: dueDate.toISOString(),
-                        amount: installmentAmount,
-                        status: 'pending'
-                    };
-                });
-
-                const { error: installmentError } = await supabase
-                    .from('installments')
-                    .insert(installmentData);
-
-                if (installmentError) throw installmentError;
-            }
-
-            // 4. Update Stock
-            for (const item of cart) {
-                const { data: currentProduct } = await supabase
-                    .from('products')
-                    .select('stock_quantity')
-                    .eq('id', item.id)
-                    .single();
-
-                if (currentProduct) {
-                    await supabase
-                        .from('products')
-                        .update({ stock_quantity: currentProduct.stock_quantity - item.quantity })
-                        .eq('id', item.id);
+            // Checked by its own call so a wrong PIN is recorded (and locks the PIN) even though the sale fails
+            if (pin) {
+                const { data: validPin, error: pinError } = await supabase.rpc('verify_credit_override_pin', { p_pin: pin });
+                if (pinError) throw pinError;
+                if (!validPin) {
+                    alert(getRpcErrorMessage({ message: 'invalid_override_pin' }, 'PIN inválido'));
+                    return;
                 }
             }
 
-            // 5. Generate Receipt
-            generateReceipt(sale.id);
-
-            // 6. Register in Cash Flow if it's a cash sale
-            if (paymentType === 'cash') {
-                // Check for open register
-                const { data: register } = await supabase
-                    .from('cash_registers')
-                    .select('id')
-                    .eq('user_id', user?.id)
-                    .eq('status', 'open')
-                    .single();
-
-                if (register) {
-                    const clientName = clients.find(c => c.id === selectedClient)?.name || 'Cliente';
-                    await supabase.from('cash_transactions').insert([{
-                        register_id: register.id,
-                        sale_id: sale.id,
-                        description: `Venda #${sale.id.slice(0, 8)} - ${clientName}`,
-                        amount: paymentMethod === 'money' ? (amountPaid > total ? total : amountPaid) : total,
-                        type: 'sale'
-                    }]);
-                }
-            }
+            // Sale, items, payments, installments, stock and cash entries are written in a single transaction
+            const { data: sale, error } = await supabase.rpc('checkout_sale', {
+                p_client_id: selectedClient,
+                p_items: cart.map(item => ({ product_id: item.id, quantity: item.quantity })),
+                p_payments: checkoutPayments,
+                p_installments: schedule,
+                p_override_pin: pin || null
+            });
+
+            if (error) throw error;
+
+            setShowOverrideModal(false);
+            setOverridePin('');
 
-            // Reset
+            // Reset first: the sale is saved even if printing fails
             setCart([]);
             setSelectedClient('');
-            setAmountPaid(0);
+            setPayments([]);
+            setPaymentAmount(0);
             setPaymentType('cash');
             setInstallments(2);
+            setDownPayment(0);
+            setFirstDueDate(format(addDays(new Date(), 30), 'yyyy-MM-dd'));
             fetchProducts(); // Refresh stock
-            alert('Venda realizada com sucesso!');
 
-        } catch (error: any) {
+            // This render still holds the sale's cart, client and schedule
+            try {
+                generateReceipt(sale.id);
+
+                if (paymentType === 'installment' && window.confirm('Imprimir o carnê de pagamento?')) {
+                    await printCarne({
+                        clientName: clients.find(c => c.id === selectedClient)?.name || 'Cliente',
+                        reference: `Venda #${sale.id.slice(0, 8)}`,
+                        referenceId: sale.id,
+                        installments: schedule
+                    });
+                }
+
+                alert('Venda realizada com sucesso!');
+            } catch (printError) {
+                console.error('Error printing sale documents:', printError);
+                alert('Venda realizada, mas não foi possível gerar o cupom ou o carnê');
+            }
+        } catch (error) {
+            // A blocked client can still buy on installments if an admin types the PIN
+            if ((isRpcError(error, 'credit_limit_exceeded') || isRpcError(error, 'client_overdue')) && creditStatus?.override_enabled) {
+                setOverrideReason(getRpcErrorMessage(error, 'Crédito bloqueado'));
+                setOverridePin('');
+                setShowOverrideModal(true);
+                return;
+            }
             console.error('Error processing sale:', error);
-            alert('Erro ao processar venda: ' + error.message);
+            alert(getRpcErrorMessage(error, 'Erro ao processar venda'));
+            if (isRpcError(error, 'insufficient_stock')) fetchProducts(); // Reload stock and adjust the cart
         } finally {
             setLoading(false);
         }
@@ -398,53 +500,199 @@ export const Sales: React.FC = () => {
 
                     {paymentType === 'cash' ? (
                         <>
-                            <div className="space-y-2">
-                                <label className="block text-sm font-medium text-gray-700">Forma de Pagamento</label>
-                                <select
-                                    value={paymentMethod}
-                                    onChange={e => setPaymentMethod(e.target.value)}
-                                    className="w-full p-2 border rounded-lg"
-                                >
-                                    <option value="pix">PIX</option>
-                                    <option value="money">Dinheiro</option>
-                                    <option value="debit">Débito</option>
-                                    <option value="credit">Crédito (1x)</option>
-                                </select>
-                            </div>
+                            {payments.length > 0 && (
+                                <div className="space-y-1">
+                                    {payments.map((payment, index) => (
+                                        <div key={index} className="flex justify-between items-center text-sm bg-white border rounded-lg px-3 py-1">
+                                            <span>{formatPaymentMethod(payment.method)}</span>
+                                            <div className="flex items-center gap-2">
+                                                <span className="font-medium">R$ {payment.amount.toFixed(2)}</span>
+                                                <button
+                                                    onClick={() => removePayment(index)}
+                                                    className="text-red-500 hover:text-red-700 p-1"
+                                                >
+                                                    <Trash2 className="h-3 w-3" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
 
-                            {paymentMethod === 'money' && (
+                            {remaining > 0 && (
+                                <div className="space-y-2">
+                                    <label className="block text-sm font-medium text-gray-700">
+                                        {payments.length > 0 ? `Restante: R$ ${remaining.toFixed(2)}` : 'Forma de Pagamento'}
+                                    </label>
+                                    <select
+                                        value={paymentMethod}
+                                        onChange={e => setPaymentMethod(e.target.value)}
+                                        className="w-full p-2 border rounded-lg"
+                                    >
+                                        <option value="pix">PIX</option>
+                                        <option value="money">Dinheiro</option>
+                                        <option value="debit">Débito</option>
+                                        <option value="credit">Crédito (1x)</option>
+                                        {(storeCredit > 0 || paymentMethod === 'store_credit') && (
+                                            <option value="store_credit">Crédito da loja (saldo R$ {storeCredit.toFixed(2)})</option>
+                                        )}
+                                    </select>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={paymentAmount || ''}
+                                            onChange={e => setPaymentAmount(parseFloat(e.target.value) || 0)}
+                                            className="flex-1 p-2 border rounded-lg"
+                                            placeholder={remaining.toFixed(2)}
+                                        />
+                                        <button
+                                            onClick={addPayment}
+                                            title="Adicionar outra forma de pagamento"
+                                            className="px-3 border rounded-lg text-blue-600 hover:bg-blue-50 flex items-center gap-1 text-sm"
+                                        >
+                                            <Plus className="h-4 w-4" />
+                                            Dividir
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {storeCreditUsed > storeCredit && (
+                                <div className="text-sm text-red-600">
+                                    Saldo insuficiente: faltam R$ {subtractMoney(storeCreditUsed, storeCredit).toFixed(2)}
+                                </div>
+                            )}
+
+                            {change > 0 && (
+                                <div className="text-sm text-green-600">
+                                    Troco: R$ {change.toFixed(2)}
+                                </div>
+                            )}
+                        </>
+                    ) : (
+                        <div className="space-y-2">
+                            <div className="grid grid-cols-2 gap-2">
                                 <div>
-                                    <label className="block text-sm font-medium text-gray-700">Valor Pago</label>
+                                    <label className="block text-sm font-medium text-gray-700">Entrada</label>
                                     <input
                                         type="number"
-                                        value={amountPaid}
-                                        onChange={e => setAmountPaid(parseFloat(e.target.value))}
+                                        min="0"
+                                        step="0.01"
+                                        value={downPayment || ''}
+                                        onChange={e => setDownPayment(parseFloat(e.target.value) || 0)}
                                         className="w-full p-2 border rounded-lg"
                                         placeholder="0.00"
                                     />
-                                    {amountPaid > total && (
-                                        <div className="text-sm text-green-600 mt-1">
-                                            Troco: R$ {change.toFixed(2)}
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">Forma da Entrada</label>
+                                    <select
+                                        value={downPaymentMethod}
+                                        onChange={e => setDownPaymentMethod(e.target.value)}
+                                        disabled={downPayment <= 0}
+                                        className="w-full p-2 border rounded-lg disabled:bg-gray-100"
+                                    >
+                                        <option value="money">Dinheiro</option>
+                                        <option value="pix">PIX</option>
+                                        <option value="debit">Débito</option>
+                                        <option value="credit">Crédito (1x)</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">Parcelas</label>
+                                    <select
+                                        value={installments}
+                                        onChange={e => setInstallments(parseInt(e.target.value))}
+                                        className="w-full p-2 border rounded-lg"
+                                    >
+                                        {[1, 2, 3, 4, 5, 6, 10, 12].map(num => (
+                                            <option key={num} value={num}>{num}x</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700">1º Vencimento</label>
+                                    <input
+                                        type="date"
+                                        value={firstDueDate}
+                                        onChange={e => setFirstDueDate(e.target.value)}
+                                        className="w-full p-2 border rounded-lg"
+                                    />
+                                </div>
+                                <div className={scheduleInterval === 'days' ? '' : 'col-span-2'}>
+                                    <label className="block text-sm font-medium text-gray-700">Intervalo</label>
+                                    <select
+                                        value={scheduleInterval}
+                                        onChange={e => setScheduleInterval(e.target.value as ScheduleInterval)}
+                                        className="w-full p-2 border rounded-lg"
+                                    >
+                                        {(Object.keys(scheduleIntervalLabels) as ScheduleInterval[]).map(key => (
+                                            <option key={key} value={key}>{scheduleIntervalLabels[key]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {scheduleInterval === 'days' && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700">Dias</label>
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={intervalDays}
+                                            onChange={e => setIntervalDays(Math.max(1, parseInt(e.target.value) || 1))}
+                                            className="w-full p-2 border rounded-lg"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+
+                            {creditStatus && (creditStatus.credit_limit !== null || creditStatus.max_days_overdue > 0) && (
+                                <div className={`text-sm rounded-lg p-2 ${creditBlock ? 'bg-red-50 text-red-700' : 'bg-gray-50 text-gray-600'}`}>
+                                    {creditStatus.credit_limit !== null && (
+                                        <div>
+                                            Limite R$ {creditStatus.credit_limit.toFixed(2)} - em aberto R$ {creditStatus.open_balance.toFixed(2)} - disponível R$ {(availableCredit ?? 0).toFixed(2)}
+                                        </div>
+                                    )}
+                                    {creditStatus.max_days_overdue > 0 && (
+                                        <div>Parcela mais atrasada: {creditStatus.max_days_overdue} dias</div>
+                                    )}
+                                    {creditBlock && (
+                                        <div className="font-medium">
+                                            {creditBlock}. {creditStatus.override_enabled ? 'Será necessário o PIN do administrador.' : 'Venda parcelada bloqueada.'}
                                         </div>
                                     )}
                                 </div>
                             )}
-                        </>
-                    ) : (
-                        <div className="space-y-2">
-                            <label className="block text-sm font-medium text-gray-700">Número de Parcelas</label>
-                            <select
-                                value={installments}
-                                onChange={e => setInstallments(parseInt(e.target.value))}
-                                className="w-full p-2 border rounded-lg"
-                            >
-                                {[2, 3, 4, 5, 6, 10, 12].map(num => (
-                                    <option key={num} value={num}>{num}x</option>
-                                ))}
-                            </select>
-                            <div className="text-sm text-gray-500 mt-1">
-                                Valor da parcela: R$ {(total / installments).toFixed(2)}
-                            </div>
+
+                            {downPayment >= total && total > 0 && (
+                                <div className="text-sm text-red-600">
+                                    A entrada deve ser menor que o total da venda
+                                </div>
+                            )}
+
+                            {schedule.length > 0 && (
+                                <div className="max-h-40 overflow-y-auto border rounded-lg bg-white">
+                                    <table className="min-w-full text-sm">
+                                        <thead className="bg-gray-100 sticky top-0">
+                                            <tr>
+                                                <th className="px-3 py-1 text-left text-xs font-medium text-gray-500">Nº</th>
+                                                <th className="px-3 py-1 text-left text-xs font-medium text-gray-500">Vencimento</th>
+                                                <th className="px-3 py-1 text-right text-xs font-medium text-gray-500">Valor</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-200">
+                                            {schedule.map(parcel => (
+                                                <tr key={parcel.installment_number}>
+                                                    <td className="px-3 py-1">{parcel.installment_number}ª</td>
+                                                    <td className="px-3 py-1">{format(new Date(`${parcel.due_date}T00:00:00`), 'dd/MM/yyyy')}</td>
+                                                    <td className="px-3 py-1 text-right">R$ {parcel.amount.toFixed(2)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
                         </div>
                     )}
 
@@ -454,7 +702,7 @@ export const Sales: React.FC = () => {
                     </div>
 
                     <button
-                        onClick={handleCheckout}
+                        onClick={() => handleCheckout()}
                         disabled={loading || cart.length === 0 || !selectedClient}
                         className="w-full py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex justify-center items-center gap-2"
                     >
@@ -467,6 +715,54 @@ export const Sales: React.FC = () => {
                     </button>
                 </div>
             </div>
+
+            {/* Credit Override Modal */}
+            {showOverrideModal && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+                    <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-6">
+                        <h3 className="text-lg font-bold text-gray-900 mb-4">Liberação de Crédito</h3>
+                        <p className="text-gray-600 mb-4">{overrideReason}</p>
+                        <form
+                            onSubmit={e => {
+                                e.preventDefault();
+                                handleCheckout(overridePin);
+                            }}
+                            className="space-y-4"
+                        >
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    PIN do administrador
+                                </label>
+                                <input
+                                    type="password"
+                                    required
+                                    autoFocus
+                                    autoComplete="off"
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    value={overridePin}
+                                    onChange={e => setOverridePin(e.target.value)}
+                                />
+                            </div>
+                            <div className="flex gap-3 mt-6">
+                                <button
+                                    type="button"
+                                    onClick={() => setShowOverrideModal(false)}
+                                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={loading || !overridePin}
+                                    className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium disabled:opacity-50"
+                                >
+                                    {loading ? 'Processando...' : 'Liberar e Finalizar'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
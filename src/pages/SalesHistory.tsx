@@ -1,33 +1,65 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getRpcErrorMessage } from '../lib/rpcErrors';
+import { formatCurrency } from '../lib/money';
+import { printCarne } from '../lib/carne';
+import { formatPaymentMethod } from '../lib/paymentMethods';
+import { ReturnModal } from '../components/ReturnModal';
 import { format } from 'date-fns';
-import { Calendar, Search, FileText, ChevronDown, ChevronUp } from 'lucide-react';
+import { Calendar, Search, FileText, ChevronDown, ChevronUp, XCircle, RotateCcw, Printer } from 'lucide-react';
 
 interface Sale {
     id: string;
     created_at: string;
     total_amount: number;
     payment_method: string;
+    status: 'completed' | 'cancelled';
+    cancelled_at: string | null;
+    cancellation_reason: string | null;
     client: {
         name: string;
     };
     sale_items: {
         id: string;
         quantity: number;
+        returned_quantity: number;
         unit_price: number;
         product: {
             name: string;
             code: string;
         };
     }[];
+    payments: {
+        method: string;
+        amount: number;
+        tendered_amount: number | null;
+        change_amount: number;
+    }[];
+    returns: {
+        id: string;
+        created_at: string;
+        refund_method: 'cash' | 'store_credit';
+        returned_amount: number;
+        installments_reduced: number;
+        exchange_amount: number;
+        refund_amount: number;
+        amount_due: number;
+        reason: string | null;
+    }[];
 }
 
 export const SalesHistory: React.FC = () => {
+    const { role } = useAuth();
     const [sales, setSales] = useState<Sale[]>([]);
     const [loading, setLoading] = useState(false);
     const [startDate, setStartDate] = useState(format(new Date().setDate(new Date().getDate() - 30), 'yyyy-MM-dd'));
     const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
     const [expandedSale, setExpandedSale] = useState<string | null>(null);
+    const [cancellingSale, setCancellingSale] = useState<Sale | null>(null);
+    const [cancelReason, setCancelReason] = useState('');
+    const [cancelling, setCancelling] = useState(false);
+    const [returningSale, setReturningSale] = useState<Sale | null>(null);
 
     const fetchSales = async () => {
         setLoading(true);
@@ -49,12 +81,33 @@ export const SalesHistory: React.FC = () => {
                     created_at,
                     total_amount,
                     payment_method,
+                    status,
+                    cancelled_at,
+                    cancellation_reason,
                     client:clients(name),
                     sale_items(
                         id,
                         quantity,
+                        returned_quantity,
                         unit_price,
                         product:products(name, code)
+                    ),
+                    payments:sale_payments(
+                        method,
+                        amount,
+                        tendered_amount,
+                        change_amount
+                    ),
+                    returns:sale_returns!sale_id(
+                        id,
+                        created_at,
+                        refund_method,
+                        returned_amount,
+                        installments_reduced,
+                        exchange_amount,
+                        refund_amount,
+                        amount_due,
+                        reason
                     )
                 `)
                 .gte('created_at', startDateTime.toISOString())
@@ -81,25 +134,60 @@ export const SalesHistory: React.FC = () => {
         setExpandedSale(expandedSale === saleId ? null : saleId);
     };
 
-    const formatCurrency = (value: number) => {
-        return new Intl.NumberFormat('pt-BR', {
-            style: 'currency',
-            currency: 'BRL'
-        }).format(value);
+    const hasInstallments = (sale: Sale) =>
+        sale.payment_method.startsWith('credit_card_') || sale.payments?.some(p => p.method === 'installment');
+
+    const handlePrintCarne = async (sale: Sale) => {
+        try {
+            const { data, error } = await supabase
+                .from('installments')
+                .select('installment_number, due_date, amount, principal_paid, status')
+                .eq('sale_id', sale.id)
+                .order('installment_number');
+
+            if (error) throw error;
+
+            const printed = await printCarne({
+                clientName: sale.client?.name || 'Cliente',
+                reference: `Venda #${sale.id.slice(0, 8)}`,
+                referenceId: sale.id,
+                installments: data || []
+            });
+            if (!printed) alert('Esta venda não tem parcelas em aberto');
+        } catch (error) {
+            console.error('Error printing carnê:', error);
+            alert('Erro ao gerar carnê');
+        }
     };
 
-    const formatPaymentMethod = (method: string) => {
-        const methods: { [key: string]: string } = {
-            'pix': 'PIX',
-            'money': 'Dinheiro',
-            'debit': 'Débito',
-            'credit': 'Crédito',
-        };
-        if (method.startsWith('credit_card_')) {
-            const installments = method.split('_')[2];
-            return `Crédito (${installments})`;
+    const openCancelModal = (sale: Sale) => {
+        setCancellingSale(sale);
+        setCancelReason('');
+    };
+
+    const handleCancelSale = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!cancellingSale) return;
+
+        setCancelling(true);
+        try {
+            // Returns items to stock, cancels open installments and refunds the register
+            const { error } = await supabase.rpc('cancel_sale', {
+                p_sale_id: cancellingSale.id,
+                p_reason: cancelReason
+            });
+
+            if (error) throw error;
+
+            setCancellingSale(null);
+            fetchSales();
+            alert('Venda cancelada com sucesso!');
+        } catch (error) {
+            console.error('Error cancelling sale:', error);
+            alert(getRpcErrorMessage(error, 'Erro ao cancelar venda'));
+        } finally {
+            setCancelling(false);
         }
-        return methods[method] || method;
     };
 
     return (
@@ -179,34 +267,80 @@ export const SalesHistory: React.FC = () => {
                                                 {sale.client?.name || 'Cliente não identificado'}
                                             </td>
                                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                                                {formatPaymentMethod(sale.payment_method)}
+                                                {sale.payments?.length > 1
+                                                    ? sale.payments.map(p => formatPaymentMethod(p.method)).join(' + ')
+                                                    : formatPaymentMethod(sale.payment_method)}
                                             </td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-green-600">
-                                                {formatCurrency(sale.total_amount)}
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                                                {sale.status === 'cancelled' ? (
+                                                    <div className="flex items-center gap-2">
+                                                        <span className="text-gray-400 line-through">{formatCurrency(sale.total_amount)}</span>
+                                                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                                                            Cancelada
+                                                        </span>
+                                                    </div>
+                                                ) : (
+                                                    <span className="text-green-600">{formatCurrency(sale.total_amount)}</span>
+                                                )}
                                             </td>
                                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                                <button
-                                                    onClick={() => toggleExpand(sale.id)}
-                                                    className="text-blue-600 hover:text-blue-800 flex items-center gap-1"
-                                                >
-                                                    {expandedSale === sale.id ? (
-                                                        <>
-                                                            <ChevronUp className="h-4 w-4" />
-                                                            Ocultar
-                                                        </>
-                                                    ) : (
-                                                        <>
-                                                            <ChevronDown className="h-4 w-4" />
-                                                            Detalhes
-                                                        </>
+                                                <div className="flex items-center gap-4">
+                                                    <button
+                                                        onClick={() => toggleExpand(sale.id)}
+                                                        className="text-blue-600 hover:text-blue-800 flex items-center gap-1"
+                                                    >
+                                                        {expandedSale === sale.id ? (
+                                                            <>
+                                                                <ChevronUp className="h-4 w-4" />
+                                                                Ocultar
+                                                            </>
+                                                        ) : (
+                                                            <>
+                                                                <ChevronDown className="h-4 w-4" />
+                                                                Detalhes
+                                                            </>
+                                                        )}
+                                                    </button>
+                                                    {sale.status === 'completed' && hasInstallments(sale) && (
+                                                        <button
+                                                            onClick={() => handlePrintCarne(sale)}
+                                                            className="text-gray-600 hover:text-gray-900 flex items-center gap-1"
+                                                        >
+                                                            <Printer className="h-4 w-4" />
+                                                            Carnê
+                                                        </button>
+                                                    )}
+                                                    {sale.status === 'completed' && sale.sale_items.some(item => item.returned_quantity < item.quantity) && (
+                                                        <button
+                                                            onClick={() => setReturningSale(sale)}
+                                                            className="text-gray-600 hover:text-gray-900 flex items-center gap-1"
+                                                        >
+                                                            <RotateCcw className="h-4 w-4" />
+                                                            Troca/Devolução
+                                                        </button>
+                                                    )}
+                                                    {role === 'admin' && sale.status === 'completed' && sale.returns.length === 0 && (
+                                                        <button
+                                                            onClick={() => openCancelModal(sale)}
+                                                            className="text-red-600 hover:text-red-800 flex items-center gap-1"
+                                                        >
+                                                            <XCircle className="h-4 w-4" />
+                                                            Cancelar venda
+                                                        </button>
                                                     )}
-                                                </button>
+                                                </div>
                                             </td>
                                         </tr>
                                         {expandedSale === sale.id && (
                                             <tr className="bg-gray-50">
                                                 <td colSpan={5} className="px-6 py-4">
                                                     <div className="text-sm text-gray-700">
+                                                        {sale.status === 'cancelled' && (
+                                                            <div className="mb-4 bg-red-50 text-red-700 p-3 rounded-lg">
+                                                                Cancelada em {sale.cancelled_at ? format(new Date(sale.cancelled_at), 'dd/MM/yyyy HH:mm') : '-'}
+                                                                {sale.cancellation_reason && <> — Motivo: {sale.cancellation_reason}</>}
+                                                            </div>
+                                                        )}
                                                         <h4 className="font-medium mb-2 flex items-center gap-2">
                                                             <FileText className="h-4 w-4" />
                                                             Itens do Pedido
@@ -217,6 +351,7 @@ export const SalesHistory: React.FC = () => {
                                                                     <tr>
                                                                         <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Produto</th>
                                                                         <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Qtd</th>
+                                                                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Devolvido</th>
                                                                         <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Preço Unit.</th>
                                                                         <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Subtotal</th>
                                                                     </tr>
@@ -226,6 +361,11 @@ export const SalesHistory: React.FC = () => {
                                                                         <tr key={item.id}>
                                                                             <td className="px-4 py-2 text-sm text-gray-900">{item.product?.name}</td>
                                                                             <td className="px-4 py-2 text-sm text-gray-900">{item.quantity}</td>
+                                                                            <td className="px-4 py-2 text-sm text-gray-900">
+                                                                                {item.returned_quantity > 0 ? (
+                                                                                    <span className="text-orange-600 font-medium">{item.returned_quantity}</span>
+                                                                                ) : '-'}
+                                                                            </td>
                                                                             <td className="px-4 py-2 text-sm text-gray-900">{formatCurrency(item.unit_price)}</td>
                                                                             <td className="px-4 py-2 text-sm text-gray-900">{formatCurrency(item.quantity * item.unit_price)}</td>
                                                                         </tr>
@@ -233,6 +373,49 @@ export const SalesHistory: React.FC = () => {
                                                                 </tbody>
                                                             </table>
                                                         </div>
+                                                        {sale.payments?.length > 0 && (
+                                                            <>
+                                                                <h4 className="font-medium mt-4 mb-2">Pagamentos</h4>
+                                                                <ul className="bg-white border rounded-lg divide-y divide-gray-200">
+                                                                    {sale.payments.map((payment, index) => (
+                                                                        <li key={index} className="px-4 py-2 flex justify-between">
+                                                                            <span>{formatPaymentMethod(payment.method)}</span>
+                                                                            <span>
+                                                                                {formatCurrency(payment.amount)}
+                                                                                {payment.change_amount > 0 && payment.tendered_amount !== null && (
+                                                                                    <span className="text-gray-500"> (recebido {formatCurrency(payment.tendered_amount)}, troco {formatCurrency(payment.change_amount)})</span>
+                                                                                )}
+                                                                            </span>
+                                                                        </li>
+                                                                    ))}
+                                                                </ul>
+                                                            </>
+                                                        )}
+                                                        {sale.returns?.length > 0 && (
+                                                            <>
+                                                                <h4 className="font-medium mt-4 mb-2 flex items-center gap-2">
+                                                                    <RotateCcw className="h-4 w-4" />
+                                                                    Trocas e Devoluções
+                                                                </h4>
+                                                                <ul className="bg-white border rounded-lg divide-y divide-gray-200">
+                                                                    {sale.returns.map(ret => (
+                                                                        <li key={ret.id} className="px-4 py-2">
+                                                                            <div className="flex justify-between">
+                                                                                <span>{format(new Date(ret.created_at), 'dd/MM/yyyy HH:mm')} — Devolvido {formatCurrency(ret.returned_amount)}</span>
+                                                                                <span>
+                                                                                    {ret.installments_reduced > 0 && <>Parcelas abatidas {formatCurrency(ret.installments_reduced)} · </>}
+                                                                                    {ret.exchange_amount > 0 && <>Troca {formatCurrency(ret.exchange_amount)} · </>}
+                                                                                    {ret.amount_due > 0
+                                                                                        ? <>Cliente pagou {formatCurrency(ret.amount_due)}</>
+                                                                                        : <>{ret.refund_method === 'cash' ? 'Reembolso em dinheiro' : 'Crédito na loja'} {formatCurrency(ret.refund_amount)}</>}
+                                                                                </span>
+                                                                            </div>
+                                                                            {ret.reason && <div className="text-xs text-gray-500">Motivo: {ret.reason}</div>}
+                                                                        </li>
+                                                                    ))}
+                                                                </ul>
+                                                            </>
+                                                        )}
                                                     </div>
                                                 </td>
                                             </tr>
@@ -244,6 +427,60 @@ export const SalesHistory: React.FC = () => {
                     </table>
                 </div>
             </div>
+
+            {returningSale && (
+                <ReturnModal
+                    isOpen={!!returningSale}
+                    onClose={() => setReturningSale(null)}
+                    onSuccess={fetchSales}
+                    sale={returningSale}
+                />
+            )}
+
+            {/* Cancel Sale Modal */}
+            {cancellingSale && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+                    <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-6">
+                        <h3 className="text-lg font-bold text-gray-900 mb-4">Cancelar Venda</h3>
+                        <p className="text-gray-600 mb-4">
+                            Cancelar a venda de <strong>{cancellingSale.client?.name || 'Cliente não identificado'}</strong> no valor de <strong>{formatCurrency(cancellingSale.total_amount)}</strong>?
+                            Os itens voltam ao estoque, as parcelas em aberto são canceladas e o valor recebido sai do seu caixa aberto.
+                        </p>
+
+                        <form onSubmit={handleCancelSale} className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    Motivo do cancelamento
+                                </label>
+                                <textarea
+                                    required
+                                    rows={3}
+                                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    value={cancelReason}
+                                    onChange={e => setCancelReason(e.target.value)}
+                                />
+                            </div>
+
+                            <div className="flex gap-3 mt-6">
+                                <button
+                                    type="button"
+                                    onClick={() => setCancellingSale(null)}
+                                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium"
+                                >
+                                    Voltar
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={cancelling || !cancelReason.trim()}
+                                    className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium disabled:opacity-50"
+                                >
+                                    {cancelling ? 'Cancelando...' : 'Cancelar Venda'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
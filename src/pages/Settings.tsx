@@ -0,0 +1,345 @@
+import React, { useEffect, useState } from 'react';
+import { Save, Percent, Store, ShieldCheck, Wallet } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { getRpcErrorMessage } from '../lib/rpcErrors';
+
+interface StoreSettings {
+    late_fee_percent: number;
+    daily_interest_percent: number;
+    late_fee_grace_days: number;
+    store_name: string | null;
+    pix_key: string | null;
+    pix_merchant_name: string | null;
+    pix_merchant_city: string | null;
+    credit_block_overdue_days: number | null;
+    withdrawal_approval_limit: number | null;
+    deposit_approval_limit: number | null;
+}
+
+export const Settings: React.FC = () => {
+    const { user } = useAuth();
+    const [settings, setSettings] = useState<StoreSettings | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [overridePin, setOverridePin] = useState('');
+    const [approvalPin, setApprovalPin] = useState('');
+
+    useEffect(() => {
+        fetchSettings();
+    }, []);
+
+    const fetchSettings = async () => {
+        try {
+            const { data, error } = await supabase
+                .from('store_settings')
+                .select('late_fee_percent, daily_interest_percent, late_fee_grace_days, store_name, pix_key, pix_merchant_name, pix_merchant_city, credit_block_overdue_days, withdrawal_approval_limit, deposit_approval_limit')
+                .single();
+
+            if (error) throw error;
+            setSettings(data);
+        } catch (error) {
+            console.error('Error fetching settings:', error);
+            alert('Erro ao carregar configurações');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!settings) return;
+
+        setSaving(true);
+        try {
+            const { error } = await supabase
+                .from('store_settings')
+                .update({
+                    ...settings,
+                    updated_at: new Date().toISOString(),
+                    updated_by: user?.id
+                })
+                .eq('id', true);
+
+            if (error) throw error;
+            alert('Configurações salvas com sucesso!');
+        } catch (error) {
+            console.error('Error saving settings:', error);
+            alert('Erro ao salvar configurações');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // The PIN is hashed by the database and never read back
+    const handleSavePin = async () => {
+        if (!overridePin && !window.confirm('Remover o PIN? Clientes bloqueados não poderão mais comprar parcelado.')) return;
+
+        try {
+            const { error } = await supabase.rpc('set_credit_override_pin', { p_pin: overridePin });
+
+            if (error) throw error;
+            setOverridePin('');
+            alert(overridePin ? 'PIN definido com sucesso!' : 'PIN removido.');
+        } catch (error) {
+            console.error('Error saving PIN:', error);
+            alert(getRpcErrorMessage(error, 'Erro ao salvar PIN'));
+        }
+    };
+
+    const handleSaveApprovalPin = async () => {
+        if (!approvalPin && !window.confirm('Remover o PIN? Somente administradores poderão registrar valores acima dos limites.')) return;
+
+        try {
+            const { error } = await supabase.rpc('set_cash_approval_pin', { p_pin: approvalPin });
+
+            if (error) throw error;
+            setApprovalPin('');
+            alert(approvalPin ? 'PIN definido com sucesso!' : 'PIN removido.');
+        } catch (error) {
+            console.error('Error saving PIN:', error);
+            alert(getRpcErrorMessage(error, 'Erro ao salvar PIN'));
+        }
+    };
+
+    const updateLimit = (field: 'withdrawal_approval_limit' | 'deposit_approval_limit', value: string) => {
+        setSettings(current => current && { ...current, [field]: value === '' ? null : parseFloat(value) || 0 });
+    };
+
+    const updateField = (field: keyof StoreSettings, value: string) => {
+        setSettings(current => current && { ...current, [field]: parseFloat(value) || 0 });
+    };
+
+    const updateText = (field: keyof StoreSettings, value: string) => {
+        setSettings(current => current && { ...current, [field]: value || null });
+    };
+
+    if (loading) {
+        return <div className="p-8 text-center text-gray-500">Carregando...</div>;
+    }
+
+    if (!settings) {
+        return <div className="p-8 text-center text-gray-500">Configurações não encontradas</div>;
+    }
+
+    return (
+        <div className="space-y-6">
+            <h1 className="text-2xl font-bold text-gray-900">Configurações</h1>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+                    <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                        <Store className="h-5 w-5 text-gray-400" />
+                        Loja e PIX
+                    </h2>
+                    <p className="text-sm text-gray-500">
+                        Usados nos documentos impressos. Com a chave PIX preenchida, cada parcela do carnê traz um código PIX copia e cola.
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Nome da loja</label>
+                            <input
+                                type="text"
+                                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={settings.store_name || ''}
+                                onChange={e => updateText('store_name', e.target.value)}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Chave PIX</label>
+                            <input
+                                type="text"
+                                placeholder="CPF/CNPJ, e-mail, telefone ou chave aleatória"
+                                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={settings.pix_key || ''}
+                                onChange={e => updateText('pix_key', e.target.value)}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Titular da conta PIX</label>
+                            <input
+                                type="text"
+                                maxLength={25}
+                                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={settings.pix_merchant_name || ''}
+                                onChange={e => updateText('pix_merchant_name', e.target.value)}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Cidade do titular</label>
+                            <input
+                                type="text"
+                                maxLength={15}
+                                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={settings.pix_merchant_city || ''}
+                                onChange={e => updateText('pix_merchant_city', e.target.value)}
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+                    <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                        <Percent className="h-5 w-5 text-gray-400" />
+                        Parcelas em atraso
+                    </h2>
+                    <p className="text-sm text-gray-500">
+                        Aplicados no recebimento de parcelas vencidas. A multa é cobrada uma vez; os juros, por dia de atraso.
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Multa (%)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                required
+                                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={settings.late_fee_percent}
+                                onChange={e => updateField('late_fee_percent', e.target.value)}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Juros de mora ao dia (%)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.0001"
+                                required
+                                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={settings.daily_interest_percent}
+                                onChange={e => updateField('daily_interest_percent', e.target.value)}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Carência (dias)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="1"
+                                required
+                                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={settings.late_fee_grace_days}
+                                onChange={e => updateField('late_fee_grace_days', e.target.value)}
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+                    <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                        <ShieldCheck className="h-5 w-5 text-gray-400" />
+                        Crédito de clientes
+                    </h2>
+                    <p className="text-sm text-gray-500">
+                        Vendas parceladas são bloqueadas quando ultrapassam o limite do cliente (definido no cadastro) ou quando ele tem parcelas vencidas há mais dias que o permitido. Com o PIN, um administrador pode liberar a venda no caixa.
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Bloquear com atraso acima de (dias)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="1"
+                                placeholder="Não bloquear"
+                                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={settings.credit_block_overdue_days ?? ''}
+                                onChange={e => setSettings(current => current && {
+                                    ...current,
+                                    credit_block_overdue_days: e.target.value === '' ? null : parseInt(e.target.value) || 0
+                                })}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">PIN de liberação</label>
+                            <div className="flex gap-2">
+                                <input
+                                    type="password"
+                                    autoComplete="new-password"
+                                    placeholder="Novo PIN (mín. 6 caracteres)"
+                                    className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    value={overridePin}
+                                    onChange={e => setOverridePin(e.target.value)}
+                                />
+                                <button
+                                    type="button"
+                                    onClick={handleSavePin}
+                                    className="px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                                >
+                                    {overridePin ? 'Definir' : 'Remover'}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+                    <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                        <Wallet className="h-5 w-5 text-gray-400" />
+                        Sangria e suprimento
+                    </h2>
+                    <p className="text-sm text-gray-500">
+                        Valores acima dos limites precisam do PIN do supervisor. Administradores não precisam de autorização.
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Limite de sangria (R$)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                placeholder="Sem limite"
+                                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={settings.withdrawal_approval_limit ?? ''}
+                                onChange={e => updateLimit('withdrawal_approval_limit', e.target.value)}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Limite de suprimento (R$)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                placeholder="Sem limite"
+                                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                value={settings.deposit_approval_limit ?? ''}
+                                onChange={e => updateLimit('deposit_approval_limit', e.target.value)}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">PIN do supervisor</label>
+                            <div className="flex gap-2">
+                                <input
+                                    type="password"
+                                    autoComplete="new-password"
+                                    placeholder="Novo PIN (mín. 6 caracteres)"
+                                    className="flex-1 min-w-0 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    value={approvalPin}
+                                    onChange={e => setApprovalPin(e.target.value)}
+                                />
+                                <button
+                                    type="button"
+                                    onClick={handleSaveApprovalPin}
+                                    className="px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                                >
+                                    {approvalPin ? 'Definir' : 'Remover'}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex justify-end">
+                    <button
+                        type="submit"
+                        disabled={saving}
+                        className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+                    >
+                        <Save className="h-4 w-4" />
+                        {saving ? 'Salvando...' : 'Salvar'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
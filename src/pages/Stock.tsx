@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { Search, ArrowUpDown, FileSpreadsheet, FileText, Plus, Upload, File } from 'lucide-react';
+import { Search, ArrowUpDown, FileSpreadsheet, FileText, Plus, Upload, File, Calendar, History as HistoryIcon } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { StockModal } from '../components/StockModal';
@@ -30,6 +30,35 @@ interface Purchase {
     };
 }
 
+interface StockMovement {
+    id: string;
+    product_id: string;
+    delta: number;
+    balance_after: number;
+    reason: 'sale' | 'purchase' | 'manual_add' | 'manual_remove' | 'return' | 'inventory_count' | 'sale_cancellation';
+    reference_id: string | null;
+    notes: string | null;
+    created_at: string;
+    product: {
+        name: string;
+        code: string;
+    };
+    user: {
+        full_name: string | null;
+        email: string;
+    } | null;
+}
+
+const movementReasonLabels: { [key: string]: string } = {
+    sale: 'Venda',
+    purchase: 'Compra',
+    manual_add: 'Entrada manual',
+    manual_remove: 'Saída manual',
+    return: 'Devolução',
+    inventory_count: 'Inventário',
+    sale_cancellation: 'Cancelamento de venda',
+};
+
 const PurchasesView: React.FC<{ products: Product[], onPurchaseAdded: () => void }> = ({ products, onPurchaseAdded }) => {
     const [purchases, setPurchases] = useState<Purchase[]>([]);
     const [loading, setLoading] = useState(true);
@@ -93,29 +122,16 @@ const PurchasesView: React.FC<{ products: Product[], onPurchaseAdded: () => void
                 fileUrl = publicUrl;
             }
 
-            // Insert purchase
-            const { error: insertError } = await supabase
-                .from('purchases')
-                .insert([{
-                    product_id: newPurchase.product_id,
-                    quantity: newPurchase.quantity,
-                    purchase_date: new Date(newPurchase.purchase_date).toISOString(),
-                    file_url: fileUrl
-                }]);
+            // Purchase and stock increment are recorded together in the database
+            const { error: insertError } = await supabase.rpc('register_purchase', {
+                p_product_id: newPurchase.product_id,
+                p_quantity: newPurchase.quantity,
+                p_purchase_date: new Date(newPurchase.purchase_date).toISOString(),
+                p_file_url: fileUrl
+            });
 
             if (insertError) throw insertError;
 
-            // Update stock
-            const product = products.find(p => p.id === newPurchase.product_id);
-            if (product) {
-                const { error: updateError } = await supabase
-                    .from('products')
-                    .update({ stock_quantity: product.stock_quantity + newPurchase.quantity })
-                    .eq('id', newPurchase.product_id);
-
-                if (updateError) throw updateError;
-            }
-
             setShowModal(false);
             setNewPurchase({
                 product_id: '',
@@ -273,6 +289,215 @@ const PurchasesView: React.FC<{ products: Product[], onPurchaseAdded: () => void
     );
 };
 
+const StockMovementsView: React.FC<{ products: Product[], productId: string, onProductChange: (productId: string) => void }> = ({ products, productId, onProductChange }) => {
+    const [movements, setMovements] = useState<StockMovement[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [startDate, setStartDate] = useState(format(new Date().setDate(new Date().getDate() - 30), 'yyyy-MM-dd'));
+    const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+    const [period, setPeriod] = useState({ startDate, endDate });
+
+    // The list follows the selected product and the period applied with "Filtrar"
+    useEffect(() => {
+        const fetchMovements = async () => {
+            setLoading(true);
+            try {
+                // Create dates treating the string as local time, end date covering the full day
+                const [startYear, startMonth, startDay] = period.startDate.split('-').map(Number);
+                const startDateTime = new Date(startYear, startMonth - 1, startDay, 0, 0, 0, 0);
+
+                const [endYear, endMonth, endDay] = period.endDate.split('-').map(Number);
+                const endDateTime = new Date(endYear, endMonth - 1, endDay, 23, 59, 59, 999);
+
+                let query = supabase
+                    .from('stock_movements')
+                    .select(`
+                        *,
+                        product:products(name, code),
+                        user:profiles(full_name, email)
+                    `)
+                    .gte('created_at', startDateTime.toISOString())
+                    .lte('created_at', endDateTime.toISOString())
+                    .order('created_at', { ascending: false });
+
+                if (productId) query = query.eq('product_id', productId);
+
+                const { data, error } = await query;
+
+                if (error) throw error;
+                setMovements(data || []);
+            } catch (error) {
+                console.error('Error fetching stock movements:', error);
+                alert('Erro ao buscar movimentações de estoque');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchMovements();
+    }, [productId, period]);
+
+    const selectedProductName = products.find(p => p.id === productId)?.name || 'Todos os produtos';
+    const periodLabel = `${format(new Date(`${period.startDate}T00:00:00`), 'dd/MM/yyyy')} a ${format(new Date(`${period.endDate}T00:00:00`), 'dd/MM/yyyy')}`;
+
+    const handleExportPDF = () => {
+        const doc = new jsPDF('landscape');
+
+        doc.text(`Movimentações de Estoque - ${selectedProductName}`, 14, 15);
+        doc.setFontSize(10);
+        doc.text(`Período: ${periodLabel}`, 14, 22);
+
+        autoTable(doc, {
+            head: [['Data', 'Produto', 'Motivo', 'Quantidade', 'Saldo', 'Usuário', 'Observação']],
+            body: movements.map(m => [
+                format(new Date(m.created_at), 'dd/MM/yyyy HH:mm'),
+                m.product?.name,
+                movementReasonLabels[m.reason] || m.reason,
+                m.delta > 0 ? `+${m.delta}` : m.delta,
+                m.balance_after,
+                m.user?.full_name || m.user?.email || '-',
+                m.notes || ''
+            ]),
+            startY: 27,
+        });
+
+        doc.save('movimentacoes_estoque.pdf');
+    };
+
+    const handleExportXLS = () => {
+        const ws = XLSX.utils.json_to_sheet(movements.map(m => ({
+            Data: format(new Date(m.created_at), 'dd/MM/yyyy HH:mm'),
+            Código: m.product?.code,
+            Produto: m.product?.name,
+            Motivo: movementReasonLabels[m.reason] || m.reason,
+            Quantidade: m.delta,
+            Saldo: m.balance_after,
+            Usuário: m.user?.full_name || m.user?.email || '',
+            Observação: m.notes || ''
+        })));
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, ws, "Movimentações");
+        XLSX.writeFile(wb, "movimentacoes_estoque.xlsx");
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white rounded-lg shadow p-4">
+                <div className="flex flex-col lg:flex-row gap-4 items-end">
+                    <div className="w-full lg:flex-1">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Produto</label>
+                        <select
+                            value={productId}
+                            onChange={(e) => onProductChange(e.target.value)}
+                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                        >
+                            <option value="">Todos os produtos</option>
+                            {products.map(p => (
+                                <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="w-full lg:w-auto">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Data Inicial</label>
+                        <div className="relative">
+                            <Calendar className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                            <input
+                                type="date"
+                                value={startDate}
+                                onChange={(e) => setStartDate(e.target.value)}
+                                className="pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
+                            />
+                        </div>
+                    </div>
+                    <div className="w-full lg:w-auto">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Data Final</label>
+                        <div className="relative">
+                            <Calendar className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+                            <input
+                                type="date"
+                                value={endDate}
+                                onChange={(e) => setEndDate(e.target.value)}
+                                className="pl-10 pr-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
+                            />
+                        </div>
+                    </div>
+                    <button
+                        onClick={() => setPeriod({ startDate, endDate })}
+                        disabled={loading}
+                        className="w-full lg:w-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        <Search className="h-4 w-4" />
+                        {loading ? 'Buscando...' : 'Filtrar'}
+                    </button>
+                    <button
+                        onClick={handleExportPDF}
+                        className="w-full lg:w-auto inline-flex items-center justify-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                        title="Exportar PDF"
+                    >
+                        <FileText className="h-4 w-4 mr-2" />
+                        PDF
+                    </button>
+                    <button
+                        onClick={handleExportXLS}
+                        className="w-full lg:w-auto inline-flex items-center justify-center px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                        title="Exportar Excel"
+                    >
+                        <FileSpreadsheet className="h-4 w-4 mr-2" />
+                        XLS
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Data</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Produto</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Motivo</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Quantidade</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Saldo</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Usuário</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {loading ? (
+                                <tr><td colSpan={6} className="px-6 py-4 text-center">Carregando...</td></tr>
+                            ) : movements.length === 0 ? (
+                                <tr><td colSpan={6} className="px-6 py-4 text-center">Nenhuma movimentação no período selecionado</td></tr>
+                            ) : (
+                                movements.map(movement => (
+                                    <tr key={movement.id} className="hover:bg-gray-50">
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                            {format(new Date(movement.created_at), 'dd/MM/yyyy HH:mm')}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                            {movement.product?.name}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                            <div>{movementReasonLabels[movement.reason] || movement.reason}</div>
+                                            {movement.notes && <div className="text-xs text-gray-500">{movement.notes}</div>}
+                                        </td>
+                                        <td className={`px-6 py-4 whitespace-nowrap text-sm font-bold text-right ${movement.delta < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                            {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                                            {movement.balance_after}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                            {movement.user?.full_name || movement.user?.email || '-'}
+                                        </td>
+                                    </tr>
+                                ))
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 export const Stock: React.FC = () => {
     const { role } = useAuth();
     const [products, setProducts] = useState<Product[]>([]);
@@ -340,7 +565,13 @@ export const Stock: React.FC = () => {
         product.category?.toLowerCase().includes(searchTerm.toLowerCase())
     );
 
-    const [activeTab, setActiveTab] = useState<'stock' | 'purchases'>('stock');
+    const [activeTab, setActiveTab] = useState<'stock' | 'purchases' | 'movements'>('stock');
+    const [movementsProductId, setMovementsProductId] = useState('');
+
+    const openMovements = (productId: string) => {
+        setMovementsProductId(productId);
+        setActiveTab('movements');
+    };
 
     return (
         <div className="space-y-6">
@@ -390,6 +621,15 @@ export const Stock: React.FC = () => {
                     >
                         Compras
                     </button>
+                    <button
+                        onClick={() => setActiveTab('movements')}
+                        className={`${activeTab === 'movements'
+                            ? 'border-blue-500 text-blue-600'
+                            : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                            } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}
+                    >
+                        Movimentações
+                    </button>
                 </nav>
             </div>
 
@@ -426,11 +666,9 @@ export const Stock: React.FC = () => {
                                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                                         Status
                                     </th>
-                                    {role === 'admin' && (
-                                        <th scope="col" className="relative px-6 py-3">
-                                            <span className="sr-only">Ações</span>
-                                        </th>
-                                    )}
+                                    <th scope="col" className="relative px-6 py-3">
+                                        <span className="sr-only">Ações</span>
+                                    </th>
                                 </tr>
                             </thead>
                             <tbody className="bg-white divide-y divide-gray-200">
@@ -469,17 +707,26 @@ export const Stock: React.FC = () => {
                                                     {product.stock_quantity <= product.min_stock_threshold ? 'Baixo Estoque' : 'Normal'}
                                                 </span>
                                             </td>
-                                            {role === 'admin' && (
-                                                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                                <div className="flex items-center justify-end gap-4">
                                                     <button
-                                                        onClick={() => setSelectedProduct(product)}
-                                                        className="text-blue-600 hover:text-blue-900 flex items-center justify-end ml-auto"
+                                                        onClick={() => openMovements(product.id)}
+                                                        className="text-gray-600 hover:text-gray-900 flex items-center"
                                                     >
-                                                        <ArrowUpDown className="h-4 w-4 mr-1" />
-                                                        Ajustar
+                                                        <HistoryIcon className="h-4 w-4 mr-1" />
+                                                        Histórico
                                                     </button>
-                                                </td>
-                                            )}
+                                                    {role === 'admin' && (
+                                                        <button
+                                                            onClick={() => setSelectedProduct(product)}
+                                                            className="text-blue-600 hover:text-blue-900 flex items-center"
+                                                        >
+                                                            <ArrowUpDown className="h-4 w-4 mr-1" />
+                                                            Ajustar
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </td>
                                         </tr>
                                     ))
                                 )}
@@ -487,8 +734,14 @@ export const Stock: React.FC = () => {
                         </table>
                     </div>
                 </div>
-            ) : (
+            ) : activeTab === 'purchases' ? (
                 <PurchasesView products={products} onPurchaseAdded={fetchProducts} />
+            ) : (
+                <StockMovementsView
+                    products={products}
+                    productId={movementsProductId}
+                    onProductChange={setMovementsProductId}
+                />
             )}
 
             {selectedProduct && (
@@ -0,0 +1,45 @@
+-- Receive several installments at once
+-- Run after update_schema_pix.sql. Settles the full balance of each selected parcel in a single
+-- transaction: one installment_payments row and one cash transaction per parcel, so reversals and
+-- receipts keep working per parcel.
+
+create or replace function public.receive_installments(
+  p_installment_ids uuid[],
+  p_payment_method text,
+  p_paid_at timestamptz default now()
+)
+returns setof public.installment_payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_installment_id uuid;
+  v_payment public.installment_payments;
+begin
+  if coalesce(array_length(p_installment_ids, 1), 0) = 0 then
+    raise exception 'no_installments_selected';
+  end if;
+
+  if (select count(*) from public.installments where id = any(p_installment_ids))
+     < (select count(distinct id) from unnest(p_installment_ids) as id) then
+    raise exception 'installment_not_found';
+  end if;
+
+  -- A receipt is issued to a single client
+  if (select count(distinct client_id) from public.installments where id = any(p_installment_ids)) > 1 then
+    raise exception 'mixed_clients';
+  end if;
+
+  -- Oldest first, so the cash entries follow the order of the parcels
+  for v_installment_id in
+    select id
+    from public.installments
+    where id = any(p_installment_ids)
+    order by due_date, installment_number
+  loop
+    v_payment := public.receive_installment(v_installment_id, p_payment_method, p_paid_at);
+    return next v_payment;
+  end loop;
+end;
+$$;
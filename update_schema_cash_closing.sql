@@ -0,0 +1,296 @@
+-- Blind cash closing
+-- Run after update_schema_cash_movements.sql. The operator counts the drawer and declares the total
+-- of each payment method before seeing what the system expected. Expected, counted and difference
+-- are kept per method for the closing report (leitura Z). Withdrawals and cash refunds are checked
+-- against the cash expected in the drawer.
+
+-- 1. Closing details on the register
+alter table public.cash_registers
+  add column counted_balance numeric(12,2),
+  add column closing_difference numeric(12,2), -- Counted minus expected; negative = short
+  add column denominations jsonb,              -- { "100": 3, "0.25": 4 }: notes and coins counted
+  add column closing_notes text,
+  add column closed_by uuid references public.profiles(id);
+
+-- 2. Expected vs counted per payment method
+create table public.cash_register_counts (
+  id uuid default uuid_generate_v4() primary key,
+  register_id uuid references public.cash_registers(id) on delete cascade not null,
+  payment_method text not null,
+  expected numeric(12,2) not null,
+  counted numeric(12,2) not null,
+  difference numeric(12,2) generated always as (counted - expected) stored,
+  unique (register_id, payment_method)
+);
+
+alter table public.cash_register_counts enable row level security;
+
+create policy "Admins have full access to cash_register_counts" on public.cash_register_counts
+  for all using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can view their own register counts" on public.cash_register_counts
+  for select using (
+    exists (
+      select 1 from public.cash_registers
+      where cash_registers.id = register_id and cash_registers.user_id = auth.uid()
+    )
+  );
+
+-- 3. What should be in the register, per payment method. Opening, withdrawals, deposits, return
+-- refunds (paid out of the drawer even when they carry the sale) and exchange differences are cash;
+-- cancellations count under the method refunded (older ones, without a method, were paid out in
+-- cash); old sales only know the sale's method.
+create or replace function public.cash_register_expected(p_register_id uuid)
+returns table (payment_method text, expected numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.method, sum(m.amount)
+  from (
+    select
+      case
+        when t.type in ('opening', 'withdrawal', 'deposit', 'return_refund') then 'money'
+        when t.type = 'sale_cancellation' and t.payment_method is null then 'money'
+        when coalesce(t.payment_method, s.payment_method) = 'exchange' then 'money'
+        when coalesce(t.payment_method, s.payment_method) like 'credit\_%' then 'credit'
+        else coalesce(t.payment_method, s.payment_method, 'money')
+      end as method,
+      case when t.type = 'withdrawal' then -t.amount else t.amount end as amount
+    from public.cash_transactions t
+    left join public.sales s on s.id = t.sale_id
+    where t.register_id = p_register_id and t.type <> 'closing'
+  ) m
+  group by m.method;
+$$;
+
+-- 4. Closing
+create or replace function public.close_cash_register(
+  p_register_id uuid,
+  p_counted jsonb,                    -- { "money": 150.00, "pix": 80.00, "debit": 0, "credit": 120.00 }
+  p_denominations jsonb default null, -- Optional breakdown of the counted cash
+  p_notes text default null
+)
+returns public.cash_registers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_register public.cash_registers;
+  v_expected numeric;
+  v_counted numeric;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_register
+  from public.cash_registers
+  where id = p_register_id and user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'register_not_found';
+  end if;
+
+  if v_register.status <> 'open' then
+    raise exception 'register_not_open';
+  end if;
+
+  if jsonb_typeof(coalesce(p_counted, '{}'::jsonb)) <> 'object' or exists (
+    select 1 from jsonb_each_text(coalesce(p_counted, '{}'::jsonb))
+    where value::numeric < 0 or round(value::numeric, 2) <> value::numeric
+  ) then
+    raise exception 'invalid_counted_amount';
+  end if;
+
+  -- The denominations must add up to the cash declared
+  if p_denominations is not null and (
+    select coalesce(sum(key::numeric * value::integer), 0)
+    from jsonb_each_text(p_denominations)
+  ) <> coalesce((p_counted->>'money')::numeric, 0) then
+    raise exception 'denominations_mismatch';
+  end if;
+
+  -- Every method with expected or counted money gets a line; missing counts are zero
+  insert into public.cash_register_counts (register_id, payment_method, expected, counted)
+  select p_register_id,
+         coalesce(e.payment_method, c.key),
+         coalesce(e.expected, 0),
+         coalesce(c.value::numeric, 0)
+  from public.cash_register_expected(p_register_id) e
+  full join jsonb_each_text(coalesce(p_counted, '{}'::jsonb)) c on c.key = e.payment_method
+  where coalesce(e.expected, 0) <> 0 or coalesce(c.value::numeric, 0) <> 0;
+
+  select coalesce(sum(expected), 0), coalesce(sum(counted), 0)
+  into v_expected, v_counted
+  from public.cash_register_counts
+  where register_id = p_register_id;
+
+  update public.cash_registers
+  set status = 'closed',
+      closed_at = timezone('utc'::text, now()),
+      closed_by = v_user_id,
+      final_balance = v_expected,
+      counted_balance = v_counted,
+      closing_difference = v_counted - v_expected,
+      denominations = p_denominations,
+      closing_notes = nullif(trim(p_notes), '')
+  where id = p_register_id
+  returning * into v_register;
+
+  insert into public.cash_transactions (register_id, description, amount, type)
+  values (p_register_id, 'Fechamento de Caixa', v_counted, 'closing');
+
+  return v_register;
+end;
+$$;
+
+-- 5. Withdrawals (update_schema_cash_movements.sql) can not take more than the cash expected in the
+-- drawer
+create or replace function public.record_cash_movement(
+  p_type text,                    -- 'withdrawal' (sangria) or 'deposit' (suprimento)
+  p_amount numeric,
+  p_reason text,
+  p_destination text default null, -- Withdrawals only
+  p_approval_pin text default null -- Supervisor PIN verified with verify_cash_approval_pin, required above the limit
+)
+returns public.cash_transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_is_admin boolean;
+  v_register_id uuid;
+  v_limit numeric;
+  v_cash numeric;
+  v_approved boolean := false;
+  v_transaction public.cash_transactions;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if p_type not in ('withdrawal', 'deposit') then
+    raise exception 'invalid_movement_type';
+  end if;
+
+  if p_amount is null or p_amount <= 0 or round(p_amount, 2) <> p_amount then
+    raise exception 'invalid_movement_amount';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'reason_required';
+  end if;
+
+  if p_destination is not null and (p_type <> 'withdrawal' or p_destination not in ('bank_deposit', 'safe', 'supplier_payment', 'other')) then
+    raise exception 'invalid_destination';
+  end if;
+
+  -- Locked so concurrent withdrawals cannot both pass the balance check
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1
+  for update;
+
+  if v_register_id is null then
+    raise exception 'no_open_register';
+  end if;
+
+  if p_type = 'withdrawal' then
+    select coalesce(sum(expected), 0) into v_cash
+    from public.cash_register_expected(v_register_id)
+    where payment_method = 'money';
+
+    if p_amount > v_cash then
+      raise exception 'insufficient_cash' using hint = v_cash::text;
+    end if;
+  end if;
+
+  select case when p_type = 'withdrawal' then withdrawal_approval_limit else deposit_approval_limit end
+  into v_limit
+  from public.store_settings
+  where id;
+
+  select exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) into v_is_admin;
+
+  -- Admins act as their own supervisor
+  if v_limit is not null and p_amount > v_limit and not v_is_admin then
+    if p_approval_pin is null then
+      raise exception 'approval_required' using hint = v_limit::text;
+    end if;
+
+    if not public.check_cash_approval_pin(p_approval_pin)
+       or not public.use_verified_pin('cash_approval') then
+      raise exception 'invalid_approval_pin';
+    end if;
+
+    v_approved := true;
+  end if;
+
+  insert into public.cash_transactions (
+    register_id, description, amount, type, payment_method, reason, destination, supervisor_approved
+  )
+  values (
+    v_register_id,
+    case when p_type = 'withdrawal' then 'Sangria' else 'Suprimento' end || ' - ' || trim(p_reason),
+    p_amount,
+    p_type,
+    'money',
+    trim(p_reason),
+    p_destination,
+    v_approved
+  )
+  returning * into v_transaction;
+
+  return v_transaction;
+end;
+$$;
+
+-- 6. Cash refunds (sale cancellations, returns) can not take more than the cash expected in the
+-- drawer either. Card and PIX refunds do not leave the drawer.
+create or replace function public.guard_cash_refund()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_cash numeric;
+begin
+  if new.type in ('sale_cancellation', 'return_refund')
+     and coalesce(new.payment_method, 'money') = 'money'
+     and new.amount < 0 then
+    -- Locked like in record_cash_movement so concurrent refunds cannot both pass
+    perform 1 from public.cash_registers where id = new.register_id for update;
+
+    select coalesce(sum(expected), 0) into v_cash
+    from public.cash_register_expected(new.register_id)
+    where payment_method = 'money';
+
+    if -new.amount > v_cash then
+      raise exception 'insufficient_cash' using hint = v_cash::text;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger cash_transactions_guard_cash_refund
+  before insert on public.cash_transactions
+  for each row execute function public.guard_cash_refund();
@@ -0,0 +1,201 @@
+-- Cash withdrawals (sangria) and deposits (suprimento)
+-- Run after update_schema_collections.sql. Money taken out of or put into an open register, always
+-- with a reason. Amounts above the limits set by an admin need the supervisor PIN.
+
+-- 1. Movement details. Both types are stored with a positive amount; withdrawals are subtracted
+-- from the balance.
+alter table public.cash_transactions
+  add column reason text,
+  add column destination text check (destination in ('bank_deposit', 'safe', 'supplier_payment', 'other')),
+  add column supervisor_approved boolean not null default false;
+
+-- 2. Limits. Null = no approval needed.
+alter table public.store_settings
+  add column withdrawal_approval_limit numeric(12,2) check (withdrawal_approval_limit >= 0),
+  add column deposit_approval_limit numeric(12,2) check (deposit_approval_limit >= 0);
+
+-- 3. Supervisor PIN, kept with the other secrets (see update_schema_credit_limit.sql)
+alter table public.store_secrets add column cash_approval_pin_hash text;
+
+create or replace function public.set_cash_approval_pin(p_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  -- An empty PIN turns approval off: only admins can then go over the limits
+  if nullif(trim(p_pin), '') is not null and length(trim(p_pin)) < 6 then
+    raise exception 'invalid_pin';
+  end if;
+
+  update public.store_secrets
+  set cash_approval_pin_hash = case
+        when nullif(trim(p_pin), '') is null then null
+        else crypt(trim(p_pin), gen_salt('bf'))
+      end,
+      updated_at = now(),
+      updated_by = v_user_id
+  where id;
+end;
+$$;
+
+create or replace function public.check_cash_approval_pin(p_pin text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select coalesce(
+    (select cash_approval_pin_hash = crypt(trim(p_pin), cash_approval_pin_hash)
+     from public.store_secrets
+     where id and cash_approval_pin_hash is not null),
+    false
+  );
+$$;
+
+revoke execute on function public.check_cash_approval_pin(text) from public, anon, authenticated;
+
+-- Attempts are counted and locked like the credit override PIN (see update_schema_credit_limit.sql)
+alter table public.pin_attempts
+  drop constraint if exists pin_attempts_pin_kind_check,
+  add constraint pin_attempts_pin_kind_check check (pin_kind in ('credit_override', 'cash_approval'));
+
+create or replace function public.verify_cash_approval_pin(p_pin text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_valid boolean;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  perform public.assert_pin_not_locked('cash_approval');
+
+  v_valid := public.check_cash_approval_pin(p_pin);
+
+  insert into public.pin_attempts (user_id, pin_kind, success)
+  values (auth.uid(), 'cash_approval', v_valid);
+
+  return v_valid;
+end;
+$$;
+
+-- Lets the cash screen know whether asking for the PIN makes sense
+create or replace function public.cash_approval_enabled()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.store_secrets where id and cash_approval_pin_hash is not null);
+$$;
+
+-- 4. Withdrawal or deposit on the operator's open register
+create or replace function public.record_cash_movement(
+  p_type text,                    -- 'withdrawal' (sangria) or 'deposit' (suprimento)
+  p_amount numeric,
+  p_reason text,
+  p_destination text default null, -- Withdrawals only
+  p_approval_pin text default null -- Supervisor PIN verified with verify_cash_approval_pin, required above the limit
+)
+returns public.cash_transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_is_admin boolean;
+  v_register_id uuid;
+  v_limit numeric;
+  v_approved boolean := false;
+  v_transaction public.cash_transactions;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if p_type not in ('withdrawal', 'deposit') then
+    raise exception 'invalid_movement_type';
+  end if;
+
+  if p_amount is null or p_amount <= 0 or round(p_amount, 2) <> p_amount then
+    raise exception 'invalid_movement_amount';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'reason_required';
+  end if;
+
+  if p_destination is not null and (p_type <> 'withdrawal' or p_destination not in ('bank_deposit', 'safe', 'supplier_payment', 'other')) then
+    raise exception 'invalid_destination';
+  end if;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  if v_register_id is null then
+    raise exception 'no_open_register';
+  end if;
+
+  select case when p_type = 'withdrawal' then withdrawal_approval_limit else deposit_approval_limit end
+  into v_limit
+  from public.store_settings
+  where id;
+
+  select exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) into v_is_admin;
+
+  -- Admins act as their own supervisor
+  if v_limit is not null and p_amount > v_limit and not v_is_admin then
+    if p_approval_pin is null then
+      raise exception 'approval_required' using hint = v_limit::text;
+    end if;
+
+    if not public.check_cash_approval_pin(p_approval_pin)
+       or not public.use_verified_pin('cash_approval') then
+      raise exception 'invalid_approval_pin';
+    end if;
+
+    v_approved := true;
+  end if;
+
+  insert into public.cash_transactions (
+    register_id, description, amount, type, payment_method, reason, destination, supervisor_approved
+  )
+  values (
+    v_register_id,
+    case when p_type = 'withdrawal' then 'Sangria' else 'Suprimento' end || ' - ' || trim(p_reason),
+    p_amount,
+    p_type,
+    'money',
+    trim(p_reason),
+    p_destination,
+    v_approved
+  )
+  returning * into v_transaction;
+
+  return v_transaction;
+end;
+$$;
@@ -0,0 +1,142 @@
+-- Atomic checkout
+-- Run after update_schema_financial.sql. Replaces the multi-step client flow in
+-- Sales.handleCheckout with a single transaction: if any step fails nothing is written.
+-- Errors are raised with a short code as the message (e.g. 'insufficient_stock') so the
+-- client can map them to friendly texts; extra context goes in DETAIL / HINT.
+
+-- Register that was open when the sale was made (null when no register was open)
+alter table public.sales
+  add column if not exists register_id uuid references public.cash_registers(id);
+
+create or replace function public.checkout_sale(
+  p_client_id uuid,
+  p_payment_method text,
+  p_items jsonb,                          -- [{ "product_id": uuid, "quantity": int }]
+  p_installments jsonb default '[]'::jsonb, -- [{ "installment_number": int, "due_date": date, "amount": numeric }]
+  p_amount_paid numeric default null
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_is_installment boolean := jsonb_array_length(coalesce(p_installments, '[]'::jsonb)) > 0;
+  v_register_id uuid;
+  v_client_name text;
+  v_sale public.sales;
+  v_product public.products;
+  v_item record;
+  v_total numeric := 0;
+  v_installments_total numeric;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select name into v_client_name from public.clients where id = p_client_id;
+  if not found then
+    raise exception 'client_not_found';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart';
+  end if;
+
+  -- Lock every product (in a stable order to avoid deadlocks) and validate stock
+  for v_item in
+    select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    if v_item.quantity is null or v_item.quantity < 1 then
+      raise exception 'invalid_quantity';
+    end if;
+
+    select * into v_product from public.products where id = v_item.product_id for update;
+    if not found then
+      raise exception 'product_not_found' using detail = v_item.product_id::text;
+    end if;
+
+    if coalesce(v_product.stock_quantity, 0) < v_item.quantity then
+      raise exception 'insufficient_stock'
+        using detail = v_product.name, hint = coalesce(v_product.stock_quantity, 0)::text;
+    end if;
+
+    v_total := v_total + v_product.price * v_item.quantity;
+  end loop;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  if v_is_installment then
+    select coalesce(sum((value->>'amount')::numeric), 0) into v_installments_total
+    from jsonb_array_elements(p_installments);
+
+    if abs(v_installments_total - v_total) > 0.01 then
+      raise exception 'installments_mismatch';
+    end if;
+  else
+    -- Cash sales must land in the operator's open register
+    if v_register_id is null then
+      raise exception 'no_open_register';
+    end if;
+
+    if p_payment_method = 'money' and coalesce(p_amount_paid, 0) < v_total then
+      raise exception 'insufficient_payment';
+    end if;
+  end if;
+
+  -- 1. Sale
+  insert into public.sales (client_id, user_id, total_amount, payment_method, register_id)
+  values (p_client_id, v_user_id, v_total, p_payment_method, v_register_id)
+  returning * into v_sale;
+
+  -- 2. Items and stock (prices always come from the products table)
+  for v_item in
+    select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    insert into public.sale_items (sale_id, product_id, quantity, unit_price)
+    select v_sale.id, id, v_item.quantity, price
+    from public.products
+    where id = v_item.product_id;
+
+    update public.products
+    set stock_quantity = stock_quantity - v_item.quantity
+    where id = v_item.product_id;
+  end loop;
+
+  -- 3. Installments
+  if v_is_installment then
+    insert into public.installments (sale_id, installment_number, due_date, amount, status)
+    select v_sale.id,
+           (value->>'installment_number')::integer,
+           (value->>'due_date')::date,
+           (value->>'amount')::numeric,
+           'pending'
+    from jsonb_array_elements(p_installments);
+  end if;
+
+  -- 4. Cash flow
+  if not v_is_installment then
+    insert into public.cash_transactions (register_id, sale_id, description, amount, type)
+    values (
+      v_register_id,
+      v_sale.id,
+      'Venda #' || left(v_sale.id::text, 8) || ' - ' || v_client_name,
+      v_total,
+      'sale'
+    );
+  end if;
+
+  return v_sale;
+end;
+$$;
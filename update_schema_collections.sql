@@ -0,0 +1,84 @@
+-- Collection (cobrança) worklist
+-- Run after update_schema_credit_limit.sql. Message templates for reminders and a log of every
+-- contact attempt with the client, including the date the client promised to pay.
+
+-- 1. Message templates
+-- Placeholders: {nome}, {valor}, {parcelas}, {vencimento}, {dias_atraso}, {pix}, {loja}
+create table public.collection_templates (
+  id uuid default uuid_generate_v4() primary key,
+  name text not null,
+  subject text, -- Used by e-mail
+  body text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+insert into public.collection_templates (name, subject, body) values
+  (
+    'Lembrete de vencimento',
+    'Lembrete de pagamento - {loja}',
+    'Olá, {nome}! Passando para lembrar que sua parcela de {valor} vence em {vencimento}. Para pagar por PIX, use o código: {pix}'
+  ),
+  (
+    'Parcela em atraso',
+    'Parcelas em atraso - {loja}',
+    'Olá, {nome}! Identificamos {parcelas} parcela(s) em aberto desde {vencimento} ({dias_atraso} dias), no total de {valor}. Podemos combinar o pagamento? PIX copia e cola: {pix}'
+  );
+
+alter table public.collection_templates enable row level security;
+
+create policy "Admins have full access to collection_templates" on public.collection_templates
+  for all using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can view collection_templates" on public.collection_templates
+  for select using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+    )
+  );
+
+-- 2. Contact attempts
+create table public.collection_contacts (
+  id uuid default uuid_generate_v4() primary key,
+  client_id uuid references public.clients(id) on delete cascade not null,
+  user_id uuid references public.profiles(id) default auth.uid(),
+  channel text not null check (channel in ('whatsapp', 'phone', 'sms', 'email', 'in_person')),
+  outcome text not null check (outcome in ('message_sent', 'no_answer', 'promised', 'refused', 'wrong_number', 'other')),
+  promise_date date, -- Date the client promised to pay
+  promise_amount numeric(12,2) check (promise_amount > 0),
+  notes text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  check (outcome <> 'promised' or promise_date is not null)
+);
+
+create index collection_contacts_client_idx on public.collection_contacts (client_id, created_at);
+
+alter table public.collection_contacts enable row level security;
+
+create policy "Admins have full access to collection_contacts" on public.collection_contacts
+  for all using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can view collection_contacts" on public.collection_contacts
+  for select using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+    )
+  );
+
+-- Operators log their own contacts; the log is not edited afterwards
+create policy "Users can insert collection_contacts" on public.collection_contacts
+  for insert with check (
+    auth.uid() = user_id
+  );
@@ -0,0 +1,464 @@
+-- Client credit limit
+-- Run after update_schema_batch_installment_payments.sql. Installment sales are blocked when the
+-- financed part would take the client over their credit limit, or when the client has parcels
+-- overdue for more days than the store allows. An admin PIN lets the sale through anyway.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- 1. Limits
+alter table public.clients add column credit_limit numeric(12,2) check (credit_limit >= 0); -- Null = no limit
+
+alter table public.store_settings add column credit_block_overdue_days integer
+  check (credit_block_overdue_days >= 0); -- Null = overdue parcels do not block new sales
+
+-- Sales let through with the admin PIN
+alter table public.sales add column credit_override boolean not null default false;
+
+-- 2. Override PIN. Kept out of store_settings, which every user can read: with RLS enabled and no
+-- policies, only the security definer functions below can reach the hash.
+create table public.store_secrets (
+  id boolean primary key default true check (id), -- Only one row allowed
+  credit_override_pin_hash text,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_by uuid references public.profiles(id)
+);
+
+insert into public.store_secrets (id) values (true);
+
+alter table public.store_secrets enable row level security;
+
+create or replace function public.set_credit_override_pin(p_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  -- An empty PIN turns the override off
+  if nullif(trim(p_pin), '') is not null and length(trim(p_pin)) < 6 then
+    raise exception 'invalid_pin';
+  end if;
+
+  update public.store_secrets
+  set credit_override_pin_hash = case
+        when nullif(trim(p_pin), '') is null then null
+        else crypt(trim(p_pin), gen_salt('bf'))
+      end,
+      updated_at = now(),
+      updated_by = v_user_id
+  where id;
+end;
+$$;
+
+create or replace function public.check_credit_override_pin(p_pin text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select coalesce(
+    (select credit_override_pin_hash = crypt(trim(p_pin), credit_override_pin_hash)
+     from public.store_secrets
+     where id and credit_override_pin_hash is not null),
+    false
+  );
+$$;
+
+revoke execute on function public.check_credit_override_pin(text) from public, anon, authenticated;
+
+-- PIN attempts. A wrong PIN inside checkout_sale would be rolled back along with the sale, so
+-- the PIN is first verified by its own call, which records the attempt; the sale then only
+-- accepts a PIN verified by the same operator moments before. Five wrong PINs within 15 minutes
+-- lock the PIN for that operator.
+create table public.pin_attempts (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references public.profiles(id) not null,
+  pin_kind text not null check (pin_kind in ('credit_override')),
+  success boolean not null,
+  used_at timestamp with time zone, -- A verified PIN lets a single operation through
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index pin_attempts_user_idx on public.pin_attempts (user_id, pin_kind, created_at);
+
+-- No policies: only the functions below read or write attempts
+alter table public.pin_attempts enable row level security;
+
+create or replace function public.assert_pin_not_locked(p_kind text)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if (
+    select count(*)
+    from public.pin_attempts
+    where user_id = auth.uid()
+      and pin_kind = p_kind
+      and not success
+      and created_at > now() - interval '15 minutes'
+      and created_at > coalesce((
+        select max(created_at) from public.pin_attempts
+        where user_id = auth.uid() and pin_kind = p_kind and success
+      ), '-infinity')
+  ) >= 5 then
+    raise exception 'pin_locked';
+  end if;
+end;
+$$;
+
+-- Uses up the operator's latest PIN verification, if made in the last 5 minutes
+create or replace function public.use_verified_pin(p_kind text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_attempt_id uuid;
+begin
+  update public.pin_attempts
+  set used_at = now()
+  where id = (
+    select id from public.pin_attempts
+    where user_id = auth.uid()
+      and pin_kind = p_kind
+      and success
+      and used_at is null
+      and created_at > now() - interval '5 minutes'
+    order by created_at desc
+    limit 1
+  )
+  returning id into v_attempt_id;
+
+  return v_attempt_id is not null;
+end;
+$$;
+
+revoke execute on function public.assert_pin_not_locked(text) from public, anon, authenticated;
+revoke execute on function public.use_verified_pin(text) from public, anon, authenticated;
+
+create or replace function public.verify_credit_override_pin(p_pin text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_valid boolean;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  perform public.assert_pin_not_locked('credit_override');
+
+  v_valid := public.check_credit_override_pin(p_pin);
+
+  insert into public.pin_attempts (user_id, pin_kind, success)
+  values (auth.uid(), 'credit_override', v_valid);
+
+  return v_valid;
+end;
+$$;
+
+-- 3. What the client owes now (unpaid principal) and how late their oldest open parcel is
+create or replace function public.client_credit_status(p_client_id uuid)
+returns table (
+  credit_limit numeric,
+  open_balance numeric,
+  max_days_overdue integer,
+  block_overdue_days integer,
+  override_enabled boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    c.credit_limit,
+    coalesce((
+      select sum(i.amount - i.principal_paid)
+      from public.installments i
+      where i.client_id = c.id and i.status in ('pending', 'overdue')
+    ), 0),
+    coalesce((
+      select max(public.store_date() - i.due_date)
+      from public.installments i
+      where i.client_id = c.id and i.status in ('pending', 'overdue') and i.due_date < public.store_date()
+    ), 0),
+    (select credit_block_overdue_days from public.store_settings where id),
+    exists (select 1 from public.store_secrets where id and credit_override_pin_hash is not null)
+  from public.clients c
+  where c.id = p_client_id;
+$$;
+
+-- 4. Checkout: credit checks for the financed part
+drop function if exists public.checkout_sale(uuid, jsonb, jsonb, jsonb);
+
+create or replace function public.checkout_sale(
+  p_client_id uuid,
+  p_items jsonb,                            -- [{ "product_id": uuid, "quantity": int }]
+  p_payments jsonb,                         -- [{ "method": text, "amount": numeric }] (money: amount handed over)
+  p_installments jsonb default '[]'::jsonb, -- [{ "installment_number": int, "due_date": date, "amount": numeric }]
+  p_override_pin text default null          -- Admin PIN, required when the client's credit is blocked
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_register_id uuid;
+  v_client_name text;
+  v_sale public.sales;
+  v_product public.products;
+  v_item record;
+  v_payment record;
+  v_total numeric := 0;
+  v_paid numeric;
+  v_non_cash numeric;
+  v_tendered numeric;
+  v_change numeric;
+  v_financed numeric;
+  v_installments_total numeric;
+  v_credit numeric;
+  v_credit_balance numeric;
+  v_methods integer;
+  v_credit_status record;
+  v_blocked_reason text;
+  v_blocked_hint text;
+  v_credit_override boolean := false;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select name into v_client_name from public.clients where id = p_client_id;
+  if not found then
+    raise exception 'client_not_found';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart';
+  end if;
+
+  -- Lock every product (in a stable order to avoid deadlocks) and validate stock
+  for v_item in
+    select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    if v_item.quantity is null or v_item.quantity < 1 then
+      raise exception 'invalid_quantity';
+    end if;
+
+    select * into v_product from public.products where id = v_item.product_id for update;
+    if not found then
+      raise exception 'product_not_found' using detail = v_item.product_id::text;
+    end if;
+
+    if coalesce(v_product.stock_quantity, 0) < v_item.quantity then
+      raise exception 'insufficient_stock'
+        using detail = v_product.name, hint = coalesce(v_product.stock_quantity, 0)::text;
+    end if;
+
+    v_total := v_total + v_product.price * v_item.quantity;
+  end loop;
+
+  -- Payment lines, one per method
+  if p_payments is null or jsonb_array_length(p_payments) = 0 then
+    raise exception 'payment_required';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_payments)
+    where value->>'method' not in ('money', 'pix', 'debit', 'credit', 'store_credit', 'installment')
+       or coalesce((value->>'amount')::numeric, 0) <= 0
+       or round((value->>'amount')::numeric, 2) <> (value->>'amount')::numeric
+  ) then
+    raise exception 'invalid_payment';
+  end if;
+
+  select coalesce(sum((value->>'amount')::numeric), 0),
+         coalesce(sum((value->>'amount')::numeric) filter (where value->>'method' <> 'money'), 0),
+         coalesce(sum((value->>'amount')::numeric) filter (where value->>'method' = 'money'), 0),
+         coalesce(sum((value->>'amount')::numeric) filter (where value->>'method' = 'installment'), 0),
+         coalesce(sum((value->>'amount')::numeric) filter (where value->>'method' = 'store_credit'), 0),
+         count(distinct value->>'method')
+  into v_paid, v_non_cash, v_tendered, v_financed, v_credit, v_methods
+  from jsonb_array_elements(p_payments);
+
+  -- Non-cash lines can never exceed the total, and a cash line must apply something
+  if v_non_cash > v_total or (v_tendered > 0 and v_non_cash >= v_total) then
+    raise exception 'overpayment';
+  end if;
+
+  if v_paid < v_total then
+    raise exception 'insufficient_payment';
+  end if;
+
+  -- Only cash can exceed the total; the excess is the change
+  v_change := v_paid - v_total;
+
+  if v_financed > 0 then
+    -- Parcels are whole cents and must add up exactly to the financed part
+    if exists (
+      select 1 from jsonb_array_elements(coalesce(p_installments, '[]'::jsonb))
+      where round((value->>'amount')::numeric, 2) <> (value->>'amount')::numeric
+    ) then
+      raise exception 'installments_mismatch';
+    end if;
+
+    select coalesce(sum((value->>'amount')::numeric), 0) into v_installments_total
+    from jsonb_array_elements(coalesce(p_installments, '[]'::jsonb));
+
+    if v_installments_total <> v_financed then
+      raise exception 'installments_mismatch';
+    end if;
+
+    -- Lock the client so two terminals cannot both use the same available limit
+    perform 1 from public.clients where id = p_client_id for update;
+
+    select * into v_credit_status from public.client_credit_status(p_client_id);
+
+    if v_credit_status.block_overdue_days is not null
+       and v_credit_status.max_days_overdue > v_credit_status.block_overdue_days then
+      v_blocked_reason := 'client_overdue';
+      v_blocked_hint := v_credit_status.max_days_overdue::text;
+    elsif v_credit_status.credit_limit is not null
+       and v_credit_status.open_balance + v_financed > v_credit_status.credit_limit then
+      v_blocked_reason := 'credit_limit_exceeded';
+      v_blocked_hint := greatest(v_credit_status.credit_limit - v_credit_status.open_balance, 0)::text;
+    end if;
+
+    if v_blocked_reason is not null then
+      if p_override_pin is null then
+        raise exception '%', v_blocked_reason using hint = v_blocked_hint;
+      end if;
+
+      -- Verified beforehand with verify_credit_override_pin, where wrong PINs are counted
+      if not public.check_credit_override_pin(p_override_pin)
+         or not public.use_verified_pin('credit_override') then
+        raise exception 'invalid_override_pin';
+      end if;
+
+      v_credit_override := true;
+    end if;
+  end if;
+
+  if v_credit > 0 then
+    -- Lock the client's ledger so the same credit cannot be spent twice
+    perform 1 from public.clients where id = p_client_id for update;
+
+    select coalesce(sum(amount), 0) into v_credit_balance
+    from public.client_credits
+    where client_id = p_client_id;
+
+    if v_credit_balance < v_credit then
+      raise exception 'insufficient_store_credit' using hint = v_credit_balance::text;
+    end if;
+  end if;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  -- Money received now must land in the operator's open register
+  if v_paid - v_financed - v_credit > 0 and v_register_id is null then
+    raise exception 'no_open_register';
+  end if;
+
+  -- 1. Sale
+  insert into public.sales (client_id, user_id, total_amount, payment_method, register_id, credit_override)
+  values (
+    p_client_id,
+    v_user_id,
+    v_total,
+    case
+      when v_methods > 1 then 'multiple'
+      when v_financed > 0 then 'credit_card_' || jsonb_array_length(p_installments) || 'x'
+      else p_payments->0->>'method'
+    end,
+    v_register_id,
+    v_credit_override
+  )
+  returning * into v_sale;
+
+  -- 2. Items and stock (prices always come from the products table)
+  for v_item in
+    select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    insert into public.sale_items (sale_id, product_id, quantity, unit_price)
+    select v_sale.id, id, v_item.quantity, price
+    from public.products
+    where id = v_item.product_id;
+
+    perform public.apply_stock_movement(v_item.product_id, -v_item.quantity, 'sale', v_sale.id);
+  end loop;
+
+  -- 3. Payment lines and their cash entries
+  for v_payment in
+    select value->>'method' as method, sum((value->>'amount')::numeric) as amount
+    from jsonb_array_elements(p_payments)
+    group by 1
+    order by 1
+  loop
+    if v_payment.method = 'money' then
+      insert into public.sale_payments (sale_id, method, amount, tendered_amount, change_amount)
+      values (v_sale.id, 'money', v_payment.amount - v_change, v_payment.amount, v_change);
+    else
+      insert into public.sale_payments (sale_id, method, amount)
+      values (v_sale.id, v_payment.method, v_payment.amount);
+    end if;
+
+    if v_payment.method in ('money', 'pix', 'debit', 'credit') then
+      insert into public.cash_transactions (register_id, sale_id, description, amount, type, payment_method)
+      values (
+        v_register_id,
+        v_sale.id,
+        'Venda #' || left(v_sale.id::text, 8) || ' - ' || v_client_name,
+        case when v_payment.method = 'money' then v_payment.amount - v_change else v_payment.amount end,
+        'sale',
+        v_payment.method
+      );
+    elsif v_payment.method = 'store_credit' then
+      insert into public.client_credits (client_id, amount, description, sale_id, user_id)
+      values (p_client_id, -v_payment.amount, 'Venda #' || left(v_sale.id::text, 8), v_sale.id, v_user_id);
+    end if;
+  end loop;
+
+  -- 4. Installments for the financed part
+  if v_financed > 0 then
+    insert into public.installments (sale_id, installment_number, due_date, amount, status)
+    select v_sale.id,
+           (value->>'installment_number')::integer,
+           (value->>'due_date')::date,
+           (value->>'amount')::numeric,
+           'pending'
+    from jsonb_array_elements(p_installments);
+  end if;
+
+  return v_sale;
+end;
+$$;
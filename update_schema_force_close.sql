@@ -0,0 +1,76 @@
+-- Force-closing abandoned cash registers
+-- Run after update_schema_register_reopen.sql. An admin can close a register left open by another
+-- operator. Nobody counted the drawer, so no counts are stored: the register keeps the expected
+-- balance and is flagged so the closing is not mistaken for a checked one.
+
+alter table public.cash_registers add column force_closed boolean not null default false;
+
+create or replace function public.force_close_cash_register(p_register_id uuid, p_reason text)
+returns public.cash_registers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_register public.cash_registers;
+  v_expected numeric;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'reason_required';
+  end if;
+
+  select * into v_register from public.cash_registers where id = p_register_id for update;
+  if not found then
+    raise exception 'register_not_found';
+  end if;
+
+  if v_register.status <> 'open' then
+    raise exception 'register_not_open';
+  end if;
+
+  select coalesce(sum(expected), 0) into v_expected
+  from public.cash_register_expected(p_register_id);
+
+  update public.cash_registers
+  set status = 'closed',
+      closed_at = timezone('utc'::text, now()),
+      closed_by = v_user_id,
+      final_balance = v_expected,
+      counted_balance = null,
+      closing_difference = null,
+      closing_notes = 'Fechamento forçado: ' || trim(p_reason),
+      force_closed = true
+  where id = p_register_id
+  returning * into v_register;
+
+  insert into public.cash_transactions (register_id, description, amount, type)
+  values (p_register_id, 'Fechamento Forçado de Caixa', v_expected, 'closing');
+
+  return v_register;
+end;
+$$;
+
+-- Reopening a force-closed register clears the flag along with the rest of the closing
+create or replace function public.clear_force_closed()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'open' then
+    new.force_closed := false;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger cash_registers_clear_force_closed
+  before update of status on public.cash_registers
+  for each row execute function public.clear_force_closed();
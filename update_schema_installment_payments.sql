@@ -0,0 +1,235 @@
+-- Partial installment payments
+-- Run after update_schema_late_fees.sql. A parcel can be settled in several payments; each one
+-- is stored in installment_payments and the parcel only becomes 'paid' when fully settled.
+-- On the installment, late_fee / interest / paid_amount become running totals of its payments.
+
+-- Principal already settled on each parcel
+alter table public.installments add column principal_paid numeric(12,2) not null default 0;
+
+update public.installments
+set principal_paid = amount,
+    paid_amount = coalesce(paid_amount, amount)
+where status = 'paid';
+
+-- Create installment_payments table
+create table public.installment_payments (
+  id uuid default uuid_generate_v4() primary key,
+  installment_id uuid references public.installments(id) on delete cascade not null,
+  amount numeric(12,2) not null check (amount > 0), -- Principal settled by this payment
+  late_fee numeric(12,2) not null default 0,
+  interest numeric(12,2) not null default 0,
+  total numeric(12,2) not null, -- Amount received: principal + late fee + interest
+  payment_method text,
+  paid_at timestamp with time zone not null,
+  user_id uuid references public.profiles(id),
+  register_id uuid references public.cash_registers(id),
+  cash_transaction_id uuid references public.cash_transactions(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index installment_payments_installment_idx on public.installment_payments (installment_id, paid_at);
+
+alter table public.installment_payments enable row level security;
+
+create policy "Admins have full access to installment_payments" on public.installment_payments
+  for all using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can view installment_payments" on public.installment_payments
+  for select using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+    )
+  );
+
+-- Backfill: one payment per parcel already received through the register
+insert into public.installment_payments (
+  installment_id, amount, late_fee, interest, total, payment_method, paid_at, user_id, register_id, cash_transaction_id
+)
+select i.id,
+       i.amount,
+       t.late_fee,
+       t.interest,
+       t.amount,
+       t.payment_method,
+       t.created_at,
+       r.user_id,
+       t.register_id,
+       t.id
+from public.cash_transactions t
+join public.installments i on i.id = t.installment_id
+left join public.cash_registers r on r.id = t.register_id
+where t.type = 'installment_payment'
+  and i.status = 'paid';
+
+-- Charges are now computed on the principal being settled (defaults to the open balance)
+drop function if exists public.installment_charges(uuid, date);
+
+create or replace function public.installment_charges(
+  p_installment_id uuid,
+  p_paid_on date default public.store_date(),
+  p_amount numeric default null
+)
+returns table (days_late integer, late_fee numeric, interest numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_installment public.installments;
+  v_settings public.store_settings;
+  v_amount numeric;
+  v_days integer;
+begin
+  select * into v_installment from public.installments where id = p_installment_id;
+  if not found then
+    raise exception 'installment_not_found';
+  end if;
+
+  select * into v_settings from public.store_settings where id;
+
+  v_amount := coalesce(p_amount, v_installment.amount - v_installment.principal_paid);
+  v_days := greatest(p_paid_on - v_installment.due_date, 0);
+
+  if v_days = 0 or v_days <= coalesce(v_settings.late_fee_grace_days, 0) then
+    return query select v_days, 0::numeric, 0::numeric;
+    return;
+  end if;
+
+  return query select
+    v_days,
+    round(v_amount * coalesce(v_settings.late_fee_percent, 0) / 100, 2),
+    round(v_amount * coalesce(v_settings.daily_interest_percent, 0) / 100 * v_days, 2);
+end;
+$$;
+
+-- Receive all or part of a parcel
+drop function if exists public.receive_installment(uuid, text, timestamptz);
+
+create or replace function public.receive_installment(
+  p_installment_id uuid,
+  p_payment_method text,
+  p_paid_at timestamptz default now(),
+  p_amount numeric default null -- Principal to settle; defaults to the open balance
+)
+returns public.installment_payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_register_id uuid;
+  v_installment public.installments;
+  v_payment public.installment_payments;
+  v_transaction_id uuid;
+  v_client_name text;
+  v_balance numeric;
+  v_amount numeric;
+  v_days_late integer;
+  v_late_fee numeric;
+  v_interest numeric;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if not exists (select 1 from public.profiles where id = v_user_id) then
+    raise exception 'not_authorized';
+  end if;
+
+  if p_payment_method not in ('money', 'pix', 'debit', 'credit') then
+    raise exception 'invalid_payment';
+  end if;
+
+  perform public.check_payment_date(p_paid_at);
+
+  select * into v_installment from public.installments where id = p_installment_id for update;
+  if not found then
+    raise exception 'installment_not_found';
+  end if;
+
+  if v_installment.status not in ('pending', 'overdue') then
+    raise exception 'installment_not_open';
+  end if;
+
+  v_balance := v_installment.amount - v_installment.principal_paid;
+  v_amount := coalesce(p_amount, v_balance);
+
+  if v_amount <= 0 or v_amount > v_balance or round(v_amount, 2) <> v_amount then
+    raise exception 'invalid_payment_amount' using hint = v_balance::text;
+  end if;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  if v_register_id is null then
+    raise exception 'no_open_register';
+  end if;
+
+  select c.days_late, c.late_fee, c.interest
+  into v_days_late, v_late_fee, v_interest
+  from public.installment_charges(p_installment_id, public.store_date(p_paid_at), v_amount) c;
+
+  select c.name into v_client_name
+  from public.sales s
+  join public.clients c on c.id = s.client_id
+  where s.id = v_installment.sale_id;
+
+  insert into public.cash_transactions (
+    register_id, sale_id, installment_id, description, amount, type, payment_method, late_fee, interest
+  )
+  values (
+    v_register_id,
+    v_installment.sale_id,
+    v_installment.id,
+    'Recebimento Parcela ' || v_installment.installment_number || 'ª - ' || coalesce(v_client_name, 'Cliente')
+      || case when v_amount < v_balance then ' (parcial)' else '' end
+      || case when v_days_late > 0 then ' (' || v_days_late || ' dias de atraso)' else '' end,
+    v_amount + v_late_fee + v_interest,
+    'installment_payment',
+    p_payment_method,
+    v_late_fee,
+    v_interest
+  )
+  returning id into v_transaction_id;
+
+  insert into public.installment_payments (
+    installment_id, amount, late_fee, interest, total, payment_method, paid_at, user_id, register_id, cash_transaction_id
+  )
+  values (
+    v_installment.id,
+    v_amount,
+    v_late_fee,
+    v_interest,
+    v_amount + v_late_fee + v_interest,
+    p_payment_method,
+    p_paid_at,
+    v_user_id,
+    v_register_id,
+    v_transaction_id
+  )
+  returning * into v_payment;
+
+  -- Only a fully settled parcel becomes 'paid'
+  update public.installments
+  set principal_paid = principal_paid + v_amount,
+      late_fee = late_fee + v_late_fee,
+      interest = interest + v_interest,
+      paid_amount = coalesce(paid_amount, 0) + v_payment.total,
+      status = case when v_amount = v_balance then 'paid' else status end,
+      paid_at = case when v_amount = v_balance then p_paid_at else paid_at end
+  where id = p_installment_id;
+
+  return v_payment;
+end;
+$$;
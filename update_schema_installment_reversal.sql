@@ -0,0 +1,223 @@
+-- Installment payment reversal (estorno de recebimento)
+-- Run after update_schema_installment_payments.sql. An admin can reverse a payment received by
+-- mistake: the parcel gets its balance back and an offsetting entry is posted in the admin's open
+-- register. The original payment is kept and marked as reversed, so both stay in the audit trail.
+
+-- Allow reversal entries in the register
+alter table public.cash_transactions
+  drop constraint if exists cash_transactions_type_check,
+  add constraint cash_transactions_type_check check (type in ('sale', 'installment_payment', 'opening', 'closing', 'withdrawal', 'deposit', 'sale_cancellation', 'return_refund', 'installment_reversal'));
+
+-- Reversal details on the original payment
+alter table public.installment_payments add column reversed_at timestamp with time zone;
+alter table public.installment_payments add column reversed_by uuid references public.profiles(id);
+alter table public.installment_payments add column reversal_reason text;
+alter table public.installment_payments add column reversal_transaction_id uuid references public.cash_transactions(id);
+
+create or replace function public.reverse_installment_payment(
+  p_payment_id uuid,
+  p_reason text
+)
+returns public.installment_payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_register_id uuid;
+  v_payment public.installment_payments;
+  v_installment public.installments;
+  v_client_name text;
+  v_transaction_id uuid;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'reason_required';
+  end if;
+
+  select * into v_payment from public.installment_payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'payment_not_found';
+  end if;
+
+  if v_payment.reversed_at is not null then
+    raise exception 'payment_already_reversed';
+  end if;
+
+  select * into v_installment from public.installments where id = v_payment.installment_id for update;
+
+  -- A cancelled sale already refunded what was received
+  if v_installment.status not in ('pending', 'overdue', 'paid') then
+    raise exception 'installment_not_open';
+  end if;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  if v_register_id is null then
+    raise exception 'no_open_register';
+  end if;
+
+  select c.name into v_client_name
+  from public.sales s
+  join public.clients c on c.id = s.client_id
+  where s.id = v_installment.sale_id;
+
+  insert into public.cash_transactions (
+    register_id, sale_id, installment_id, description, amount, type, payment_method, late_fee, interest
+  )
+  values (
+    v_register_id,
+    v_installment.sale_id,
+    v_installment.id,
+    'Estorno Parcela ' || v_installment.installment_number || 'ª - ' || coalesce(v_client_name, 'Cliente') || ': ' || trim(p_reason),
+    -v_payment.total,
+    'installment_reversal',
+    v_payment.payment_method,
+    -v_payment.late_fee,
+    -v_payment.interest
+  )
+  returning id into v_transaction_id;
+
+  update public.installment_payments
+  set reversed_at = timezone('utc'::text, now()),
+      reversed_by = v_user_id,
+      reversal_reason = trim(p_reason),
+      reversal_transaction_id = v_transaction_id
+  where id = p_payment_id
+  returning * into v_payment;
+
+  -- The parcel gets the reversed principal (and charges) back
+  update public.installments
+  set principal_paid = principal_paid - v_payment.amount,
+      late_fee = late_fee - v_payment.late_fee,
+      interest = interest - v_payment.interest,
+      paid_amount = nullif(coalesce(paid_amount, 0) - v_payment.total, 0),
+      status = case when due_date < public.store_date() then 'overdue' else 'pending' end,
+      paid_at = null
+  where id = v_installment.id;
+
+  return v_payment;
+end;
+$$;
+
+-- cancel_sale: reversed installment payments are no longer refunded
+create or replace function public.cancel_sale(
+  p_sale_id uuid,
+  p_reason text
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_sale public.sales;
+  v_client_name text;
+  v_register_id uuid;
+  v_refund numeric;
+  v_credit_used numeric;
+  v_item record;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'reason_required';
+  end if;
+
+  select * into v_sale from public.sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'sale_not_found';
+  end if;
+
+  if v_sale.status = 'cancelled' then
+    raise exception 'sale_already_cancelled';
+  end if;
+
+  if exists (select 1 from public.sale_returns where sale_id = p_sale_id) then
+    raise exception 'sale_has_returns';
+  end if;
+
+  select name into v_client_name from public.clients where id = v_sale.client_id;
+
+  -- Money actually received for this sale: the cash sale entry plus installments already paid
+  -- (reversed installment payments cancel out with their reversal entry)
+  select coalesce(sum(amount), 0) into v_refund
+  from public.cash_transactions
+  where (sale_id = p_sale_id and type = 'sale')
+     or (type in ('installment_payment', 'installment_reversal') and installment_id in (
+           select id from public.installments where sale_id = p_sale_id
+         ));
+
+  select coalesce(-sum(amount), 0) into v_credit_used
+  from public.client_credits
+  where sale_id = p_sale_id and amount < 0;
+
+  if v_refund > 0 then
+    select id into v_register_id
+    from public.cash_registers
+    where user_id = v_user_id and status = 'open'
+    order by opened_at desc
+    limit 1;
+
+    if v_register_id is null then
+      raise exception 'no_open_register';
+    end if;
+  end if;
+
+  -- 1. Items back to stock
+  for v_item in
+    select product_id, quantity from public.sale_items where sale_id = p_sale_id order by product_id
+  loop
+    perform public.apply_stock_movement(v_item.product_id, v_item.quantity, 'sale_cancellation', p_sale_id);
+  end loop;
+
+  -- 2. Installments not yet paid
+  update public.installments
+  set status = 'cancelled'
+  where sale_id = p_sale_id and status in ('pending', 'overdue');
+
+  -- 3. Refund out of the register / back to store credit
+  if v_refund > 0 then
+    insert into public.cash_transactions (register_id, sale_id, description, amount, type)
+    values (
+      v_register_id,
+      p_sale_id,
+      'Cancelamento Venda #' || left(p_sale_id::text, 8) || ' - ' || coalesce(v_client_name, 'Cliente'),
+      -v_refund,
+      'sale_cancellation'
+    );
+  end if;
+
+  if v_credit_used > 0 then
+    insert into public.client_credits (client_id, amount, description, sale_id, user_id)
+    values (v_sale.client_id, v_credit_used, 'Cancelamento Venda #' || left(p_sale_id::text, 8), p_sale_id, v_user_id);
+  end if;
+
+  update public.sales
+  set status = 'cancelled',
+      cancelled_at = timezone('utc'::text, now()),
+      cancelled_by = v_user_id,
+      cancellation_reason = trim(p_reason)
+  where id = p_sale_id
+  returning * into v_sale;
+
+  return v_sale;
+end;
+$$;
@@ -0,0 +1,236 @@
+-- Overdue installments and late fees
+-- Run after update_schema_money_precision.sql. Parcels past their due date are flagged as
+-- 'overdue' by a daily job, and receiving a late parcel charges the configured late fee (multa)
+-- and daily interest (juros de mora), stored on the installment and on the cash entry.
+
+-- Store settings (single row)
+create table public.store_settings (
+  id boolean primary key default true check (id), -- Only one row allowed
+  late_fee_percent numeric(5,2) not null default 2 check (late_fee_percent >= 0), -- Multa, charged once
+  daily_interest_percent numeric(7,4) not null default 0.033 check (daily_interest_percent >= 0), -- Juros de mora per day late
+  late_fee_grace_days integer not null default 0 check (late_fee_grace_days >= 0), -- Days after the due date without charges
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_by uuid references public.profiles(id)
+);
+
+insert into public.store_settings (id) values (true);
+
+alter table public.store_settings enable row level security;
+
+create policy "Admins have full access to store_settings" on public.store_settings
+  for all using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can view store_settings" on public.store_settings
+  for select using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+    )
+  );
+
+-- Charges recorded when a parcel is received
+alter table public.installments add column late_fee numeric(12,2) not null default 0;
+alter table public.installments add column interest numeric(12,2) not null default 0;
+alter table public.installments add column paid_amount numeric(12,2); -- Amount + late fee + interest
+
+alter table public.cash_transactions add column late_fee numeric(12,2) not null default 0;
+alter table public.cash_transactions add column interest numeric(12,2) not null default 0;
+
+-- The store works on Brazilian time; the database clock runs in UTC
+create or replace function public.store_date(p_at timestamptz default now())
+returns date
+language sql
+stable
+as $$
+  select (p_at at time zone 'America/Sao_Paulo')::date;
+$$;
+
+-- Late charges for a parcel paid on a given day
+create or replace function public.installment_charges(p_installment_id uuid, p_paid_on date default public.store_date())
+returns table (days_late integer, late_fee numeric, interest numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_installment public.installments;
+  v_settings public.store_settings;
+  v_days integer;
+begin
+  select * into v_installment from public.installments where id = p_installment_id;
+  if not found then
+    raise exception 'installment_not_found';
+  end if;
+
+  select * into v_settings from public.store_settings where id;
+
+  v_days := greatest(p_paid_on - v_installment.due_date, 0);
+
+  if v_days = 0 or v_days <= coalesce(v_settings.late_fee_grace_days, 0) then
+    return query select v_days, 0::numeric, 0::numeric;
+    return;
+  end if;
+
+  return query select
+    v_days,
+    round(v_installment.amount * coalesce(v_settings.late_fee_percent, 0) / 100, 2),
+    round(v_installment.amount * coalesce(v_settings.daily_interest_percent, 0) / 100 * v_days, 2);
+end;
+$$;
+
+-- Flag pending parcels past their due date
+create or replace function public.mark_overdue_installments()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  update public.installments
+  set status = 'overdue'
+  where status = 'pending'
+    and due_date < public.store_date();
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+update public.installments
+set status = 'overdue'
+where status = 'pending'
+  and due_date < public.store_date();
+
+-- Daily job (00:05 in Brasília = 03:05 UTC). Requires the pg_cron extension (Database > Extensions).
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'mark-overdue-installments',
+  '5 3 * * *',
+  $$select public.mark_overdue_installments()$$
+);
+
+-- Days late, and so the charges, count up to the payment date: it can not be in the future and only
+-- admins may backdate a payment
+create or replace function public.check_payment_date(p_paid_at timestamptz)
+returns void
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if p_paid_at is null or public.store_date(p_paid_at) > public.store_date() then
+    raise exception 'invalid_payment_date';
+  end if;
+
+  if public.store_date(p_paid_at) < public.store_date() and not exists (
+    select 1 from public.profiles
+    where profiles.id = auth.uid() and profiles.role = 'admin'
+  ) then
+    raise exception 'backdate_not_authorized';
+  end if;
+end;
+$$;
+
+revoke execute on function public.check_payment_date(timestamptz) from public, anon, authenticated;
+
+-- Receive a parcel: status, charges and cash entry in a single transaction. p_paid_at dates the
+-- payment (and its charges); the cash entry is always dated when it enters the register.
+create or replace function public.receive_installment(
+  p_installment_id uuid,
+  p_payment_method text,
+  p_paid_at timestamptz default now()
+)
+returns public.installments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_register_id uuid;
+  v_installment public.installments;
+  v_client_name text;
+  v_days_late integer;
+  v_late_fee numeric;
+  v_interest numeric;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if not exists (select 1 from public.profiles where id = v_user_id) then
+    raise exception 'not_authorized';
+  end if;
+
+  if p_payment_method not in ('money', 'pix', 'debit', 'credit') then
+    raise exception 'invalid_payment';
+  end if;
+
+  perform public.check_payment_date(p_paid_at);
+
+  select * into v_installment from public.installments where id = p_installment_id for update;
+  if not found then
+    raise exception 'installment_not_found';
+  end if;
+
+  if v_installment.status not in ('pending', 'overdue') then
+    raise exception 'installment_not_open';
+  end if;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  if v_register_id is null then
+    raise exception 'no_open_register';
+  end if;
+
+  select c.days_late, c.late_fee, c.interest
+  into v_days_late, v_late_fee, v_interest
+  from public.installment_charges(p_installment_id, public.store_date(p_paid_at)) c;
+
+  select c.name into v_client_name
+  from public.sales s
+  join public.clients c on c.id = s.client_id
+  where s.id = v_installment.sale_id;
+
+  update public.installments
+  set status = 'paid',
+      paid_at = p_paid_at,
+      late_fee = v_late_fee,
+      interest = v_interest,
+      paid_amount = amount + v_late_fee + v_interest
+  where id = p_installment_id
+  returning * into v_installment;
+
+  insert into public.cash_transactions (
+    register_id, sale_id, installment_id, description, amount, type, payment_method, late_fee, interest
+  )
+  values (
+    v_register_id,
+    v_installment.sale_id,
+    v_installment.id,
+    'Recebimento Parcela ' || v_installment.installment_number || 'ª - ' || coalesce(v_client_name, 'Cliente')
+      || case when v_days_late > 0 then ' (' || v_days_late || ' dias de atraso)' else '' end,
+    v_installment.paid_amount,
+    'installment_payment',
+    p_payment_method,
+    v_late_fee,
+    v_interest
+  );
+
+  return v_installment;
+end;
+$$;
@@ -0,0 +1,265 @@
+-- Money precision
+-- Run after update_schema_split_payments.sql. Monetary columns become numeric(12,2) and
+-- checkout only accepts whole-cent amounts whose parcels add up exactly to the sale.
+
+-- 1. Existing parcels: round to cents and put the leftover on the first parcel of each sale,
+-- so every sale's installments add up to the same (rounded) total as before
+with parcels as (
+  select id,
+         round(amount, 2) as rounded,
+         row_number() over (partition by sale_id order by installment_number) as position,
+         round(sum(amount) over (partition by sale_id), 2)
+           - sum(round(amount, 2)) over (partition by sale_id) as leftover
+  from public.installments
+)
+update public.installments i
+set amount = p.rounded + case when p.position = 1 then p.leftover else 0 end
+from parcels p
+where p.id = i.id;
+
+-- 2. Column types (the cast rounds any remaining value to cents)
+-- The balances view depends on client_credits.amount and has to be recreated
+drop view if exists public.client_credit_balances;
+
+alter table public.products alter column price type numeric(12,2);
+alter table public.sales alter column total_amount type numeric(12,2);
+alter table public.sale_items alter column unit_price type numeric(12,2);
+alter table public.installments alter column amount type numeric(12,2);
+alter table public.cash_registers alter column initial_balance type numeric(12,2);
+alter table public.cash_registers alter column final_balance type numeric(12,2);
+alter table public.cash_transactions alter column amount type numeric(12,2);
+alter table public.sale_returns alter column returned_amount type numeric(12,2);
+alter table public.sale_returns alter column exchange_amount type numeric(12,2);
+alter table public.sale_returns alter column refund_amount type numeric(12,2);
+alter table public.sale_returns alter column amount_due type numeric(12,2);
+alter table public.sale_return_items alter column unit_price type numeric(12,2);
+alter table public.client_credits alter column amount type numeric(12,2);
+alter table public.sale_payments alter column amount type numeric(12,2);
+alter table public.sale_payments alter column tendered_amount type numeric(12,2);
+alter table public.sale_payments alter column change_amount type numeric(12,2);
+
+create view public.client_credit_balances
+with (security_invoker = true) as
+  select client_id, sum(amount) as balance
+  from public.client_credits
+  group by client_id;
+
+-- 3. Checkout: whole cents only, parcels must match the financed part exactly
+create or replace function public.checkout_sale(
+  p_client_id uuid,
+  p_items jsonb,                            -- [{ "product_id": uuid, "quantity": int }]
+  p_payments jsonb,                         -- [{ "method": text, "amount": numeric }] (money: amount handed over)
+  p_installments jsonb default '[]'::jsonb  -- [{ "installment_number": int, "due_date": date, "amount": numeric }]
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_register_id uuid;
+  v_client_name text;
+  v_sale public.sales;
+  v_product public.products;
+  v_item record;
+  v_payment record;
+  v_total numeric := 0;
+  v_paid numeric;
+  v_non_cash numeric;
+  v_tendered numeric;
+  v_change numeric;
+  v_financed numeric;
+  v_installments_total numeric;
+  v_credit numeric;
+  v_credit_balance numeric;
+  v_methods integer;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select name into v_client_name from public.clients where id = p_client_id;
+  if not found then
+    raise exception 'client_not_found';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart';
+  end if;
+
+  -- Lock every product (in a stable order to avoid deadlocks) and validate stock
+  for v_item in
+    select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    if v_item.quantity is null or v_item.quantity < 1 then
+      raise exception 'invalid_quantity';
+    end if;
+
+    select * into v_product from public.products where id = v_item.product_id for update;
+    if not found then
+      raise exception 'product_not_found' using detail = v_item.product_id::text;
+    end if;
+
+    if coalesce(v_product.stock_quantity, 0) < v_item.quantity then
+      raise exception 'insufficient_stock'
+        using detail = v_product.name, hint = coalesce(v_product.stock_quantity, 0)::text;
+    end if;
+
+    v_total := v_total + v_product.price * v_item.quantity;
+  end loop;
+
+  -- Payment lines, one per method
+  if p_payments is null or jsonb_array_length(p_payments) = 0 then
+    raise exception 'payment_required';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_payments)
+    where value->>'method' not in ('money', 'pix', 'debit', 'credit', 'store_credit', 'installment')
+       or coalesce((value->>'amount')::numeric, 0) <= 0
+       or round((value->>'amount')::numeric, 2) <> (value->>'amount')::numeric
+  ) then
+    raise exception 'invalid_payment';
+  end if;
+
+  select coalesce(sum((value->>'amount')::numeric), 0),
+         coalesce(sum((value->>'amount')::numeric) filter (where value->>'method' <> 'money'), 0),
+         coalesce(sum((value->>'amount')::numeric) filter (where value->>'method' = 'money'), 0),
+         coalesce(sum((value->>'amount')::numeric) filter (where value->>'method' = 'installment'), 0),
+         coalesce(sum((value->>'amount')::numeric) filter (where value->>'method' = 'store_credit'), 0),
+         count(distinct value->>'method')
+  into v_paid, v_non_cash, v_tendered, v_financed, v_credit, v_methods
+  from jsonb_array_elements(p_payments);
+
+  -- Non-cash lines can never exceed the total, and a cash line must apply something
+  if v_non_cash > v_total or (v_tendered > 0 and v_non_cash >= v_total) then
+    raise exception 'overpayment';
+  end if;
+
+  if v_paid < v_total then
+    raise exception 'insufficient_payment';
+  end if;
+
+  -- Only cash can exceed the total; the excess is the change
+  v_change := v_paid - v_total;
+
+  if v_financed > 0 then
+    -- Parcels are whole cents and must add up exactly to the financed part
+    if exists (
+      select 1 from jsonb_array_elements(coalesce(p_installments, '[]'::jsonb))
+      where round((value->>'amount')::numeric, 2) <> (value->>'amount')::numeric
+    ) then
+      raise exception 'installments_mismatch';
+    end if;
+
+    select coalesce(sum((value->>'amount')::numeric), 0) into v_installments_total
+    from jsonb_array_elements(coalesce(p_installments, '[]'::jsonb));
+
+    if v_installments_total <> v_financed then
+      raise exception 'installments_mismatch';
+    end if;
+  end if;
+
+  if v_credit > 0 then
+    -- Lock the client's ledger so the same credit cannot be spent twice
+    perform 1 from public.clients where id = p_client_id for update;
+
+    select coalesce(sum(amount), 0) into v_credit_balance
+    from public.client_credits
+    where client_id = p_client_id;
+
+    if v_credit_balance < v_credit then
+      raise exception 'insufficient_store_credit' using hint = v_credit_balance::text;
+    end if;
+  end if;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  -- Money received now must land in the operator's open register
+  if v_paid - v_financed - v_credit > 0 and v_register_id is null then
+    raise exception 'no_open_register';
+  end if;
+
+  -- 1. Sale
+  insert into public.sales (client_id, user_id, total_amount, payment_method, register_id)
+  values (
+    p_client_id,
+    v_user_id,
+    v_total,
+    case
+      when v_methods > 1 then 'multiple'
+      when v_financed > 0 then 'credit_card_' || jsonb_array_length(p_installments) || 'x'
+      else p_payments->0->>'method'
+    end,
+    v_register_id
+  )
+  returning * into v_sale;
+
+  -- 2. Items and stock (prices always come from the products table)
+  for v_item in
+    select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    insert into public.sale_items (sale_id, product_id, quantity, unit_price)
+    select v_sale.id, id, v_item.quantity, price
+    from public.products
+    where id = v_item.product_id;
+
+    perform public.apply_stock_movement(v_item.product_id, -v_item.quantity, 'sale', v_sale.id);
+  end loop;
+
+  -- 3. Payment lines and their cash entries
+  for v_payment in
+    select value->>'method' as method, sum((value->>'amount')::numeric) as amount
+    from jsonb_array_elements(p_payments)
+    group by 1
+    order by 1
+  loop
+    if v_payment.method = 'money' then
+      insert into public.sale_payments (sale_id, method, amount, tendered_amount, change_amount)
+      values (v_sale.id, 'money', v_payment.amount - v_change, v_payment.amount, v_change);
+    else
+      insert into public.sale_payments (sale_id, method, amount)
+      values (v_sale.id, v_payment.method, v_payment.amount);
+    end if;
+
+    if v_payment.method in ('money', 'pix', 'debit', 'credit') then
+      insert into public.cash_transactions (register_id, sale_id, description, amount, type, payment_method)
+      values (
+        v_register_id,
+        v_sale.id,
+        'Venda #' || left(v_sale.id::text, 8) || ' - ' || v_client_name,
+        case when v_payment.method = 'money' then v_payment.amount - v_change else v_payment.amount end,
+        'sale',
+        v_payment.method
+      );
+    elsif v_payment.method = 'store_credit' then
+      insert into public.client_credits (client_id, amount, description, sale_id, user_id)
+      values (p_client_id, -v_payment.amount, 'Venda #' || left(v_sale.id::text, 8), v_sale.id, v_user_id);
+    end if;
+  end loop;
+
+  -- 4. Installments for the financed part
+  if v_financed > 0 then
+    insert into public.installments (sale_id, installment_number, due_date, amount, status)
+    select v_sale.id,
+           (value->>'installment_number')::integer,
+           (value->>'due_date')::date,
+           (value->>'amount')::numeric,
+           'pending'
+    from jsonb_array_elements(p_installments);
+  end if;
+
+  return v_sale;
+end;
+$$;
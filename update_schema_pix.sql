@@ -0,0 +1,8 @@
+-- Store identification and PIX key
+-- Run after update_schema_renegotiation.sql. Used on printed documents (carnê) to show the store
+-- name and a PIX copy-and-paste code for each parcel.
+
+alter table public.store_settings add column store_name text;
+alter table public.store_settings add column pix_key text; -- CPF/CNPJ, e-mail, phone (+55...) or random key
+alter table public.store_settings add column pix_merchant_name text; -- Account holder name, max. 25 characters
+alter table public.store_settings add column pix_merchant_city text; -- Max. 15 characters
@@ -0,0 +1,132 @@
+-- Reopening closed cash registers
+-- Run after update_schema_cash_closing.sql. An admin can reopen a closed register to correct a
+-- mistake made before closing. The closing being undone is kept in an audit table and its
+-- 'closing' entry is reversed, never deleted.
+
+-- 1. Audit of every reopening
+create table public.cash_register_reopenings (
+  id uuid default uuid_generate_v4() primary key,
+  register_id uuid references public.cash_registers(id) on delete cascade not null,
+  user_id uuid references public.profiles(id) not null, -- Admin who reopened
+  reason text not null,
+  previous_closed_at timestamp with time zone,
+  previous_closed_by uuid references public.profiles(id),
+  previous_final_balance numeric(12,2),
+  previous_counted_balance numeric(12,2),
+  previous_difference numeric(12,2),
+  previous_counts jsonb, -- [{ "payment_method", "expected", "counted", "difference" }]
+  previous_denominations jsonb,
+  previous_closing_notes text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.cash_register_reopenings enable row level security;
+
+create policy "Admins have full access to cash_register_reopenings" on public.cash_register_reopenings
+  for all using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can view their own register reopenings" on public.cash_register_reopenings
+  for select using (
+    exists (
+      select 1 from public.cash_registers
+      where cash_registers.id = register_id and cash_registers.user_id = auth.uid()
+    )
+  );
+
+-- 2. Reopen: the register goes back to its operator, who closes it again after the correction
+create or replace function public.reopen_cash_register(p_register_id uuid, p_reason text)
+returns public.cash_registers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_register public.cash_registers;
+  v_closing_amount numeric;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'reason_required';
+  end if;
+
+  select * into v_register from public.cash_registers where id = p_register_id for update;
+  if not found then
+    raise exception 'register_not_found';
+  end if;
+
+  if v_register.status <> 'closed' then
+    raise exception 'register_not_closed';
+  end if;
+
+  -- Sales look up "the" open register of the operator, so only one may be open
+  if exists (
+    select 1 from public.cash_registers
+    where user_id = v_register.user_id and status = 'open'
+  ) then
+    raise exception 'operator_has_open_register';
+  end if;
+
+  insert into public.cash_register_reopenings (
+    register_id, user_id, reason, previous_closed_at, previous_closed_by,
+    previous_final_balance, previous_counted_balance, previous_difference, previous_counts,
+    previous_denominations, previous_closing_notes
+  )
+  values (
+    v_register.id,
+    v_user_id,
+    trim(p_reason),
+    v_register.closed_at,
+    v_register.closed_by,
+    v_register.final_balance,
+    v_register.counted_balance,
+    v_register.closing_difference,
+    (
+      select jsonb_agg(jsonb_build_object(
+        'payment_method', payment_method, 'expected', expected, 'counted', counted, 'difference', difference
+      ) order by payment_method)
+      from public.cash_register_counts
+      where register_id = v_register.id
+    ),
+    v_register.denominations,
+    v_register.closing_notes
+  );
+
+  delete from public.cash_register_counts where register_id = v_register.id;
+
+  -- Reverse the closing entry (net of earlier closings and reversals) so the ledger keeps both
+  select coalesce(sum(amount), 0) into v_closing_amount
+  from public.cash_transactions
+  where register_id = v_register.id and type = 'closing';
+
+  if v_closing_amount <> 0 then
+    insert into public.cash_transactions (register_id, description, amount, type)
+    values (v_register.id, 'Estorno do Fechamento (reabertura): ' || trim(p_reason), -v_closing_amount, 'closing');
+  end if;
+
+  update public.cash_registers
+  set status = 'open',
+      closed_at = null,
+      closed_by = null,
+      final_balance = null,
+      counted_balance = null,
+      closing_difference = null,
+      denominations = null,
+      closing_notes = null
+  where id = v_register.id
+  returning * into v_register;
+
+  return v_register;
+end;
+$$;
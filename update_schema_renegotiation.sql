@@ -0,0 +1,535 @@
+-- Debt renegotiation
+-- Run after update_schema_installment_reversal.sql. Open parcels of a client can be replaced by a
+-- new plan (with optional discount or added interest). The originals are kept with status
+-- 'renegotiated' and point to the renegotiation; the new parcels belong to the client and the
+-- renegotiation instead of a sale.
+
+-- Installments belong to a client (a renegotiated plan may cover several sales)
+alter table public.installments add column client_id uuid references public.clients(id);
+
+update public.installments i
+set client_id = s.client_id
+from public.sales s
+where s.id = i.sale_id;
+
+-- Parcels inserted for a sale take the sale's client
+create or replace function public.set_installment_client_id()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.client_id is null and new.sale_id is not null then
+    select client_id into new.client_id from public.sales where id = new.sale_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger installments_set_client_id
+  before insert on public.installments
+  for each row execute function public.set_installment_client_id();
+
+alter table public.installments
+  drop constraint if exists installments_status_check,
+  add constraint installments_status_check check (status in ('pending', 'paid', 'overdue', 'cancelled', 'renegotiated'));
+
+-- Create renegotiations table
+create table public.renegotiations (
+  id uuid default uuid_generate_v4() primary key,
+  client_id uuid references public.clients(id) not null,
+  user_id uuid references public.profiles(id),
+  original_amount numeric(12,2) not null, -- Open balance of the replaced parcels
+  discount numeric(12,2) not null default 0 check (discount >= 0),
+  addition numeric(12,2) not null default 0 check (addition >= 0), -- Interest / charges added to the debt
+  new_amount numeric(12,2) not null check (new_amount > 0),
+  installments_count integer not null,
+  notes text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index renegotiations_client_idx on public.renegotiations (client_id, created_at);
+
+-- Original parcels point to the renegotiation that replaced them; new parcels to the one that created them
+alter table public.installments add column renegotiated_in uuid references public.renegotiations(id);
+alter table public.installments add column renegotiation_id uuid references public.renegotiations(id);
+
+alter table public.renegotiations enable row level security;
+
+create policy "Admins have full access to renegotiations" on public.renegotiations
+  for all using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can view renegotiations" on public.renegotiations
+  for select using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+    )
+  );
+
+create or replace function public.renegotiate_installments(
+  p_client_id uuid,
+  p_installment_ids uuid[],
+  p_installments jsonb, -- [{ "installment_number": int, "due_date": date, "amount": numeric }]
+  p_discount numeric default 0,
+  p_addition numeric default 0,
+  p_notes text default null
+)
+returns public.renegotiations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_renegotiation public.renegotiations;
+  v_original numeric;
+  v_new_amount numeric;
+  v_installments_total numeric;
+  v_count integer;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  if not exists (select 1 from public.clients where id = p_client_id) then
+    raise exception 'client_not_found';
+  end if;
+
+  if p_installment_ids is null or cardinality(p_installment_ids) = 0 then
+    raise exception 'empty_renegotiation';
+  end if;
+
+  -- Lock the selected parcels; all must be open and belong to the client
+  perform 1 from public.installments where id = any(p_installment_ids) order by id for update;
+
+  select count(*), coalesce(sum(amount - principal_paid), 0)
+  into v_count, v_original
+  from public.installments
+  where id = any(p_installment_ids)
+    and client_id = p_client_id
+    and status in ('pending', 'overdue');
+
+  if v_count <> cardinality(p_installment_ids) then
+    raise exception 'installment_not_open';
+  end if;
+
+  if coalesce(p_discount, 0) < 0 or coalesce(p_addition, 0) < 0 then
+    raise exception 'invalid_renegotiation';
+  end if;
+
+  v_new_amount := v_original - coalesce(p_discount, 0) + coalesce(p_addition, 0);
+
+  if v_new_amount <= 0 then
+    raise exception 'invalid_renegotiation';
+  end if;
+
+  if p_installments is null or jsonb_array_length(p_installments) = 0 or exists (
+    select 1 from jsonb_array_elements(p_installments)
+    where coalesce((value->>'amount')::numeric, 0) <= 0
+       or round((value->>'amount')::numeric, 2) <> (value->>'amount')::numeric
+  ) then
+    raise exception 'installments_mismatch';
+  end if;
+
+  select sum((value->>'amount')::numeric) into v_installments_total
+  from jsonb_array_elements(p_installments);
+
+  if v_installments_total <> v_new_amount then
+    raise exception 'installments_mismatch';
+  end if;
+
+  insert into public.renegotiations (
+    client_id, user_id, original_amount, discount, addition, new_amount, installments_count, notes
+  )
+  values (
+    p_client_id,
+    v_user_id,
+    v_original,
+    coalesce(p_discount, 0),
+    coalesce(p_addition, 0),
+    v_new_amount,
+    jsonb_array_length(p_installments),
+    nullif(trim(p_notes), '')
+  )
+  returning * into v_renegotiation;
+
+  update public.installments
+  set status = 'renegotiated',
+      renegotiated_in = v_renegotiation.id
+  where id = any(p_installment_ids);
+
+  insert into public.installments (client_id, renegotiation_id, installment_number, due_date, amount, status)
+  select p_client_id,
+         v_renegotiation.id,
+         (value->>'installment_number')::integer,
+         (value->>'due_date')::date,
+         (value->>'amount')::numeric,
+         'pending'
+  from jsonb_array_elements(p_installments);
+
+  return v_renegotiation;
+end;
+$$;
+
+-- Client name now comes from the installment (renegotiated parcels have no sale)
+create or replace function public.receive_installment(
+  p_installment_id uuid,
+  p_payment_method text,
+  p_paid_at timestamptz default now(),
+  p_amount numeric default null -- Principal to settle; defaults to the open balance
+)
+returns public.installment_payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_register_id uuid;
+  v_installment public.installments;
+  v_payment public.installment_payments;
+  v_transaction_id uuid;
+  v_client_name text;
+  v_balance numeric;
+  v_amount numeric;
+  v_days_late integer;
+  v_late_fee numeric;
+  v_interest numeric;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if not exists (select 1 from public.profiles where id = v_user_id) then
+    raise exception 'not_authorized';
+  end if;
+
+  if p_payment_method not in ('money', 'pix', 'debit', 'credit') then
+    raise exception 'invalid_payment';
+  end if;
+
+  perform public.check_payment_date(p_paid_at);
+
+  select * into v_installment from public.installments where id = p_installment_id for update;
+  if not found then
+    raise exception 'installment_not_found';
+  end if;
+
+  if v_installment.status not in ('pending', 'overdue') then
+    raise exception 'installment_not_open';
+  end if;
+
+  v_balance := v_installment.amount - v_installment.principal_paid;
+  v_amount := coalesce(p_amount, v_balance);
+
+  if v_amount <= 0 or v_amount > v_balance or round(v_amount, 2) <> v_amount then
+    raise exception 'invalid_payment_amount' using hint = v_balance::text;
+  end if;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  if v_register_id is null then
+    raise exception 'no_open_register';
+  end if;
+
+  select c.days_late, c.late_fee, c.interest
+  into v_days_late, v_late_fee, v_interest
+  from public.installment_charges(p_installment_id, public.store_date(p_paid_at), v_amount) c;
+
+  select name into v_client_name from public.clients where id = v_installment.client_id;
+
+  insert into public.cash_transactions (
+    register_id, sale_id, installment_id, description, amount, type, payment_method, late_fee, interest
+  )
+  values (
+    v_register_id,
+    v_installment.sale_id,
+    v_installment.id,
+    'Recebimento Parcela ' || v_installment.installment_number || 'ª - ' || coalesce(v_client_name, 'Cliente')
+      || case when v_amount < v_balance then ' (parcial)' else '' end
+      || case when v_days_late > 0 then ' (' || v_days_late || ' dias de atraso)' else '' end,
+    v_amount + v_late_fee + v_interest,
+    'installment_payment',
+    p_payment_method,
+    v_late_fee,
+    v_interest
+  )
+  returning id into v_transaction_id;
+
+  insert into public.installment_payments (
+    installment_id, amount, late_fee, interest, total, payment_method, paid_at, user_id, register_id, cash_transaction_id
+  )
+  values (
+    v_installment.id,
+    v_amount,
+    v_late_fee,
+    v_interest,
+    v_amount + v_late_fee + v_interest,
+    p_payment_method,
+    p_paid_at,
+    v_user_id,
+    v_register_id,
+    v_transaction_id
+  )
+  returning * into v_payment;
+
+  -- Only a fully settled parcel becomes 'paid'
+  update public.installments
+  set principal_paid = principal_paid + v_amount,
+      late_fee = late_fee + v_late_fee,
+      interest = interest + v_interest,
+      paid_amount = coalesce(paid_amount, 0) + v_payment.total,
+      status = case when v_amount = v_balance then 'paid' else status end,
+      paid_at = case when v_amount = v_balance then p_paid_at else paid_at end
+  where id = p_installment_id;
+
+  return v_payment;
+end;
+$$;
+
+create or replace function public.reverse_installment_payment(
+  p_payment_id uuid,
+  p_reason text
+)
+returns public.installment_payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_register_id uuid;
+  v_payment public.installment_payments;
+  v_installment public.installments;
+  v_client_name text;
+  v_transaction_id uuid;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'reason_required';
+  end if;
+
+  select * into v_payment from public.installment_payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'payment_not_found';
+  end if;
+
+  if v_payment.reversed_at is not null then
+    raise exception 'payment_already_reversed';
+  end if;
+
+  select * into v_installment from public.installments where id = v_payment.installment_id for update;
+
+  -- A cancelled sale already refunded what was received
+  if v_installment.status not in ('pending', 'overdue', 'paid') then
+    raise exception 'installment_not_open';
+  end if;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  if v_register_id is null then
+    raise exception 'no_open_register';
+  end if;
+
+  select name into v_client_name from public.clients where id = v_installment.client_id;
+
+  insert into public.cash_transactions (
+    register_id, sale_id, installment_id, description, amount, type, payment_method, late_fee, interest
+  )
+  values (
+    v_register_id,
+    v_installment.sale_id,
+    v_installment.id,
+    'Estorno Parcela ' || v_installment.installment_number || 'ª - ' || coalesce(v_client_name, 'Cliente') || ': ' || trim(p_reason),
+    -v_payment.total,
+    'installment_reversal',
+    v_payment.payment_method,
+    -v_payment.late_fee,
+    -v_payment.interest
+  )
+  returning id into v_transaction_id;
+
+  update public.installment_payments
+  set reversed_at = timezone('utc'::text, now()),
+      reversed_by = v_user_id,
+      reversal_reason = trim(p_reason),
+      reversal_transaction_id = v_transaction_id
+  where id = p_payment_id
+  returning * into v_payment;
+
+  -- The parcel gets the reversed principal (and charges) back
+  update public.installments
+  set principal_paid = principal_paid - v_payment.amount,
+      late_fee = late_fee - v_payment.late_fee,
+      interest = interest - v_payment.interest,
+      paid_amount = nullif(coalesce(paid_amount, 0) - v_payment.total, 0),
+      status = case when due_date < public.store_date() then 'overdue' else 'pending' end,
+      paid_at = null
+  where id = v_installment.id;
+
+  return v_payment;
+end;
+$$;
+
+-- cancel_sale: a sale whose parcels were renegotiated can no longer be cancelled
+create or replace function public.cancel_sale(
+  p_sale_id uuid,
+  p_reason text
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_sale public.sales;
+  v_client_name text;
+  v_register_id uuid;
+  v_refunds jsonb;
+  v_refund numeric;
+  v_credit_used numeric;
+  v_item record;
+  v_method record;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'reason_required';
+  end if;
+
+  select * into v_sale from public.sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'sale_not_found';
+  end if;
+
+  if v_sale.status = 'cancelled' then
+    raise exception 'sale_already_cancelled';
+  end if;
+
+  if exists (select 1 from public.sale_returns where sale_id = p_sale_id) then
+    raise exception 'sale_has_returns';
+  end if;
+
+  -- Renegotiated parcels now live in an agreement that may cover other sales
+  if exists (select 1 from public.installments where sale_id = p_sale_id and status = 'renegotiated') then
+    raise exception 'sale_renegotiated';
+  end if;
+
+  select name into v_client_name from public.clients where id = v_sale.client_id;
+
+  -- Money actually received for this sale, per method: the sale entries (one per sale payment)
+  -- plus installments already paid, which carry the installment payment's method (reversed
+  -- installment payments cancel out with their reversal entry). Entries without a method only
+  -- know the sale's.
+  select coalesce(jsonb_object_agg(m.method, m.amount), '{}'::jsonb) into v_refunds
+  from (
+    select n.method, sum(n.amount) as amount
+    from (
+      select
+        case
+          when coalesce(t.payment_method, s.payment_method) like 'credit\_%' then 'credit'
+          when coalesce(t.payment_method, s.payment_method) in ('pix', 'debit', 'credit') then coalesce(t.payment_method, s.payment_method)
+          else 'money'
+        end as method,
+        t.amount
+      from public.cash_transactions t
+      left join public.sales s on s.id = t.sale_id
+      where (t.sale_id = p_sale_id and t.type = 'sale')
+         or (t.type in ('installment_payment', 'installment_reversal') and t.installment_id in (
+               select id from public.installments where sale_id = p_sale_id
+             ))
+    ) n
+    group by n.method
+    having sum(n.amount) > 0
+  ) m;
+
+  select coalesce(sum(value::numeric), 0) into v_refund from jsonb_each_text(v_refunds);
+
+  select coalesce(-sum(amount), 0) into v_credit_used
+  from public.client_credits
+  where sale_id = p_sale_id and amount < 0;
+
+  if v_refund > 0 then
+    select id into v_register_id
+    from public.cash_registers
+    where user_id = v_user_id and status = 'open'
+    order by opened_at desc
+    limit 1;
+
+    if v_register_id is null then
+      raise exception 'no_open_register';
+    end if;
+  end if;
+
+  -- 1. Items back to stock
+  for v_item in
+    select product_id, quantity from public.sale_items where sale_id = p_sale_id order by product_id
+  loop
+    perform public.apply_stock_movement(v_item.product_id, v_item.quantity, 'sale_cancellation', p_sale_id);
+  end loop;
+
+  -- 2. Installments not yet paid
+  update public.installments
+  set status = 'cancelled'
+  where sale_id = p_sale_id and status in ('pending', 'overdue');
+
+  -- 3. Refund through the method it was received by (card and PIX are reversed, only cash leaves
+  -- the drawer) / back to store credit
+  for v_method in
+    select key as method, value::numeric as amount from jsonb_each_text(v_refunds) order by key
+  loop
+    insert into public.cash_transactions (register_id, sale_id, description, amount, type, payment_method)
+    values (
+      v_register_id,
+      p_sale_id,
+      'Cancelamento Venda #' || left(p_sale_id::text, 8) || ' - ' || coalesce(v_client_name, 'Cliente'),
+      -v_method.amount,
+      'sale_cancellation',
+      v_method.method
+    );
+  end loop;
+
+  if v_credit_used > 0 then
+    insert into public.client_credits (client_id, amount, description, sale_id, user_id)
+    values (v_sale.client_id, v_credit_used, 'Cancelamento Venda #' || left(p_sale_id::text, 8), p_sale_id, v_user_id);
+  end if;
+
+  update public.sales
+  set status = 'cancelled',
+      cancelled_at = timezone('utc'::text, now()),
+      cancelled_by = v_user_id,
+      cancellation_reason = trim(p_reason)
+  where id = p_sale_id
+  returning * into v_sale;
+
+  return v_sale;
+end;
+$$;
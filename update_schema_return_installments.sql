@@ -0,0 +1,278 @@
+-- Returns on installment sales
+-- Run after update_schema_force_close.sql. Items returned from a sale with open parcels first
+-- reduce what the client still owes: the least-paid parcels are cut or cancelled. Only the part of
+-- the returned value the client had already paid (at the counter or on parcels) is refunded or
+-- used in an exchange.
+
+alter table public.sale_returns add column installments_reduced numeric(12,2) not null default 0; -- Open parcels cut by the return
+
+-- What the client paid for a sale and has not had back yet: counter payments, store credit used,
+-- principal settled on parcels and, for an exchange sale, the returned value that covered it;
+-- minus the paid part of earlier returns
+create or replace function public.sale_paid_balance(p_sale_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    (select coalesce(sum(amount), 0) from public.cash_transactions where sale_id = p_sale_id and type = 'sale')
+    + (select coalesce(-sum(amount), 0) from public.client_credits where sale_id = p_sale_id and amount < 0)
+    + (select coalesce(sum(principal_paid), 0) from public.installments where sale_id = p_sale_id)
+    + (select coalesce(sum(exchange_amount - amount_due), 0) from public.sale_returns where exchange_sale_id = p_sale_id)
+    - (select coalesce(sum(returned_amount - installments_reduced), 0) from public.sale_returns where sale_id = p_sale_id);
+$$;
+
+revoke execute on function public.sale_paid_balance(uuid) from public, anon, authenticated;
+
+-- Return preview (ReturnModal): the open parcel balance and the paid balance process_return works with
+create or replace function public.sale_return_balance(p_sale_id uuid)
+returns table (
+  open_installments numeric,
+  paid numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    coalesce((
+      select sum(i.amount - i.principal_paid)
+      from public.installments i
+      where i.sale_id = s.id and i.status in ('pending', 'overdue')
+    ), 0),
+    public.sale_paid_balance(s.id)
+  from public.sales s
+  where s.id = p_sale_id;
+$$;
+
+create or replace function public.process_return(
+  p_sale_id uuid,
+  p_items jsonb,                               -- [{ "sale_item_id": uuid, "quantity": int }]
+  p_refund_method text,                        -- 'cash' | 'store_credit'
+  p_exchange_items jsonb default '[]'::jsonb,  -- [{ "product_id": uuid, "quantity": int }]
+  p_reason text default null
+)
+returns public.sale_returns
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_sale public.sales;
+  v_client_name text;
+  v_return public.sale_returns;
+  v_exchange_sale public.sales;
+  v_register_id uuid;
+  v_sale_item public.sale_items;
+  v_product public.products;
+  v_installment public.installments;
+  v_item record;
+  v_returned numeric := 0;
+  v_exchange numeric := 0;
+  v_to_reduce numeric;
+  v_open numeric;
+  v_paid numeric;
+  v_credit numeric;
+  v_difference numeric;
+begin
+  if not exists (select 1 from public.profiles where profiles.id = v_user_id) then
+    raise exception 'not_authorized';
+  end if;
+
+  if p_refund_method not in ('cash', 'store_credit') then
+    raise exception 'invalid_refund_method';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_return';
+  end if;
+
+  select * into v_sale from public.sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'sale_not_found';
+  end if;
+
+  if v_sale.status = 'cancelled' then
+    raise exception 'sale_already_cancelled';
+  end if;
+
+  select name into v_client_name from public.clients where id = v_sale.client_id;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  insert into public.sale_returns (sale_id, user_id, register_id, refund_method, reason)
+  values (p_sale_id, v_user_id, v_register_id, p_refund_method, nullif(trim(p_reason), ''))
+  returning * into v_return;
+
+  -- 1. Returned items back to stock
+  for v_item in
+    select (value->>'sale_item_id')::uuid as sale_item_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    select * into v_sale_item
+    from public.sale_items
+    where id = v_item.sale_item_id and sale_id = p_sale_id
+    for update;
+
+    if not found then
+      raise exception 'sale_item_not_found';
+    end if;
+
+    if v_item.quantity is null or v_item.quantity < 1
+       or v_item.quantity > v_sale_item.quantity - v_sale_item.returned_quantity then
+      raise exception 'invalid_return_quantity';
+    end if;
+
+    update public.sale_items
+    set returned_quantity = returned_quantity + v_item.quantity
+    where id = v_sale_item.id;
+
+    insert into public.sale_return_items (return_id, sale_item_id, product_id, quantity, unit_price)
+    values (v_return.id, v_sale_item.id, v_sale_item.product_id, v_item.quantity, v_sale_item.unit_price);
+
+    perform public.apply_stock_movement(v_sale_item.product_id, v_item.quantity, 'return', v_return.id);
+
+    v_returned := v_returned + v_sale_item.unit_price * v_item.quantity;
+  end loop;
+
+  -- 2. Cut the open parcels, least paid (then latest) first. A parcel whose whole balance is
+  -- returned is cancelled when nothing was paid on it, or closed at what was paid otherwise.
+  v_to_reduce := v_returned;
+
+  for v_installment in
+    select * from public.installments
+    where sale_id = p_sale_id and status in ('pending', 'overdue')
+    order by principal_paid, due_date desc, installment_number desc
+    for update
+  loop
+    exit when v_to_reduce <= 0;
+
+    v_open := v_installment.amount - v_installment.principal_paid;
+
+    if v_to_reduce >= v_open then
+      update public.installments
+      set status = case when principal_paid > 0 then 'paid' else 'cancelled' end,
+          amount = case when principal_paid > 0 then principal_paid else amount end,
+          paid_at = case
+            when principal_paid > 0 then (select max(paid_at) from public.installment_payments where installment_id = v_installment.id)
+            else paid_at
+          end
+      where id = v_installment.id;
+
+      v_to_reduce := v_to_reduce - v_open;
+    else
+      update public.installments
+      set amount = amount - v_to_reduce
+      where id = v_installment.id;
+
+      v_to_reduce := 0;
+    end if;
+  end loop;
+
+  -- 3. Only the part the client had paid goes back (this return still counts as 0 in the balance)
+  v_paid := public.sale_paid_balance(p_sale_id);
+
+  -- Debt moved into a renegotiation is not refunded either
+  v_credit := least(v_to_reduce, greatest(v_paid, 0));
+
+  -- 4. Products taken in exchange, registered as a new sale
+  if jsonb_array_length(coalesce(p_exchange_items, '[]'::jsonb)) > 0 then
+    insert into public.sales (client_id, user_id, total_amount, payment_method, register_id)
+    values (v_sale.client_id, v_user_id, 0, 'exchange', v_register_id)
+    returning * into v_exchange_sale;
+
+    for v_item in
+      select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_exchange_items)
+      group by 1
+      order by 1
+    loop
+      if v_item.quantity is null or v_item.quantity < 1 then
+        raise exception 'invalid_quantity';
+      end if;
+
+      select * into v_product from public.products where id = v_item.product_id for update;
+      if not found then
+        raise exception 'product_not_found' using detail = v_item.product_id::text;
+      end if;
+
+      if v_product.stock_quantity < v_item.quantity then
+        raise exception 'insufficient_stock'
+          using detail = v_product.name, hint = v_product.stock_quantity::text;
+      end if;
+
+      insert into public.sale_items (sale_id, product_id, quantity, unit_price)
+      values (v_exchange_sale.id, v_product.id, v_item.quantity, v_product.price);
+
+      perform public.apply_stock_movement(v_product.id, -v_item.quantity, 'sale', v_exchange_sale.id);
+
+      v_exchange := v_exchange + v_product.price * v_item.quantity;
+    end loop;
+
+    update public.sales set total_amount = v_exchange where id = v_exchange_sale.id;
+  end if;
+
+  -- 5. Settle the difference between the paid part and the exchange
+  v_difference := v_credit - v_exchange;
+
+  if v_difference > 0 and p_refund_method = 'store_credit' then
+    insert into public.client_credits (client_id, amount, description, sale_id, return_id, user_id)
+    values (
+      v_sale.client_id,
+      v_difference,
+      'Devolução Venda #' || left(p_sale_id::text, 8),
+      p_sale_id,
+      v_return.id,
+      v_user_id
+    );
+  elsif v_difference <> 0 then
+    if v_register_id is null then
+      raise exception 'no_open_register';
+    end if;
+
+    if v_difference > 0 then
+      insert into public.cash_transactions (register_id, sale_id, description, amount, type, payment_method)
+      values (
+        v_register_id,
+        p_sale_id,
+        'Devolução Venda #' || left(p_sale_id::text, 8) || ' - ' || coalesce(v_client_name, 'Cliente'),
+        -v_difference,
+        'return_refund',
+        'money'
+      );
+    else
+      insert into public.cash_transactions (register_id, sale_id, description, amount, type, payment_method)
+      values (
+        v_register_id,
+        v_exchange_sale.id,
+        'Troca Venda #' || left(p_sale_id::text, 8) || ' - ' || coalesce(v_client_name, 'Cliente'),
+        -v_difference,
+        'sale',
+        'money'
+      );
+    end if;
+  end if;
+
+  update public.sale_returns
+  set returned_amount = v_returned,
+      installments_reduced = v_returned - v_to_reduce,
+      exchange_sale_id = v_exchange_sale.id,
+      exchange_amount = v_exchange,
+      refund_amount = greatest(v_difference, 0),
+      amount_due = greatest(-v_difference, 0)
+  where id = v_return.id
+  returning * into v_return;
+
+  return v_return;
+end;
+$$;
@@ -0,0 +1,553 @@
+-- Returns and exchanges (troca/devolução) with store credit
+-- Run after update_schema_sale_cancellation.sql. Items can be returned from a sale (partially),
+-- refunded in cash or as store credit, and optionally exchanged for other products.
+-- Store credit is a per-client ledger that can be used as a payment method at checkout.
+
+alter table public.sale_items
+  add column returned_quantity integer not null default 0,
+  add constraint sale_items_returned_quantity_check check (returned_quantity between 0 and quantity);
+
+alter table public.cash_transactions
+  drop constraint if exists cash_transactions_type_check,
+  add constraint cash_transactions_type_check check (type in ('sale', 'installment_payment', 'opening', 'closing', 'withdrawal', 'deposit', 'sale_cancellation', 'return_refund'));
+
+-- Create sale_returns table
+create table public.sale_returns (
+  id uuid default uuid_generate_v4() primary key,
+  sale_id uuid references public.sales(id) not null,
+  user_id uuid references public.profiles(id),
+  register_id uuid references public.cash_registers(id),
+  refund_method text not null check (refund_method in ('cash', 'store_credit')),
+  returned_amount numeric not null default 0, -- Value of the returned items
+  exchange_sale_id uuid references public.sales(id), -- Sale created for the products taken in exchange
+  exchange_amount numeric not null default 0,
+  refund_amount numeric not null default 0, -- Returned minus exchanged, when positive
+  amount_due numeric not null default 0, -- Exchanged minus returned, paid by the client
+  reason text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create sale_return_items table
+create table public.sale_return_items (
+  id uuid default uuid_generate_v4() primary key,
+  return_id uuid references public.sale_returns(id) on delete cascade not null,
+  sale_item_id uuid references public.sale_items(id) not null,
+  product_id uuid references public.products(id),
+  quantity integer not null check (quantity > 0),
+  unit_price numeric not null
+);
+
+-- Create client_credits table (store credit ledger)
+create table public.client_credits (
+  id uuid default uuid_generate_v4() primary key,
+  client_id uuid references public.clients(id) on delete cascade not null,
+  amount numeric not null, -- Positive when credit is granted, Negative when it is used
+  description text not null,
+  sale_id uuid references public.sales(id),
+  return_id uuid references public.sale_returns(id),
+  user_id uuid references public.profiles(id),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index client_credits_client_idx on public.client_credits (client_id);
+
+create view public.client_credit_balances
+with (security_invoker = true) as
+  select client_id, sum(amount) as balance
+  from public.client_credits
+  group by client_id;
+
+-- RLS Policies: reads for every user, writes only through the functions below
+alter table public.sale_returns enable row level security;
+alter table public.sale_return_items enable row level security;
+alter table public.client_credits enable row level security;
+
+create policy "Admins have full access to sale_returns" on public.sale_returns
+  for all using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can view sale_returns" on public.sale_returns
+  for select using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+    )
+  );
+
+create policy "Admins have full access to sale_return_items" on public.sale_return_items
+  for all using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can view sale_return_items" on public.sale_return_items
+  for select using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+    )
+  );
+
+create policy "Admins have full access to client_credits" on public.client_credits
+  for all using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can view client_credits" on public.client_credits
+  for select using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+    )
+  );
+
+-- Returns items of a sale and optionally exchanges them for other products.
+-- The difference between returned and exchanged values is refunded (cash or store credit)
+-- or, when the exchange costs more, received in cash in the operator's open register.
+create or replace function public.process_return(
+  p_sale_id uuid,
+  p_items jsonb,                               -- [{ "sale_item_id": uuid, "quantity": int }]
+  p_refund_method text,                        -- 'cash' | 'store_credit'
+  p_exchange_items jsonb default '[]'::jsonb,  -- [{ "product_id": uuid, "quantity": int }]
+  p_reason text default null
+)
+returns public.sale_returns
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_sale public.sales;
+  v_client_name text;
+  v_return public.sale_returns;
+  v_exchange_sale public.sales;
+  v_register_id uuid;
+  v_sale_item public.sale_items;
+  v_product public.products;
+  v_item record;
+  v_returned numeric := 0;
+  v_exchange numeric := 0;
+  v_difference numeric;
+begin
+  if not exists (select 1 from public.profiles where profiles.id = v_user_id) then
+    raise exception 'not_authorized';
+  end if;
+
+  if p_refund_method not in ('cash', 'store_credit') then
+    raise exception 'invalid_refund_method';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_return';
+  end if;
+
+  select * into v_sale from public.sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'sale_not_found';
+  end if;
+
+  if v_sale.status = 'cancelled' then
+    raise exception 'sale_already_cancelled';
+  end if;
+
+  select name into v_client_name from public.clients where id = v_sale.client_id;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  insert into public.sale_returns (sale_id, user_id, register_id, refund_method, reason)
+  values (p_sale_id, v_user_id, v_register_id, p_refund_method, nullif(trim(p_reason), ''))
+  returning * into v_return;
+
+  -- 1. Returned items back to stock
+  for v_item in
+    select (value->>'sale_item_id')::uuid as sale_item_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    select * into v_sale_item
+    from public.sale_items
+    where id = v_item.sale_item_id and sale_id = p_sale_id
+    for update;
+
+    if not found then
+      raise exception 'sale_item_not_found';
+    end if;
+
+    if v_item.quantity is null or v_item.quantity < 1
+       or v_item.quantity > v_sale_item.quantity - v_sale_item.returned_quantity then
+      raise exception 'invalid_return_quantity';
+    end if;
+
+    update public.sale_items
+    set returned_quantity = returned_quantity + v_item.quantity
+    where id = v_sale_item.id;
+
+    insert into public.sale_return_items (return_id, sale_item_id, product_id, quantity, unit_price)
+    values (v_return.id, v_sale_item.id, v_sale_item.product_id, v_item.quantity, v_sale_item.unit_price);
+
+    perform public.apply_stock_movement(v_sale_item.product_id, v_item.quantity, 'return', v_return.id);
+
+    v_returned := v_returned + v_sale_item.unit_price * v_item.quantity;
+  end loop;
+
+  -- 2. Products taken in exchange, registered as a new sale
+  if jsonb_array_length(coalesce(p_exchange_items, '[]'::jsonb)) > 0 then
+    insert into public.sales (client_id, user_id, total_amount, payment_method, register_id)
+    values (v_sale.client_id, v_user_id, 0, 'exchange', v_register_id)
+    returning * into v_exchange_sale;
+
+    for v_item in
+      select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_exchange_items)
+      group by 1
+      order by 1
+    loop
+      if v_item.quantity is null or v_item.quantity < 1 then
+        raise exception 'invalid_quantity';
+      end if;
+
+      select * into v_product from public.products where id = v_item.product_id for update;
+      if not found then
+        raise exception 'product_not_found' using detail = v_item.product_id::text;
+      end if;
+
+      if v_product.stock_quantity < v_item.quantity then
+        raise exception 'insufficient_stock'
+          using detail = v_product.name, hint = v_product.stock_quantity::text;
+      end if;
+
+      insert into public.sale_items (sale_id, product_id, quantity, unit_price)
+      values (v_exchange_sale.id, v_product.id, v_item.quantity, v_product.price);
+
+      perform public.apply_stock_movement(v_product.id, -v_item.quantity, 'sale', v_exchange_sale.id);
+
+      v_exchange := v_exchange + v_product.price * v_item.quantity;
+    end loop;
+
+    update public.sales set total_amount = v_exchange where id = v_exchange_sale.id;
+  end if;
+
+  -- 3. Settle the difference
+  v_difference := v_returned - v_exchange;
+
+  if v_difference > 0 and p_refund_method = 'store_credit' then
+    insert into public.client_credits (client_id, amount, description, sale_id, return_id, user_id)
+    values (
+      v_sale.client_id,
+      v_difference,
+      'Devolução Venda #' || left(p_sale_id::text, 8),
+      p_sale_id,
+      v_return.id,
+      v_user_id
+    );
+  elsif v_difference <> 0 then
+    if v_register_id is null then
+      raise exception 'no_open_register';
+    end if;
+
+    if v_difference > 0 then
+      insert into public.cash_transactions (register_id, sale_id, description, amount, type)
+      values (
+        v_register_id,
+        p_sale_id,
+        'Devolução Venda #' || left(p_sale_id::text, 8) || ' - ' || coalesce(v_client_name, 'Cliente'),
+        -v_difference,
+        'return_refund'
+      );
+    else
+      insert into public.cash_transactions (register_id, sale_id, description, amount, type)
+      values (
+        v_register_id,
+        v_exchange_sale.id,
+        'Troca Venda #' || left(p_sale_id::text, 8) || ' - ' || coalesce(v_client_name, 'Cliente'),
+        -v_difference,
+        'sale'
+      );
+    end if;
+  end if;
+
+  update public.sale_returns
+  set returned_amount = v_returned,
+      exchange_sale_id = v_exchange_sale.id,
+      exchange_amount = v_exchange,
+      refund_amount = greatest(v_difference, 0),
+      amount_due = greatest(-v_difference, 0)
+  where id = v_return.id
+  returning * into v_return;
+
+  return v_return;
+end;
+$$;
+
+-- Checkout accepts 'store_credit' as payment method, debiting the client's balance
+create or replace function public.checkout_sale(
+  p_client_id uuid,
+  p_payment_method text,
+  p_items jsonb,                          -- [{ "product_id": uuid, "quantity": int }]
+  p_installments jsonb default '[]'::jsonb, -- [{ "installment_number": int, "due_date": date, "amount": numeric }]
+  p_amount_paid numeric default null
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_is_installment boolean := jsonb_array_length(coalesce(p_installments, '[]'::jsonb)) > 0;
+  v_register_id uuid;
+  v_client_name text;
+  v_sale public.sales;
+  v_product public.products;
+  v_item record;
+  v_total numeric := 0;
+  v_installments_total numeric;
+  v_credit_balance numeric;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select name into v_client_name from public.clients where id = p_client_id;
+  if not found then
+    raise exception 'client_not_found';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart';
+  end if;
+
+  -- Lock every product (in a stable order to avoid deadlocks) and validate stock
+  for v_item in
+    select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    if v_item.quantity is null or v_item.quantity < 1 then
+      raise exception 'invalid_quantity';
+    end if;
+
+    select * into v_product from public.products where id = v_item.product_id for update;
+    if not found then
+      raise exception 'product_not_found' using detail = v_item.product_id::text;
+    end if;
+
+    if coalesce(v_product.stock_quantity, 0) < v_item.quantity then
+      raise exception 'insufficient_stock'
+        using detail = v_product.name, hint = coalesce(v_product.stock_quantity, 0)::text;
+    end if;
+
+    v_total := v_total + v_product.price * v_item.quantity;
+  end loop;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  if v_is_installment then
+    select coalesce(sum((value->>'amount')::numeric), 0) into v_installments_total
+    from jsonb_array_elements(p_installments);
+
+    if abs(v_installments_total - v_total) > 0.01 then
+      raise exception 'installments_mismatch';
+    end if;
+  elsif p_payment_method = 'store_credit' then
+    -- Lock the client's ledger so the same credit cannot be spent twice
+    perform 1 from public.clients where id = p_client_id for update;
+
+    select coalesce(sum(amount), 0) into v_credit_balance
+    from public.client_credits
+    where client_id = p_client_id;
+
+    if v_credit_balance < v_total then
+      raise exception 'insufficient_store_credit' using hint = v_credit_balance::text;
+    end if;
+  else
+    -- Cash sales must land in the operator's open register
+    if v_register_id is null then
+      raise exception 'no_open_register';
+    end if;
+
+    if p_payment_method = 'money' and coalesce(p_amount_paid, 0) < v_total then
+      raise exception 'insufficient_payment';
+    end if;
+  end if;
+
+  -- 1. Sale
+  insert into public.sales (client_id, user_id, total_amount, payment_method, register_id)
+  values (p_client_id, v_user_id, v_total, p_payment_method, v_register_id)
+  returning * into v_sale;
+
+  -- 2. Items and stock (prices always come from the products table)
+  for v_item in
+    select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    insert into public.sale_items (sale_id, product_id, quantity, unit_price)
+    select v_sale.id, id, v_item.quantity, price
+    from public.products
+    where id = v_item.product_id;
+
+    perform public.apply_stock_movement(v_item.product_id, -v_item.quantity, 'sale', v_sale.id);
+  end loop;
+
+  -- 3. Installments
+  if v_is_installment then
+    insert into public.installments (sale_id, installment_number, due_date, amount, status)
+    select v_sale.id,
+           (value->>'installment_number')::integer,
+           (value->>'due_date')::date,
+           (value->>'amount')::numeric,
+           'pending'
+    from jsonb_array_elements(p_installments);
+  end if;
+
+  -- 4. Cash flow (store credit does not move money)
+  if p_payment_method = 'store_credit' and not v_is_installment then
+    insert into public.client_credits (client_id, amount, description, sale_id, user_id)
+    values (p_client_id, -v_total, 'Venda #' || left(v_sale.id::text, 8), v_sale.id, v_user_id);
+  elsif not v_is_installment then
+    insert into public.cash_transactions (register_id, sale_id, description, amount, type)
+    values (
+      v_register_id,
+      v_sale.id,
+      'Venda #' || left(v_sale.id::text, 8) || ' - ' || v_client_name,
+      v_total,
+      'sale'
+    );
+  end if;
+
+  return v_sale;
+end;
+$$;
+
+-- Cancellation gives back store credit used by the sale and refuses sales that already
+-- had returns (return the remaining items instead)
+create or replace function public.cancel_sale(
+  p_sale_id uuid,
+  p_reason text
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_sale public.sales;
+  v_client_name text;
+  v_register_id uuid;
+  v_refund numeric;
+  v_credit_used numeric;
+  v_item record;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'reason_required';
+  end if;
+
+  select * into v_sale from public.sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'sale_not_found';
+  end if;
+
+  if v_sale.status = 'cancelled' then
+    raise exception 'sale_already_cancelled';
+  end if;
+
+  if exists (select 1 from public.sale_returns where sale_id = p_sale_id) then
+    raise exception 'sale_has_returns';
+  end if;
+
+  select name into v_client_name from public.clients where id = v_sale.client_id;
+
+  -- Money actually received for this sale: the cash sale entry plus installments already paid
+  select coalesce(sum(amount), 0) into v_refund
+  from public.cash_transactions
+  where (sale_id = p_sale_id and type = 'sale')
+     or (type = 'installment_payment' and installment_id in (
+           select id from public.installments where sale_id = p_sale_id
+         ));
+
+  select coalesce(-sum(amount), 0) into v_credit_used
+  from public.client_credits
+  where sale_id = p_sale_id and amount < 0;
+
+  if v_refund > 0 then
+    select id into v_register_id
+    from public.cash_registers
+    where user_id = v_user_id and status = 'open'
+    order by opened_at desc
+    limit 1;
+
+    if v_register_id is null then
+      raise exception 'no_open_register';
+    end if;
+  end if;
+
+  -- 1. Items back to stock
+  for v_item in
+    select product_id, quantity from public.sale_items where sale_id = p_sale_id order by product_id
+  loop
+    perform public.apply_stock_movement(v_item.product_id, v_item.quantity, 'sale_cancellation', p_sale_id);
+  end loop;
+
+  -- 2. Installments not yet paid
+  update public.installments
+  set status = 'cancelled'
+  where sale_id = p_sale_id and status in ('pending', 'overdue');
+
+  -- 3. Refund out of the register / back to store credit
+  if v_refund > 0 then
+    insert into public.cash_transactions (register_id, sale_id, description, amount, type)
+    values (
+      v_register_id,
+      p_sale_id,
+      'Cancelamento Venda #' || left(p_sale_id::text, 8) || ' - ' || coalesce(v_client_name, 'Cliente'),
+      -v_refund,
+      'sale_cancellation'
+    );
+  end if;
+
+  if v_credit_used > 0 then
+    insert into public.client_credits (client_id, amount, description, sale_id, user_id)
+    values (v_sale.client_id, v_credit_used, 'Cancelamento Venda #' || left(p_sale_id::text, 8), p_sale_id, v_user_id);
+  end if;
+
+  update public.sales
+  set status = 'cancelled',
+      cancelled_at = timezone('utc'::text, now()),
+      cancelled_by = v_user_id,
+      cancellation_reason = trim(p_reason)
+  where id = p_sale_id
+  returning * into v_sale;
+
+  return v_sale;
+end;
+$$;
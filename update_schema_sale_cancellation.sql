@@ -0,0 +1,117 @@
+-- Sale cancellation
+-- Run after update_schema_stock_movements.sql. A cancelled sale is kept (status = 'cancelled')
+-- and its effects are reversed: items go back to stock, open installments are cancelled and
+-- the money received is taken out of the admin's open register.
+
+alter table public.sales
+  add column status text not null default 'completed' check (status in ('completed', 'cancelled')),
+  add column cancelled_at timestamp with time zone,
+  add column cancelled_by uuid references public.profiles(id),
+  add column cancellation_reason text;
+
+alter table public.installments
+  drop constraint if exists installments_status_check,
+  add constraint installments_status_check check (status in ('pending', 'paid', 'overdue', 'cancelled'));
+
+alter table public.cash_transactions
+  drop constraint if exists cash_transactions_type_check,
+  add constraint cash_transactions_type_check check (type in ('sale', 'installment_payment', 'opening', 'closing', 'withdrawal', 'deposit', 'sale_cancellation'));
+
+alter table public.stock_movements
+  drop constraint if exists stock_movements_reason_check,
+  add constraint stock_movements_reason_check check (reason in ('sale', 'purchase', 'manual_add', 'manual_remove', 'return', 'inventory_count', 'sale_cancellation'));
+
+create or replace function public.cancel_sale(
+  p_sale_id uuid,
+  p_reason text
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_sale public.sales;
+  v_client_name text;
+  v_register_id uuid;
+  v_refund numeric;
+  v_item record;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = v_user_id and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'reason_required';
+  end if;
+
+  select * into v_sale from public.sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'sale_not_found';
+  end if;
+
+  if v_sale.status = 'cancelled' then
+    raise exception 'sale_already_cancelled';
+  end if;
+
+  select name into v_client_name from public.clients where id = v_sale.client_id;
+
+  -- Money actually received for this sale: the cash sale entry plus installments already paid
+  select coalesce(sum(amount), 0) into v_refund
+  from public.cash_transactions
+  where (sale_id = p_sale_id and type = 'sale')
+     or (type = 'installment_payment' and installment_id in (
+           select id from public.installments where sale_id = p_sale_id
+         ));
+
+  if v_refund > 0 then
+    select id into v_register_id
+    from public.cash_registers
+    where user_id = v_user_id and status = 'open'
+    order by opened_at desc
+    limit 1;
+
+    if v_register_id is null then
+      raise exception 'no_open_register';
+    end if;
+  end if;
+
+  -- 1. Items back to stock
+  for v_item in
+    select product_id, quantity from public.sale_items where sale_id = p_sale_id order by product_id
+  loop
+    perform public.apply_stock_movement(v_item.product_id, v_item.quantity, 'sale_cancellation', p_sale_id);
+  end loop;
+
+  -- 2. Installments not yet paid
+  update public.installments
+  set status = 'cancelled'
+  where sale_id = p_sale_id and status in ('pending', 'overdue');
+
+  -- 3. Refund out of the register
+  if v_refund > 0 then
+    insert into public.cash_transactions (register_id, sale_id, description, amount, type)
+    values (
+      v_register_id,
+      p_sale_id,
+      'Cancelamento Venda #' || left(p_sale_id::text, 8) || ' - ' || coalesce(v_client_name, 'Cliente'),
+      -v_refund,
+      'sale_cancellation'
+    );
+  end if;
+
+  update public.sales
+  set status = 'cancelled',
+      cancelled_at = timezone('utc'::text, now()),
+      cancelled_by = v_user_id,
+      cancellation_reason = trim(p_reason)
+  where id = p_sale_id
+  returning * into v_sale;
+
+  return v_sale;
+end;
+$$;
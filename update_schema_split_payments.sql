@@ -0,0 +1,269 @@
+-- Split payments
+-- Run after update_schema_returns.sql. A sale can be paid with several methods
+-- (e.g. part PIX, part cash). Each method/amount line is stored in sale_payments and
+-- sales.payment_method becomes a summary ('multiple' when more than one method was used).
+-- Change (troco) is only ever given on the cash line.
+
+-- Create sale_payments table
+create table public.sale_payments (
+  id uuid default uuid_generate_v4() primary key,
+  sale_id uuid references public.sales(id) on delete cascade not null,
+  method text not null check (method in ('money', 'pix', 'debit', 'credit', 'store_credit', 'installment')),
+  amount numeric not null check (amount > 0), -- Amount applied to the sale
+  tendered_amount numeric, -- Cash handed over by the client (money only)
+  change_amount numeric not null default 0, -- Change given back (money only)
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index sale_payments_sale_idx on public.sale_payments (sale_id);
+
+-- Payment method of each cash entry, so the register can be summarised per method
+alter table public.cash_transactions add column payment_method text;
+
+alter table public.sale_payments enable row level security;
+
+create policy "Admins have full access to sale_payments" on public.sale_payments
+  for all using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can view sale_payments" on public.sale_payments
+  for select using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+    )
+  );
+
+-- Backfill one payment line for existing sales
+insert into public.sale_payments (sale_id, method, amount, created_at)
+select id,
+       case when payment_method like 'credit_card_%' then 'installment' else payment_method end,
+       total_amount,
+       created_at
+from public.sales
+where total_amount > 0
+  and (payment_method in ('money', 'pix', 'debit', 'credit', 'store_credit') or payment_method like 'credit_card_%');
+
+update public.cash_transactions t
+set payment_method = s.payment_method
+from public.sales s
+where t.sale_id = s.id
+  and t.type = 'sale'
+  and s.payment_method in ('money', 'pix', 'debit', 'credit');
+
+-- Checkout with payment lines instead of a single method
+drop function if exists public.checkout_sale(uuid, text, jsonb, jsonb, numeric);
+
+create or replace function public.checkout_sale(
+  p_client_id uuid,
+  p_items jsonb,                            -- [{ "product_id": uuid, "quantity": int }]
+  p_payments jsonb,                         -- [{ "method": text, "amount": numeric }] (money: amount handed over)
+  p_installments jsonb default '[]'::jsonb  -- [{ "installment_number": int, "due_date": date, "amount": numeric }]
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_register_id uuid;
+  v_client_name text;
+  v_sale public.sales;
+  v_product public.products;
+  v_item record;
+  v_payment record;
+  v_total numeric := 0;
+  v_paid numeric;
+  v_non_cash numeric;
+  v_tendered numeric;
+  v_change numeric;
+  v_financed numeric;
+  v_installments_total numeric;
+  v_credit numeric;
+  v_credit_balance numeric;
+  v_methods integer;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select name into v_client_name from public.clients where id = p_client_id;
+  if not found then
+    raise exception 'client_not_found';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart';
+  end if;
+
+  -- Lock every product (in a stable order to avoid deadlocks) and validate stock
+  for v_item in
+    select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    if v_item.quantity is null or v_item.quantity < 1 then
+      raise exception 'invalid_quantity';
+    end if;
+
+    select * into v_product from public.products where id = v_item.product_id for update;
+    if not found then
+      raise exception 'product_not_found' using detail = v_item.product_id::text;
+    end if;
+
+    if coalesce(v_product.stock_quantity, 0) < v_item.quantity then
+      raise exception 'insufficient_stock'
+        using detail = v_product.name, hint = coalesce(v_product.stock_quantity, 0)::text;
+    end if;
+
+    v_total := v_total + v_product.price * v_item.quantity;
+  end loop;
+
+  -- Payment lines, one per method
+  if p_payments is null or jsonb_array_length(p_payments) = 0 then
+    raise exception 'payment_required';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_payments)
+    where value->>'method' not in ('money', 'pix', 'debit', 'credit', 'store_credit', 'installment')
+       or coalesce((value->>'amount')::numeric, 0) <= 0
+  ) then
+    raise exception 'invalid_payment';
+  end if;
+
+  select coalesce(sum((value->>'amount')::numeric), 0),
+         coalesce(sum((value->>'amount')::numeric) filter (where value->>'method' <> 'money'), 0),
+         coalesce(sum((value->>'amount')::numeric) filter (where value->>'method' = 'money'), 0),
+         coalesce(sum((value->>'amount')::numeric) filter (where value->>'method' = 'installment'), 0),
+         coalesce(sum((value->>'amount')::numeric) filter (where value->>'method' = 'store_credit'), 0),
+         count(distinct value->>'method')
+  into v_paid, v_non_cash, v_tendered, v_financed, v_credit, v_methods
+  from jsonb_array_elements(p_payments);
+
+  -- Non-cash lines can never exceed the total, and a cash line must apply something
+  if v_non_cash > v_total or (v_tendered > 0 and v_non_cash >= v_total) then
+    raise exception 'overpayment';
+  end if;
+
+  if v_paid < v_total then
+    raise exception 'insufficient_payment';
+  end if;
+
+  -- Only cash can exceed the total; the excess is the change
+  v_change := v_paid - v_total;
+
+  if v_financed > 0 then
+    select coalesce(sum((value->>'amount')::numeric), 0) into v_installments_total
+    from jsonb_array_elements(coalesce(p_installments, '[]'::jsonb));
+
+    if abs(v_installments_total - v_financed) > 0.01 then
+      raise exception 'installments_mismatch';
+    end if;
+  end if;
+
+  if v_credit > 0 then
+    -- Lock the client's ledger so the same credit cannot be spent twice
+    perform 1 from public.clients where id = p_client_id for update;
+
+    select coalesce(sum(amount), 0) into v_credit_balance
+    from public.client_credits
+    where client_id = p_client_id;
+
+    if v_credit_balance < v_credit then
+      raise exception 'insufficient_store_credit' using hint = v_credit_balance::text;
+    end if;
+  end if;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  -- Money received now must land in the operator's open register
+  if v_paid - v_financed - v_credit > 0 and v_register_id is null then
+    raise exception 'no_open_register';
+  end if;
+
+  -- 1. Sale
+  insert into public.sales (client_id, user_id, total_amount, payment_method, register_id)
+  values (
+    p_client_id,
+    v_user_id,
+    v_total,
+    case
+      when v_methods > 1 then 'multiple'
+      when v_financed > 0 then 'credit_card_' || jsonb_array_length(p_installments) || 'x'
+      else p_payments->0->>'method'
+    end,
+    v_register_id
+  )
+  returning * into v_sale;
+
+  -- 2. Items and stock (prices always come from the products table)
+  for v_item in
+    select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    insert into public.sale_items (sale_id, product_id, quantity, unit_price)
+    select v_sale.id, id, v_item.quantity, price
+    from public.products
+    where id = v_item.product_id;
+
+    perform public.apply_stock_movement(v_item.product_id, -v_item.quantity, 'sale', v_sale.id);
+  end loop;
+
+  -- 3. Payment lines and their cash entries
+  for v_payment in
+    select value->>'method' as method, sum((value->>'amount')::numeric) as amount
+    from jsonb_array_elements(p_payments)
+    group by 1
+    order by 1
+  loop
+    if v_payment.method = 'money' then
+      insert into public.sale_payments (sale_id, method, amount, tendered_amount, change_amount)
+      values (v_sale.id, 'money', v_payment.amount - v_change, v_payment.amount, v_change);
+    else
+      insert into public.sale_payments (sale_id, method, amount)
+      values (v_sale.id, v_payment.method, v_payment.amount);
+    end if;
+
+    if v_payment.method in ('money', 'pix', 'debit', 'credit') then
+      insert into public.cash_transactions (register_id, sale_id, description, amount, type, payment_method)
+      values (
+        v_register_id,
+        v_sale.id,
+        'Venda #' || left(v_sale.id::text, 8) || ' - ' || v_client_name,
+        case when v_payment.method = 'money' then v_payment.amount - v_change else v_payment.amount end,
+        'sale',
+        v_payment.method
+      );
+    elsif v_payment.method = 'store_credit' then
+      insert into public.client_credits (client_id, amount, description, sale_id, user_id)
+      values (p_client_id, -v_payment.amount, 'Venda #' || left(v_sale.id::text, 8), v_sale.id, v_user_id);
+    end if;
+  end loop;
+
+  -- 4. Installments for the financed part
+  if v_financed > 0 then
+    insert into public.installments (sale_id, installment_number, due_date, amount, status)
+    select v_sale.id,
+           (value->>'installment_number')::integer,
+           (value->>'due_date')::date,
+           (value->>'amount')::numeric,
+           'pending'
+    from jsonb_array_elements(p_installments);
+  end if;
+
+  return v_sale;
+end;
+$$;
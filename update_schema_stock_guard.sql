@@ -0,0 +1,116 @@
+-- Race-free stock changes
+-- Run after update_schema_checkout.sql. Stock is only changed through relative
+-- increments/decrements executed in the database, never by writing back a value
+-- read earlier by the client, and the table itself refuses negative balances.
+-- Direct writes to stock_quantity from the app are refused.
+
+-- Clean up balances that may already be negative before adding the guard
+update public.products set stock_quantity = 0 where stock_quantity is null or stock_quantity < 0;
+
+alter table public.products
+  alter column stock_quantity set not null,
+  add constraint products_stock_quantity_nonnegative check (stock_quantity >= 0);
+
+-- Manual adjustment (StockModal): positive delta adds, negative removes.
+-- Raises 'stock_conflict' when the removal would leave the product negative,
+-- with the product name in DETAIL and the current balance in HINT.
+create or replace function public.adjust_stock(
+  p_product_id uuid,
+  p_delta integer
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quantity integer;
+  v_name text;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = auth.uid() and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  if p_delta is null or p_delta = 0 then
+    raise exception 'invalid_quantity';
+  end if;
+
+  begin
+    update public.products
+    set stock_quantity = stock_quantity + p_delta
+    where id = p_product_id
+    returning stock_quantity into v_quantity;
+  exception when check_violation then
+    select name, stock_quantity into v_name, v_quantity from public.products where id = p_product_id;
+    raise exception 'stock_conflict' using detail = v_name, hint = v_quantity::text;
+  end;
+
+  if v_quantity is null then
+    raise exception 'product_not_found';
+  end if;
+
+  return v_quantity;
+end;
+$$;
+
+-- Purchase entry (Stock > Compras): records the purchase and increments stock together
+create or replace function public.register_purchase(
+  p_product_id uuid,
+  p_quantity integer,
+  p_purchase_date timestamp with time zone,
+  p_file_url text default null
+)
+returns public.purchases
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_purchase public.purchases;
+begin
+  if not exists (select 1 from public.profiles where profiles.id = auth.uid()) then
+    raise exception 'not_authorized';
+  end if;
+
+  if p_quantity is null or p_quantity < 1 then
+    raise exception 'invalid_quantity';
+  end if;
+
+  update public.products
+  set stock_quantity = stock_quantity + p_quantity
+  where id = p_product_id;
+
+  if not found then
+    raise exception 'product_not_found';
+  end if;
+
+  insert into public.purchases (product_id, quantity, purchase_date, file_url)
+  values (p_product_id, p_quantity, p_purchase_date, p_file_url)
+  returning * into v_purchase;
+
+  return v_purchase;
+end;
+$$;
+
+-- The functions above are security definer and run as the table owner. A write coming straight
+-- from the app (anon/authenticated) would put back a balance read earlier, losing the sales and
+-- adjustments made meanwhile.
+create or replace function public.guard_stock_quantity()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user in ('anon', 'authenticated')
+     and new.stock_quantity is distinct from old.stock_quantity then
+    raise exception 'stock_direct_update';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger products_guard_stock_quantity
+  before update of stock_quantity on public.products
+  for each row execute function public.guard_stock_quantity();
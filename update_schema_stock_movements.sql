@@ -0,0 +1,332 @@
+-- Stock movement ledger (kardex)
+-- Run after update_schema_stock_guard.sql. Every change to products.stock_quantity
+-- goes through apply_stock_movement, which applies the delta and records why it happened.
+
+create table public.stock_movements (
+  id uuid default uuid_generate_v4() primary key,
+  product_id uuid references public.products(id) on delete cascade not null,
+  delta integer not null, -- Positive for IN, Negative for OUT
+  balance_after integer not null,
+  reason text not null check (reason in ('sale', 'purchase', 'manual_add', 'manual_remove', 'return', 'inventory_count')),
+  reference_id uuid, -- Sale, purchase or return that caused the movement
+  user_id uuid references public.profiles(id),
+  notes text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index stock_movements_product_created_idx on public.stock_movements (product_id, created_at);
+
+alter table public.stock_movements enable row level security;
+
+create policy "Admins have full access to stock_movements" on public.stock_movements
+  for all using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.role = 'admin'
+    )
+  );
+
+create policy "Users can view stock_movements" on public.stock_movements
+  for select using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid()
+    )
+  );
+
+-- Applies a relative stock change and records it in the ledger. Internal helper:
+-- only called from the other functions, never directly by the client.
+create or replace function public.apply_stock_movement(
+  p_product_id uuid,
+  p_delta integer,
+  p_reason text,
+  p_reference_id uuid default null,
+  p_notes text default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_quantity integer;
+  v_name text;
+begin
+  begin
+    update public.products
+    set stock_quantity = stock_quantity + p_delta
+    where id = p_product_id
+    returning stock_quantity into v_quantity;
+  exception when check_violation then
+    select name, stock_quantity into v_name, v_quantity from public.products where id = p_product_id;
+    raise exception 'stock_conflict' using detail = v_name, hint = v_quantity::text;
+  end;
+
+  if v_quantity is null then
+    raise exception 'product_not_found';
+  end if;
+
+  insert into public.stock_movements (product_id, delta, balance_after, reason, reference_id, user_id, notes)
+  values (p_product_id, p_delta, v_quantity, p_reason, p_reference_id, auth.uid(), p_notes);
+
+  return v_quantity;
+end;
+$$;
+
+revoke execute on function public.apply_stock_movement(uuid, integer, text, uuid, text) from public, anon, authenticated;
+
+-- The guard from update_schema_stock_guard.sql now also covers new products: they start at 0 and
+-- any initial stock comes in through a purchase or adjustment, so the ledger always adds up to
+-- stock_quantity.
+create or replace function public.guard_stock_quantity()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user in ('anon', 'authenticated') and (
+       (tg_op = 'INSERT' and coalesce(new.stock_quantity, 0) <> 0)
+       or (tg_op = 'UPDATE' and new.stock_quantity is distinct from old.stock_quantity)
+     ) then
+    raise exception 'stock_direct_update';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger products_guard_initial_stock
+  before insert on public.products
+  for each row execute function public.guard_stock_quantity();
+
+-- Manual adjustment (StockModal): positive delta adds, negative removes
+create or replace function public.adjust_stock(
+  p_product_id uuid,
+  p_delta integer
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = auth.uid() and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  if p_delta is null or p_delta = 0 then
+    raise exception 'invalid_quantity';
+  end if;
+
+  return public.apply_stock_movement(
+    p_product_id,
+    p_delta,
+    case when p_delta > 0 then 'manual_add' else 'manual_remove' end
+  );
+end;
+$$;
+
+-- Inventory count (StockModal): sets the counted quantity, recording the difference
+create or replace function public.count_stock(
+  p_product_id uuid,
+  p_counted integer
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_current integer;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where profiles.id = auth.uid() and profiles.role = 'admin'
+  ) then
+    raise exception 'not_authorized';
+  end if;
+
+  if p_counted is null or p_counted < 0 then
+    raise exception 'invalid_quantity';
+  end if;
+
+  select stock_quantity into v_current from public.products where id = p_product_id for update;
+  if not found then
+    raise exception 'product_not_found';
+  end if;
+
+  return public.apply_stock_movement(
+    p_product_id,
+    p_counted - v_current,
+    'inventory_count',
+    null,
+    'Contagem: ' || p_counted || ' (sistema: ' || v_current || ')'
+  );
+end;
+$$;
+
+-- Purchase entry (Stock > Compras): records the purchase and increments stock together
+create or replace function public.register_purchase(
+  p_product_id uuid,
+  p_quantity integer,
+  p_purchase_date timestamp with time zone,
+  p_file_url text default null
+)
+returns public.purchases
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_purchase public.purchases;
+begin
+  if not exists (select 1 from public.profiles where profiles.id = auth.uid()) then
+    raise exception 'not_authorized';
+  end if;
+
+  if p_quantity is null or p_quantity < 1 then
+    raise exception 'invalid_quantity';
+  end if;
+
+  insert into public.purchases (product_id, quantity, purchase_date, file_url)
+  values (p_product_id, p_quantity, p_purchase_date, p_file_url)
+  returning * into v_purchase;
+
+  perform public.apply_stock_movement(p_product_id, p_quantity, 'purchase', v_purchase.id);
+
+  return v_purchase;
+end;
+$$;
+
+-- Checkout now records a 'sale' movement per product
+create or replace function public.checkout_sale(
+  p_client_id uuid,
+  p_payment_method text,
+  p_items jsonb,                          -- [{ "product_id": uuid, "quantity": int }]
+  p_installments jsonb default '[]'::jsonb, -- [{ "installment_number": int, "due_date": date, "amount": numeric }]
+  p_amount_paid numeric default null
+)
+returns public.sales
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_is_installment boolean := jsonb_array_length(coalesce(p_installments, '[]'::jsonb)) > 0;
+  v_register_id uuid;
+  v_client_name text;
+  v_sale public.sales;
+  v_product public.products;
+  v_item record;
+  v_total numeric := 0;
+  v_installments_total numeric;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select name into v_client_name from public.clients where id = p_client_id;
+  if not found then
+    raise exception 'client_not_found';
+  end if;
+
+  if p_items is null or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_cart';
+  end if;
+
+  -- Lock every product (in a stable order to avoid deadlocks) and validate stock
+  for v_item in
+    select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    if v_item.quantity is null or v_item.quantity < 1 then
+      raise exception 'invalid_quantity';
+    end if;
+
+    select * into v_product from public.products where id = v_item.product_id for update;
+    if not found then
+      raise exception 'product_not_found' using detail = v_item.product_id::text;
+    end if;
+
+    if coalesce(v_product.stock_quantity, 0) < v_item.quantity then
+      raise exception 'insufficient_stock'
+        using detail = v_product.name, hint = coalesce(v_product.stock_quantity, 0)::text;
+    end if;
+
+    v_total := v_total + v_product.price * v_item.quantity;
+  end loop;
+
+  select id into v_register_id
+  from public.cash_registers
+  where user_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  if v_is_installment then
+    select coalesce(sum((value->>'amount')::numeric), 0) into v_installments_total
+    from jsonb_array_elements(p_installments);
+
+    if abs(v_installments_total - v_total) > 0.01 then
+      raise exception 'installments_mismatch';
+    end if;
+  else
+    -- Cash sales must land in the operator's open register
+    if v_register_id is null then
+      raise exception 'no_open_register';
+    end if;
+
+    if p_payment_method = 'money' and coalesce(p_amount_paid, 0) < v_total then
+      raise exception 'insufficient_payment';
+    end if;
+  end if;
+
+  -- 1. Sale
+  insert into public.sales (client_id, user_id, total_amount, payment_method, register_id)
+  values (p_client_id, v_user_id, v_total, p_payment_method, v_register_id)
+  returning * into v_sale;
+
+  -- 2. Items and stock (prices always come from the products table)
+  for v_item in
+    select (value->>'product_id')::uuid as product_id, sum((value->>'quantity')::integer) as quantity
+    from jsonb_array_elements(p_items)
+    group by 1
+    order by 1
+  loop
+    insert into public.sale_items (sale_id, product_id, quantity, unit_price)
+    select v_sale.id, id, v_item.quantity, price
+    from public.products
+    where id = v_item.product_id;
+
+    perform public.apply_stock_movement(v_item.product_id, -v_item.quantity, 'sale', v_sale.id);
+  end loop;
+
+  -- 3. Installments
+  if v_is_installment then
+    insert into public.installments (sale_id, installment_number, due_date, amount, status)
+    select v_sale.id,
+           (value->>'installment_number')::integer,
+           (value->>'due_date')::date,
+           (value->>'amount')::numeric,
+           'pending'
+    from jsonb_array_elements(p_installments);
+  end if;
+
+  -- 4. Cash flow
+  if not v_is_installment then
+    insert into public.cash_transactions (register_id, sale_id, description, amount, type)
+    values (
+      v_register_id,
+      v_sale.id,
+      'Venda #' || left(v_sale.id::text, 8) || ' - ' || v_client_name,
+      v_total,
+      'sale'
+    );
+  end if;
+
+  return v_sale;
+end;
+$$;